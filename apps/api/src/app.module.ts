@@ -4,6 +4,7 @@ import { APP_GUARD } from '@nestjs/core';
 import { DatabaseModule } from './core/database/database.module';
 import { CacheModule } from './core/cache/cache.module';
 import { QueueModule } from './core/queue/queue.module';
+import { StorageModule } from './core/storage/storage.module';
 import { configValidation } from './core/config/config.validation';
 import { JwtAuthGuard } from './core/common/guards/jwt-auth.guard';
 import { RolesGuard } from './core/common/guards/roles.guard';
@@ -26,6 +27,7 @@ import { DeploymentModule } from './domains/deployment/deployment.module';
     DatabaseModule,
     CacheModule,
     QueueModule,
+    StorageModule,
     // Phase 1: Auth & Multi-tenancy
     AuthModule,
     UserModule,
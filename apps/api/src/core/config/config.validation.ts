@@ -29,10 +29,22 @@ class EnvironmentVariables {
   @IsString()
   JWT_REFRESH_SECRET!: string;
 
+  @IsString()
+  @IsOptional()
+  WIDGET_SESSION_SECRET?: string;
+
   @IsString()
   @IsOptional()
   CORS_ORIGINS: string = 'http://localhost:3000';
 
+  @IsString()
+  @IsOptional()
+  TRUST_PROXY?: string;
+
+  @IsString()
+  @IsOptional()
+  STORAGE_DIR: string = './storage';
+
   @IsString()
   @IsOptional()
   GEMINI_API_KEY?: string;
@@ -45,6 +57,51 @@ class EnvironmentVariables {
   @IsOptional()
   OPENAI_API_KEY?: string;
 
+  @IsString()
+  @IsOptional()
+  FALLBACK_AI_MODEL?: string;
+
+  @IsNumber()
+  @IsOptional()
+  @Type(() => Number)
+  AI_TIMEOUT_MS?: number;
+
+  @IsString()
+  @IsOptional()
+  LOCAL_EMBEDDING_CACHE_DIR?: string;
+
+  @IsString()
+  @IsOptional()
+  PLAYWRIGHT_EXECUTABLE_PATH?: string;
+
+  @IsString()
+  @IsOptional()
+  PLAYWRIGHT_WS_ENDPOINT?: string;
+
+  @IsString()
+  @IsOptional()
+  FIRECRAWL_API_URL?: string;
+
+  @IsString()
+  @IsOptional()
+  FIRECRAWL_API_KEY?: string;
+
+  @IsString()
+  @IsOptional()
+  RERANKER_CROSS_ENCODER_MODEL?: string;
+
+  @IsString()
+  @IsOptional()
+  RERANKER_LLM_MODEL?: string;
+
+  @IsString()
+  @IsOptional()
+  QUERY_REWRITE_MODEL?: string;
+
+  @IsString()
+  @IsOptional()
+  GROUNDING_MODEL?: string;
+
   @IsString()
   @IsOptional()
   GOOGLE_CLIENT_ID?: string;
@@ -0,0 +1,56 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+/**
+ * Local filesystem object storage. Keys are relative paths under
+ * STORAGE_DIR (e.g. `training-files/<chatbotId>/<uuid>.pdf`).
+ */
+@Injectable()
+export class StorageService {
+  private readonly logger = new Logger(StorageService.name);
+  private readonly rootDir: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.rootDir = path.resolve(
+      this.configService.get<string>('STORAGE_DIR', './storage'),
+    );
+  }
+
+  async save(key: string, data: Buffer): Promise<string> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+    return key;
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolve(key));
+    } catch (err) {
+      // Already gone is fine; anything else is worth a warning
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn(
+          `Failed to delete ${key}: ${err instanceof Error ? err.message : err}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Resolve a storage key to an absolute path, refusing keys that would
+   * escape the storage root.
+   */
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
@@ -1,5 +1,6 @@
 import {
   Controller,
+  Get,
   Post,
   Body,
   Res,
@@ -8,13 +9,13 @@ import {
 } from '@nestjs/common';
 import { Response } from 'express';
 import { AiService } from './ai.service';
+import { ChatService, toConversationTurns } from './chat.service';
+import { DEFAULT_AI_MODEL } from './model-registry';
 import { ConversationService } from '../conversation/conversation.service';
 import { ChatbotService } from '../chatbot/chatbot.service';
-import { RagService } from '../knowledge/rag.service';
 import { CacheService } from '../../core/cache/cache.service';
 import { CurrentUser } from '../../core/common/decorators';
 import { MessageRole } from '../../generated/prisma';
-import { CoreMessage } from 'ai';
 
 class ChatDto {
   content: string;
@@ -26,12 +27,20 @@ class ChatDto {
 export class AiController {
   constructor(
     private readonly aiService: AiService,
+    private readonly chatService: ChatService,
     private readonly conversationService: ConversationService,
     private readonly chatbotService: ChatbotService,
-    private readonly ragService: RagService,
     private readonly cacheService: CacheService,
   ) {}
 
+  @Get('models')
+  listModels() {
+    return {
+      models: this.aiService.listModels(),
+      defaultModel: DEFAULT_AI_MODEL,
+    };
+  }
+
   @Post('chat')
   @HttpCode(200)
   async chat(
@@ -82,79 +91,12 @@ export class AiController {
       userId,
     );
 
-    // Convert to AI SDK format
-    const aiMessages: CoreMessage[] = messages.map((m) => ({
-      role: m.role === MessageRole.USER ? 'user' as const : 'assistant' as const,
-      content: m.content,
-    }));
-
-    // RAG: retrieve relevant knowledge base context
-    const ragResult = await this.ragService.augment(
-      chatbot.id,
-      dto.content,
-      chatbot.systemPrompt,
+    await this.chatService.streamReply(
+      res,
+      chatbot,
+      conversationId,
+      toConversationTurns(messages),
     );
-
-    // Set up SSE headers
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-    res.setHeader('X-Conversation-Id', conversationId);
-    res.flushHeaders();
-
-    try {
-      // Stream AI response with RAG-augmented prompt
-      const result = await this.aiService.streamChat({
-        modelName: chatbot.aiModel,
-        systemPrompt: ragResult.augmentedPrompt || undefined,
-        messages: aiMessages,
-        temperature: chatbot.temperature,
-      });
-
-      let fullContent = '';
-
-      for await (const chunk of result.textStream) {
-        fullContent += chunk;
-        res.write(`data: ${JSON.stringify({ content: chunk })}\n\n`);
-      }
-
-      // Save assistant response
-      const usage = await result.usage;
-      await this.conversationService.addMessage(
-        conversationId,
-        fullContent,
-        MessageRole.ASSISTANT,
-        undefined,
-        undefined,
-        usage?.totalTokens,
-      );
-
-      // Send completion event with citations from RAG
-      const citations = ragResult.contexts.map((ctx, i) => ({
-        index: i + 1,
-        content: ctx.content.substring(0, 200),
-        score: ctx.score,
-      }));
-
-      res.write(
-        `data: ${JSON.stringify({
-          isComplete: true,
-          conversationId,
-          usage,
-          citations: citations.length > 0 ? citations : undefined,
-        })}\n\n`,
-      );
-
-      res.end();
-    } catch {
-      res.write(
-        `data: ${JSON.stringify({
-          error: 'Failed to generate response',
-          isComplete: true,
-        })}\n\n`,
-      );
-      res.end();
-    }
   }
 
   private async checkRateLimit(
@@ -1,14 +1,15 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { AiController } from './ai.controller';
 import { AiService } from './ai.service';
+import { ChatService } from './chat.service';
 import { ConversationModule } from '../conversation/conversation.module';
 import { ChatbotModule } from '../chatbot/chatbot.module';
 import { KnowledgeModule } from '../knowledge/knowledge.module';
 
 @Module({
-  imports: [ConversationModule, ChatbotModule, KnowledgeModule],
+  imports: [ConversationModule, ChatbotModule, forwardRef(() => KnowledgeModule)],
   controllers: [AiController],
-  providers: [AiService],
-  exports: [AiService],
+  providers: [AiService, ChatService],
+  exports: [AiService, ChatService],
 })
 export class AiModule {}
@@ -2,9 +2,46 @@ import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { createGoogleGenerativeAI } from '@ai-sdk/google';
 import { createAnthropic } from '@ai-sdk/anthropic';
-import { streamText, generateText, CoreMessage } from 'ai';
+import {
+  streamText,
+  generateText,
+  CoreMessage,
+  LanguageModel,
+  LanguageModelUsage,
+  TextStreamPart,
+  ToolSet,
+} from 'ai';
+import {
+  AiProvider,
+  DEFAULT_AI_MODEL,
+  FALLBACK_AI_MODEL,
+  MODEL_REGISTRY,
+  ModelInfo,
+  PROVIDER_API_KEYS,
+  findModel,
+} from './model-registry';
 
-export type AiProvider = 'gemini' | 'anthropic';
+export type { AiProvider } from './model-registry';
+
+/**
+ * How long a provider gets before the fallback is tried: until the first
+ * token when streaming, for the whole response otherwise.
+ */
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+export interface ChatToolCall {
+  toolName: string;
+  args: unknown;
+}
+
+export interface ChatStream {
+  /** The model answering, which differs from the requested one after a fallback */
+  modelName: string;
+  textStream: AsyncIterable<string>;
+  /** Calls to the given tools, complete once `textStream` has been read */
+  toolCalls: ChatToolCall[];
+  usage: Promise<LanguageModelUsage>;
+}
 
 @Injectable()
 export class AiService {
@@ -12,29 +49,15 @@ export class AiService {
 
   constructor(private readonly configService: ConfigService) {}
 
-  private getModel(modelName: string) {
-    if (modelName.startsWith('gemini')) {
-      const google = createGoogleGenerativeAI({
-        apiKey: this.configService.get<string>('GEMINI_API_KEY'),
-      });
-      return google(modelName);
-    }
-
-    if (
-      modelName.startsWith('claude') ||
-      modelName.startsWith('anthropic')
-    ) {
-      const anthropic = createAnthropic({
-        apiKey: this.configService.get<string>('ANTHROPIC_API_KEY'),
-      });
-      return anthropic(modelName);
-    }
-
-    // Default to Gemini Flash
-    const google = createGoogleGenerativeAI({
-      apiKey: this.configService.get<string>('GEMINI_API_KEY'),
-    });
-    return google('gemini-2.5-flash');
+  /**
+   * Supported models, flagged with whether their provider has an API key
+   * configured.
+   */
+  listModels(): (ModelInfo & { available: boolean })[] {
+    return MODEL_REGISTRY.map((model) => ({
+      ...model,
+      available: this.isConfigured(model.provider),
+    }));
   }
 
   async streamChat(params: {
@@ -43,18 +66,36 @@ export class AiService {
     messages: CoreMessage[];
     temperature?: number;
     onChunk?: (chunk: string) => void;
-  }) {
-    const model = this.getModel(params.modelName);
-
-    const result = streamText({
-      model,
-      system: params.systemPrompt || undefined,
-      messages: params.messages,
-      temperature: params.temperature ?? 0.7,
-      maxTokens: 4096,
-    });
+    /** Tools without `execute`; their calls are returned, not run */
+    tools?: ToolSet;
+  }): Promise<ChatStream> {
+    return this.withFallback(params.modelName, async (model, signal) => {
+      const result = streamText({
+        model: this.getModel(model),
+        system: params.systemPrompt || undefined,
+        messages: params.messages,
+        temperature: params.temperature ?? 0.7,
+        maxTokens: 4096,
+        // Dropped for models that can't call tools, e.g. after a fallback
+        tools: model.capabilities.includes('tools') ? params.tools : undefined,
+        abortSignal: signal,
+        // Errors are read from the stream below
+        onError: () => undefined,
+      });
+
+      // Wait for the first token so failures before any output can still
+      // fall back; later errors are thrown to the reader
+      const parts = result.fullStream[Symbol.asyncIterator]();
+      const toolCalls: ChatToolCall[] = [];
+      const first = await this.nextText(parts, toolCalls);
 
-    return result;
+      return {
+        modelName: model.id,
+        textStream: this.remainingText(first, parts, toolCalls),
+        toolCalls,
+        usage: result.usage,
+      };
+    });
   }
 
   async generateResponse(params: {
@@ -63,19 +104,140 @@ export class AiService {
     messages: CoreMessage[];
     temperature?: number;
   }) {
-    const model = this.getModel(params.modelName);
-
-    const result = await generateText({
-      model,
-      system: params.systemPrompt || undefined,
-      messages: params.messages,
-      temperature: params.temperature ?? 0.7,
-      maxTokens: 4096,
+    return this.withFallback(params.modelName, async (model, signal) => {
+      const result = await generateText({
+        model: this.getModel(model),
+        system: params.systemPrompt || undefined,
+        messages: params.messages,
+        temperature: params.temperature ?? 0.7,
+        maxTokens: 4096,
+        abortSignal: signal,
+      });
+
+      return {
+        content: result.text,
+        usage: result.usage,
+        modelName: model.id,
+      };
     });
+  }
+
+  /**
+   * Run a call against the requested model and, if it errors or times
+   * out, once more against a model from another provider.
+   */
+  private async withFallback<T>(
+    modelName: string,
+    call: (model: ModelInfo, signal: AbortSignal) => Promise<T>,
+  ): Promise<T> {
+    const primary = this.resolveModel(modelName);
+    const fallback = this.fallbackFor(primary);
+    const timeoutMs = this.configService.get<number>('AI_TIMEOUT_MS', DEFAULT_TIMEOUT_MS);
+
+    for (const model of fallback ? [primary, fallback] : [primary]) {
+      const controller = new AbortController();
+      let timer: NodeJS.Timeout | undefined;
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          controller.abort();
+          reject(new Error(`timed out after ${timeoutMs}ms`));
+        }, timeoutMs);
+      });
+
+      try {
+        return await Promise.race([call(model, controller.signal), timeout]);
+      } catch (err) {
+        controller.abort();
+        if (model === fallback || !fallback) throw err;
+        this.logger.warn(
+          `${model.id} failed, falling back to ${fallback.id}: ${err instanceof Error ? err.message : err}`,
+        );
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+
+    // Unreachable: the last attempt either returns or throws
+    throw new Error(`No model available for ${modelName}`);
+  }
+
+  /**
+   * Registry entry for a model name. Unknown names (e.g. saved before a
+   * model was retired) use the default model.
+   */
+  private resolveModel(modelName: string): ModelInfo {
+    const model = findModel(modelName);
+    if (model) return model;
+
+    this.logger.warn(`Unknown model "${modelName}", using ${DEFAULT_AI_MODEL}`);
+    return findModel(DEFAULT_AI_MODEL)!;
+  }
+
+  /**
+   * The configured fallback model, or the default one when the fallback
+   * shares the primary's provider. Null if neither is on another provider
+   * with an API key.
+   */
+  private fallbackFor(primary: ModelInfo): ModelInfo | null {
+    const candidates = [
+      this.configService.get<string>('FALLBACK_AI_MODEL', FALLBACK_AI_MODEL),
+      DEFAULT_AI_MODEL,
+    ];
+
+    for (const id of candidates) {
+      const model = findModel(id);
+      if (model && model.provider !== primary.provider && this.isConfigured(model.provider)) {
+        return model;
+      }
+    }
+    return null;
+  }
 
-    return {
-      content: result.text,
-      usage: result.usage,
-    };
+  private isConfigured(provider: AiProvider): boolean {
+    return !!this.configService.get<string>(PROVIDER_API_KEYS[provider]);
+  }
+
+  private getModel(model: ModelInfo): LanguageModel {
+    const apiKey = this.configService.get<string>(PROVIDER_API_KEYS[model.provider]);
+
+    switch (model.provider) {
+      case 'anthropic':
+        return createAnthropic({ apiKey })(model.id);
+      case 'gemini':
+        return createGoogleGenerativeAI({ apiKey })(model.id);
+    }
+  }
+
+  /**
+   * The next text delta, or null at the end of the stream. Tool calls
+   * passed on the way are added to `toolCalls`.
+   */
+  private async nextText(
+    parts: AsyncIterator<TextStreamPart<ToolSet>>,
+    toolCalls: ChatToolCall[],
+  ): Promise<string | null> {
+    for (;;) {
+      const { done, value } = await parts.next();
+      if (done) return null;
+      if (value.type === 'error') throw value.error;
+      if (value.type === 'text-delta') return value.textDelta;
+      if (value.type === 'tool-call') {
+        toolCalls.push({ toolName: value.toolName, args: value.args });
+      }
+    }
+  }
+
+  private async *remainingText(
+    first: string | null,
+    parts: AsyncIterator<TextStreamPart<ToolSet>>,
+    toolCalls: ChatToolCall[],
+  ): AsyncIterable<string> {
+    for (
+      let text = first;
+      text !== null;
+      text = await this.nextText(parts, toolCalls)
+    ) {
+      yield text;
+    }
   }
 }
@@ -0,0 +1,210 @@
+import { Injectable } from '@nestjs/common';
+import { Response } from 'express';
+import { AiService } from './ai.service';
+import {
+  MESSAGE_BLOCK_GUIDANCE,
+  MESSAGE_BLOCK_TOOLS,
+  toMessageBlocks,
+} from './message-blocks';
+import { ConversationService } from '../conversation/conversation.service';
+import { RagService } from '../knowledge/rag.service';
+import { ConversationTurn } from '../knowledge/query-rewriter.service';
+import { GroundingService } from '../knowledge/grounding.service';
+import { checkCitationMarkers } from '../knowledge/citation-markers';
+import {
+  VisitorIdentity,
+  renderVisitorVariables,
+} from '../conversation/visitor-identity';
+import {
+  Chatbot,
+  MessageRole,
+  StrictFallbackAction,
+} from '../../generated/prisma';
+
+const DEFAULT_STRICT_FALLBACK_MESSAGE =
+  "Sorry, I couldn't find an answer to that in our knowledge base.";
+
+/** Saved messages in the AI SDK's format */
+export function toConversationTurns(
+  messages: { role: MessageRole; content: string }[],
+): ConversationTurn[] {
+  return messages.map((m) => ({
+    role: m.role === MessageRole.USER ? 'user' : 'assistant',
+    content: m.content,
+  }));
+}
+
+/**
+ * Generates a chatbot's reply to the latest message of a conversation and
+ * streams it as server-sent events. Shared by the dashboard chat and the
+ * public widget, which each handle access and saving the user's message.
+ */
+@Injectable()
+export class ChatService {
+  constructor(
+    private readonly aiService: AiService,
+    private readonly conversationService: ConversationService,
+    private readonly ragService: RagService,
+    private readonly groundingService: GroundingService,
+  ) {}
+
+  /**
+   * Stream the reply to the last turn of `turns` and save it. Ends the
+   * response; failures are reported as an `error` event. `identity` fills
+   * the `{{user.*}}` variables of the system prompt.
+   */
+  async streamReply(
+    res: Response,
+    chatbot: Chatbot,
+    conversationId: string,
+    turns: ConversationTurn[],
+    identity: VisitorIdentity | null = null,
+  ) {
+    const systemPrompt = chatbot.systemPrompt
+      ? renderVisitorVariables(chatbot.systemPrompt, identity)
+      : null;
+
+    // RAG: retrieve relevant knowledge base context; earlier turns let
+    // follow-up questions be rewritten into standalone queries
+    const ragResult = await this.ragService.augment(
+      chatbot.id,
+      turns[turns.length - 1].content,
+      systemPrompt,
+      this.ragService.settingsFor(chatbot),
+      turns.slice(0, -1),
+    );
+
+    // Set up SSE headers
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Conversation-Id', conversationId);
+    res.flushHeaders();
+
+    // Strict mode with nothing relevant retrieved: reply with the fallback
+    // instead of letting the model answer from general knowledge
+    if (chatbot.strictMode && ragResult.contexts.length === 0) {
+      await this.sendStrictFallback(res, chatbot, conversationId);
+      return;
+    }
+
+    try {
+      // Stream AI response with RAG-augmented prompt; with rich messages on,
+      // the model can also attach buttons, cards, carousels and forms
+      const result = await this.aiService.streamChat({
+        modelName: chatbot.aiModel,
+        systemPrompt: chatbot.richMessages
+          ? [ragResult.augmentedPrompt, MESSAGE_BLOCK_GUIDANCE].filter(Boolean).join('\n\n')
+          : ragResult.augmentedPrompt || undefined,
+        messages: turns,
+        temperature: chatbot.temperature,
+        tools: chatbot.richMessages ? MESSAGE_BLOCK_TOOLS : undefined,
+      });
+
+      let fullContent = '';
+
+      for await (const chunk of result.textStream) {
+        fullContent += chunk;
+        res.write(`data: ${JSON.stringify({ content: chunk })}\n\n`);
+      }
+
+      // Drop [n] markers that don't match a source given to the model
+      const markers = checkCitationMarkers(fullContent, ragResult.contexts.length);
+      const blocks = toMessageBlocks(result.toolCalls);
+
+      // Save assistant response with citations linked to their sources
+      const usage = await result.usage;
+      const citations = (await this.ragService.buildCitations(ragResult.contexts)).map(
+        (citation) => ({ ...citation, cited: markers.cited.includes(citation.index) }),
+      );
+      const message = await this.conversationService.addMessage(
+        conversationId,
+        markers.content,
+        MessageRole.ASSISTANT,
+        undefined,
+        citations.length > 0 ? citations : undefined,
+        usage?.totalTokens,
+        blocks.length > 0 ? blocks : undefined,
+      );
+
+      // Send completion event with citations from RAG
+      res.write(
+        `data: ${JSON.stringify({
+          isComplete: true,
+          conversationId,
+          usage,
+          citations: citations.length > 0 ? citations : undefined,
+          blocks: blocks.length > 0 ? blocks : undefined,
+          // Corrected text, when citation markers were fixed up
+          content: markers.content !== fullContent ? markers.content : undefined,
+        })}\n\n`,
+      );
+
+      res.end();
+
+      // Score grounding in the background, for analytics
+      if (chatbot.groundingCheck) {
+        void this.groundingService.checkMessage(
+          message.id,
+          markers.content,
+          ragResult.contexts,
+        );
+      }
+    } catch {
+      res.write(
+        `data: ${JSON.stringify({
+          error: 'Failed to generate response',
+          isComplete: true,
+        })}\n\n`,
+      );
+      res.end();
+    }
+  }
+
+  private async sendStrictFallback(
+    res: Response,
+    chatbot: Chatbot,
+    conversationId: string,
+  ) {
+    try {
+      const content =
+        chatbot.strictFallbackMessage || DEFAULT_STRICT_FALLBACK_MESSAGE;
+      await this.conversationService.addMessage(
+        conversationId,
+        content,
+        MessageRole.ASSISTANT,
+      );
+
+      let fallback:
+        | { action: StrictFallbackAction; handoffRequestId?: string }
+        | undefined;
+      if (chatbot.strictFallbackAction === StrictFallbackAction.HANDOFF) {
+        const handoff = await this.conversationService.requestHandoff(
+          conversationId,
+          chatbot.id,
+          'unanswered',
+        );
+        fallback = { action: StrictFallbackAction.HANDOFF, handoffRequestId: handoff.id };
+      } else if (chatbot.strictFallbackAction === StrictFallbackAction.LEAD_CAPTURE) {
+        fallback = { action: StrictFallbackAction.LEAD_CAPTURE };
+      }
+
+      res.write(`data: ${JSON.stringify({ content })}\n\n`);
+      res.write(
+        `data: ${JSON.stringify({
+          isComplete: true,
+          conversationId,
+          fallback,
+        })}\n\n`,
+      );
+    } catch {
+      res.write(
+        `data: ${JSON.stringify({
+          error: 'Failed to generate response',
+          isComplete: true,
+        })}\n\n`,
+      );
+    }
+    res.end();
+  }
+}
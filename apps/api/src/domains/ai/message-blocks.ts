@@ -0,0 +1,295 @@
+import { jsonSchema, tool, ToolSet } from 'ai';
+
+// Mirrors `MessageBlock` in @cobuild/shared, which the web app renders
+
+export interface QuickReplyButton {
+  label: string;
+  value?: string;
+  url?: string;
+}
+
+export interface CarouselItem {
+  title: string;
+  description?: string;
+  imageUrl: string;
+  url?: string;
+}
+
+export type FormFieldType = 'text' | 'email' | 'tel' | 'number' | 'textarea' | 'select';
+
+export interface FormField {
+  name: string;
+  label: string;
+  type: FormFieldType;
+  required?: boolean;
+  options?: string[];
+}
+
+export type MessageBlock =
+  | { type: 'buttons'; buttons: QuickReplyButton[] }
+  | {
+      type: 'card';
+      title: string;
+      description?: string;
+      imageUrl?: string;
+      url: string;
+      buttonLabel?: string;
+    }
+  | { type: 'carousel'; items: CarouselItem[] }
+  | { type: 'form'; title?: string; fields: FormField[]; submitLabel?: string };
+
+export interface BlockToolCall {
+  toolName: string;
+  args: unknown;
+}
+
+const FORM_FIELD_TYPES: FormFieldType[] = ['text', 'email', 'tel', 'number', 'textarea', 'select'];
+
+const MAX_BUTTONS = 6;
+const MAX_CAROUSEL_ITEMS = 10;
+const MAX_FORM_FIELDS = 8;
+const MAX_BLOCKS = 4;
+
+/** Appended to the system prompt of chatbots with rich messages on */
+export const MESSAGE_BLOCK_GUIDANCE = [
+  'You can attach interactive elements to your reply with the show_* tools:',
+  'quick reply buttons for likely next questions, link cards and image',
+  'carousels for pages and products from the sources, and forms to collect',
+  'details. Always write your answer as text as well, and only use links',
+  'and images that appear in the sources.',
+].join(' ');
+
+/**
+ * Tools the model calls to attach blocks to its reply. They have no
+ * `execute`: the calls are collected from the stream and turned into
+ * blocks with `toMessageBlocks`.
+ */
+export const MESSAGE_BLOCK_TOOLS = {
+  show_quick_replies: tool({
+    description: 'Show buttons the user can click instead of typing a reply',
+    parameters: jsonSchema<{ buttons: QuickReplyButton[] }>({
+      type: 'object',
+      properties: {
+        buttons: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              label: { type: 'string', description: 'Short button text' },
+              value: {
+                type: 'string',
+                description: 'Message sent when clicked; defaults to the label',
+              },
+              url: { type: 'string', description: 'Opens this link instead of replying' },
+            },
+            required: ['label'],
+          },
+        },
+      },
+      required: ['buttons'],
+    }),
+  }),
+  show_link_card: tool({
+    description: 'Show a card linking to a page, article or product',
+    parameters: jsonSchema<{
+      title: string;
+      description?: string;
+      imageUrl?: string;
+      url: string;
+      buttonLabel?: string;
+    }>({
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        description: { type: 'string' },
+        imageUrl: { type: 'string' },
+        url: { type: 'string' },
+        buttonLabel: { type: 'string' },
+      },
+      required: ['title', 'url'],
+    }),
+  }),
+  show_image_carousel: tool({
+    description: 'Show a horizontally scrolling row of images, e.g. products',
+    parameters: jsonSchema<{ items: CarouselItem[] }>({
+      type: 'object',
+      properties: {
+        items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              title: { type: 'string' },
+              description: { type: 'string' },
+              imageUrl: { type: 'string' },
+              url: { type: 'string' },
+            },
+            required: ['title', 'imageUrl'],
+          },
+        },
+      },
+      required: ['items'],
+    }),
+  }),
+  show_form: tool({
+    description:
+      "Show a form for details you need from the user; their answers come back as the user's next message",
+    parameters: jsonSchema<{ title?: string; fields: FormField[]; submitLabel?: string }>({
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        fields: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              label: { type: 'string' },
+              type: { type: 'string', enum: FORM_FIELD_TYPES },
+              required: { type: 'boolean' },
+              options: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Choices for select fields',
+              },
+            },
+            required: ['name', 'label', 'type'],
+          },
+        },
+        submitLabel: { type: 'string' },
+      },
+      required: ['fields'],
+    }),
+  }),
+} satisfies ToolSet;
+
+/**
+ * Blocks from the model's tool calls. Arguments are checked rather than
+ * trusted: malformed calls are dropped, and so are links and images that
+ * aren't http(s).
+ */
+export function toMessageBlocks(calls: BlockToolCall[]): MessageBlock[] {
+  const blocks: MessageBlock[] = [];
+
+  for (const call of calls) {
+    const block = toMessageBlock(call.toolName, asRecord(call.args));
+    if (block) blocks.push(block);
+  }
+
+  return blocks.slice(0, MAX_BLOCKS);
+}
+
+function toMessageBlock(
+  toolName: string,
+  args: Record<string, unknown>,
+): MessageBlock | null {
+  switch (toolName) {
+    case 'show_quick_replies': {
+      const buttons = asArray(args.buttons)
+        .map((b) => {
+          const label = text(b.label);
+          if (!label) return null;
+          return { label, value: text(b.value), url: link(b.url) };
+        })
+        .filter((b) => b !== null)
+        .slice(0, MAX_BUTTONS);
+      return buttons.length > 0 ? { type: 'buttons', buttons } : null;
+    }
+
+    case 'show_link_card': {
+      const title = text(args.title);
+      const url = link(args.url);
+      if (!title || !url) return null;
+      return {
+        type: 'card',
+        title,
+        description: text(args.description),
+        imageUrl: link(args.imageUrl),
+        url,
+        buttonLabel: text(args.buttonLabel),
+      };
+    }
+
+    case 'show_image_carousel': {
+      const items = asArray(args.items)
+        .map((item) => {
+          const title = text(item.title);
+          const imageUrl = link(item.imageUrl);
+          if (!title || !imageUrl) return null;
+          return {
+            title,
+            description: text(item.description),
+            imageUrl,
+            url: link(item.url),
+          };
+        })
+        .filter((item) => item !== null)
+        .slice(0, MAX_CAROUSEL_ITEMS);
+      return items.length > 0 ? { type: 'carousel', items } : null;
+    }
+
+    case 'show_form': {
+      const fields = asArray(args.fields)
+        .map((f): FormField | null => {
+          const name = text(f.name);
+          const label = text(f.label);
+          const type = FORM_FIELD_TYPES.find((t) => t === f.type);
+          if (!name || !label || !type) return null;
+
+          const options = Array.isArray(f.options)
+            ? f.options.map(text).filter((o) => o !== undefined)
+            : [];
+          if (type === 'select' && options.length === 0) return null;
+
+          return {
+            name,
+            label,
+            type,
+            required: f.required === true || undefined,
+            options: type === 'select' ? options : undefined,
+          };
+        })
+        .filter((f) => f !== null)
+        .slice(0, MAX_FORM_FIELDS);
+      return fields.length > 0
+        ? {
+            type: 'form',
+            title: text(args.title),
+            fields,
+            submitLabel: text(args.submitLabel),
+          }
+        : null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function asArray(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.map(asRecord) : [];
+}
+
+/** A non-empty, trimmed string */
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/** An http(s) URL, so the widget never renders e.g. `javascript:` links */
+function link(value: unknown): string | undefined {
+  const url = text(value);
+  if (!url) return undefined;
+
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:' ? url : undefined;
+  } catch {
+    return undefined;
+  }
+}
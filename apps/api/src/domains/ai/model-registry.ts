@@ -0,0 +1,86 @@
+export type AiProvider = 'gemini' | 'anthropic';
+
+export type ModelCapability = 'streaming' | 'vision' | 'tools' | 'reasoning';
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  provider: AiProvider;
+  /** Maximum input tokens */
+  contextWindow: number;
+  /** USD per million tokens */
+  pricing: { input: number; output: number };
+  capabilities: ModelCapability[];
+  /** Other ids that resolve to this model, e.g. a provider's `-latest` alias */
+  aliases?: string[];
+}
+
+// The API's source of truth; mirrors the constants in @cobuild/shared
+export const DEFAULT_AI_MODEL = 'gemini-2.5-flash';
+export const FALLBACK_AI_MODEL = 'claude-3-5-haiku-20241022';
+
+/** Environment variable holding each provider's API key */
+export const PROVIDER_API_KEYS: Record<AiProvider, string> = {
+  gemini: 'GEMINI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+};
+
+/**
+ * Chat models a chatbot can be configured with. Pricing is the provider's
+ * list price for standard-length prompts.
+ */
+export const MODEL_REGISTRY: ModelInfo[] = [
+  {
+    id: 'gemini-2.5-flash',
+    name: 'Gemini 2.5 Flash',
+    provider: 'gemini',
+    contextWindow: 1_048_576,
+    pricing: { input: 0.3, output: 2.5 },
+    capabilities: ['streaming', 'vision', 'tools', 'reasoning'],
+  },
+  {
+    id: 'gemini-2.5-flash-lite',
+    name: 'Gemini 2.5 Flash-Lite',
+    provider: 'gemini',
+    contextWindow: 1_048_576,
+    pricing: { input: 0.1, output: 0.4 },
+    capabilities: ['streaming', 'vision', 'tools'],
+  },
+  {
+    id: 'gemini-2.5-pro',
+    name: 'Gemini 2.5 Pro',
+    provider: 'gemini',
+    contextWindow: 1_048_576,
+    pricing: { input: 1.25, output: 10 },
+    capabilities: ['streaming', 'vision', 'tools', 'reasoning'],
+  },
+  {
+    id: 'claude-3-5-haiku-20241022',
+    name: 'Claude 3.5 Haiku',
+    provider: 'anthropic',
+    contextWindow: 200_000,
+    pricing: { input: 0.8, output: 4 },
+    capabilities: ['streaming', 'tools'],
+    aliases: ['claude-3-5-haiku-latest'],
+  },
+  {
+    id: 'claude-sonnet-4-20250514',
+    name: 'Claude Sonnet 4',
+    provider: 'anthropic',
+    contextWindow: 200_000,
+    pricing: { input: 3, output: 15 },
+    capabilities: ['streaming', 'vision', 'tools', 'reasoning'],
+  },
+];
+
+/** Every id accepted for a chatbot's model, aliases included */
+export const SUPPORTED_MODEL_IDS = MODEL_REGISTRY.flatMap((model) => [
+  model.id,
+  ...(model.aliases ?? []),
+]);
+
+export function findModel(id: string): ModelInfo | undefined {
+  return MODEL_REGISTRY.find(
+    (model) => model.id === id || model.aliases?.includes(id),
+  );
+}
@@ -2,10 +2,12 @@ import {
   Injectable,
   NotFoundException,
   ForbiddenException,
+  BadRequestException,
 } from '@nestjs/common';
 import { PrismaService } from '../../core/database/prisma.service';
 import { Prisma } from '../../generated/prisma';
 import { CreateChatbotDto, UpdateChatbotDto } from './dto';
+import { DEFAULT_AI_MODEL, findModel } from '../ai/model-registry';
 
 @Injectable()
 export class ChatbotService {
@@ -23,7 +25,7 @@ export class ChatbotService {
         createdById: userId,
         name: dto.name,
         slug,
-        aiModel: dto.aiModel ?? 'gemini-2.5-flash',
+        aiModel: this.registryModelId(dto.aiModel ?? DEFAULT_AI_MODEL),
         temperature: dto.temperature ?? 0.7,
         systemPrompt: dto.systemPrompt,
         initialMessage: dto.initialMessage,
@@ -88,9 +90,16 @@ export class ChatbotService {
       throw new NotFoundException('Chatbot not found');
     }
 
+    const chunkSize = dto.chunkSize ?? chatbot.chunkSize;
+    const chunkOverlap = dto.chunkOverlap ?? chatbot.chunkOverlap;
+    if (chunkOverlap >= chunkSize) {
+      throw new BadRequestException('Chunk overlap must be smaller than chunk size');
+    }
+
     const { appearance, ...rest } = dto;
     const data: Prisma.ChatbotUpdateInput = {
       ...rest,
+      ...(dto.aiModel !== undefined && { aiModel: this.registryModelId(dto.aiModel) }),
       ...(appearance && { appearance: appearance as Prisma.InputJsonValue }),
       ...(dto.name && {
         slug: dto.name
@@ -130,4 +139,16 @@ export class ChatbotService {
 
     return chatbot;
   }
+
+  /**
+   * The registry id of a model name or alias, so only models the AI
+   * service can run are stored
+   */
+  private registryModelId(aiModel: string): string {
+    const model = findModel(aiModel);
+    if (!model) {
+      throw new BadRequestException(`Unsupported model "${aiModel}"`);
+    }
+    return model.id;
+  }
 }
@@ -2,6 +2,7 @@ import {
   IsString,
   IsOptional,
   IsBoolean,
+  IsIn,
   IsNumber,
   IsArray,
   MinLength,
@@ -9,6 +10,7 @@ import {
   Min,
   Max,
 } from 'class-validator';
+import { SUPPORTED_MODEL_IDS } from '../../ai/model-registry';
 
 export class CreateChatbotDto {
   @IsString()
@@ -18,6 +20,7 @@ export class CreateChatbotDto {
 
   @IsOptional()
   @IsString()
+  @IsIn(SUPPORTED_MODEL_IDS, { message: 'aiModel must be a supported model' })
   aiModel?: string;
 
   @IsOptional()
@@ -2,7 +2,9 @@ import {
   IsString,
   IsOptional,
   IsBoolean,
+  IsIn,
   IsNumber,
+  IsInt,
   IsArray,
   IsEnum,
   IsObject,
@@ -11,7 +13,15 @@ import {
   Min,
   Max,
 } from 'class-validator';
-import { ChatbotStatus } from '../../../generated/prisma';
+import { SUPPORTED_MODEL_IDS } from '../../ai/model-registry';
+import {
+  ChatbotStatus,
+  ChunkingStrategy,
+  QueryExpansion,
+  RerankerType,
+  StrictFallbackAction,
+  RetrievalMode,
+} from '../../../generated/prisma';
 
 export class UpdateChatbotDto {
   @IsOptional()
@@ -22,6 +32,7 @@ export class UpdateChatbotDto {
 
   @IsOptional()
   @IsString()
+  @IsIn(SUPPORTED_MODEL_IDS, { message: 'aiModel must be a supported model' })
   aiModel?: string;
 
   @IsOptional()
@@ -73,6 +84,65 @@ export class UpdateChatbotDto {
   @IsBoolean()
   showCitations?: boolean;
 
+  @IsOptional()
+  @IsEnum(RetrievalMode)
+  retrievalMode?: RetrievalMode;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  retrievalMinScore?: number;
+
+  @IsOptional()
+  @IsEnum(RerankerType)
+  reranker?: RerankerType;
+
+  @IsOptional()
+  @IsBoolean()
+  queryRewriting?: boolean;
+
+  @IsOptional()
+  @IsEnum(QueryExpansion)
+  queryExpansion?: QueryExpansion;
+
+  @IsOptional()
+  @IsBoolean()
+  groundingCheck?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  strictMode?: boolean;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  strictFallbackMessage?: string;
+
+  @IsOptional()
+  @IsEnum(StrictFallbackAction)
+  strictFallbackAction?: StrictFallbackAction;
+
+  @IsOptional()
+  @IsBoolean()
+  richMessages?: boolean;
+
+  @IsOptional()
+  @IsEnum(ChunkingStrategy)
+  chunkingStrategy?: ChunkingStrategy;
+
+  @IsOptional()
+  @IsInt()
+  @Min(50)
+  @Max(4000)
+  chunkSize?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(1000)
+  chunkOverlap?: number;
+
   @IsOptional()
   @IsBoolean()
   rateLimitEnabled?: boolean;
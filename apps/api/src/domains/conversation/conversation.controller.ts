@@ -9,7 +9,11 @@ import {
   Query,
 } from '@nestjs/common';
 import { ConversationService } from './conversation.service';
-import { CreateConversationDto, UpdateConversationDto } from './dto';
+import {
+  CaptureLeadDto,
+  CreateConversationDto,
+  UpdateConversationDto,
+} from './dto';
 import { CurrentUser } from '../../core/common/decorators';
 
 @Controller('conversation')
@@ -37,6 +41,7 @@ export class ConversationController {
     @CurrentUser('id') userId: string,
     @Query('page') page?: number,
     @Query('limit') limit?: number,
+    @Query('source') source?: string,
   ) {
     return this.conversationService.findAllByBot(
       chatbotId,
@@ -44,6 +49,7 @@ export class ConversationController {
       userId,
       page || 1,
       limit || 20,
+      source === 'widget' ? 'widget' : 'mine',
     );
   }
 
@@ -51,8 +57,13 @@ export class ConversationController {
   async findOne(
     @Param('id') id: string,
     @CurrentUser('id') userId: string,
+    @CurrentUser('orgId') orgId: string,
   ) {
-    const conversation = await this.conversationService.findById(id, userId);
+    const conversation = await this.conversationService.findById(
+      id,
+      userId,
+      orgId,
+    );
     return { conversation };
   }
 
@@ -82,8 +93,23 @@ export class ConversationController {
   async getMessages(
     @Param('id') id: string,
     @CurrentUser('id') userId: string,
+    @CurrentUser('orgId') orgId: string,
   ) {
-    const messages = await this.conversationService.getMessages(id, userId);
+    const messages = await this.conversationService.getMessages(
+      id,
+      userId,
+      orgId,
+    );
     return { messages };
   }
+
+  @Post(':id/lead')
+  async captureLead(
+    @Param('id') id: string,
+    @CurrentUser('id') userId: string,
+    @Body() dto: CaptureLeadDto,
+  ) {
+    const lead = await this.conversationService.captureLead(id, userId, dto);
+    return { lead };
+  }
 }
@@ -4,8 +4,13 @@ import {
   ForbiddenException,
 } from '@nestjs/common';
 import { PrismaService } from '../../core/database/prisma.service';
-import { CreateConversationDto, UpdateConversationDto } from './dto';
-import { MessageRole } from '../../generated/prisma';
+import {
+  CaptureLeadDto,
+  CreateConversationDto,
+  UpdateConversationDto,
+} from './dto';
+import { HandoffStatus, MessageRole, Prisma } from '../../generated/prisma';
+import { VisitorIdentity } from './visitor-identity';
 
 @Injectable()
 export class ConversationService {
@@ -30,12 +35,90 @@ export class ConversationService {
     });
   }
 
+  // Conversations started from the public widget, keyed by an anonymous
+  // visitor id instead of a user
+  async createForVisitor(
+    chatbotId: string,
+    visitorId: string,
+    identity?: VisitorIdentity,
+  ) {
+    return this.prisma.conversation.create({
+      data: {
+        chatbotId,
+        visitorId,
+        title: 'New Conversation',
+        metadata: identity
+          ? ({ identity } as unknown as Prisma.InputJsonValue)
+          : undefined,
+      },
+    });
+  }
+
+  // Attach a verified identity to a visitor conversation, e.g. when the
+  // visitor logs in on the customer's site mid-conversation
+  async setVisitorIdentity(
+    conversationId: string,
+    metadata: Prisma.JsonValue | null,
+    identity: VisitorIdentity,
+  ) {
+    const current =
+      metadata && typeof metadata === 'object' && !Array.isArray(metadata)
+        ? metadata
+        : {};
+
+    await this.prisma.conversation.update({
+      where: { id: conversationId },
+      data: {
+        metadata: { ...current, identity } as unknown as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  async findVisitorConversation(id: string, chatbotId: string, visitorId: string) {
+    const conversation = await this.prisma.conversation.findFirst({
+      where: { id, chatbotId, visitorId },
+      include: {
+        messages: {
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!conversation) {
+      throw new NotFoundException('Conversation not found');
+    }
+
+    return conversation;
+  }
+
+  /** Leave a widget visitor's contact details on their conversation */
+  async captureVisitorLead(
+    conversationId: string,
+    chatbotId: string,
+    visitorId: string,
+    dto: CaptureLeadDto,
+  ) {
+    const conversation = await this.prisma.conversation.findFirst({
+      where: { id: conversationId, chatbotId, visitorId },
+    });
+
+    if (!conversation) {
+      throw new NotFoundException('Conversation not found');
+    }
+
+    return this.prisma.lead.create({
+      data: { chatbotId, conversationId, ...dto },
+    });
+  }
+
+  // `source` picks the user's own conversations or the widget visitors' ones
   async findAllByBot(
     chatbotId: string,
     orgId: string,
     userId: string,
     page = 1,
     limit = 20,
+    source: 'mine' | 'widget' = 'mine',
   ) {
     // Verify chatbot belongs to org
     const chatbot = await this.prisma.chatbot.findFirst({
@@ -47,10 +130,14 @@ export class ConversationService {
     }
 
     const skip = (page - 1) * limit;
+    const where: Prisma.ConversationWhereInput =
+      source === 'widget'
+        ? { chatbotId, visitorId: { not: null } }
+        : { chatbotId, userId };
 
     const [conversations, total] = await Promise.all([
       this.prisma.conversation.findMany({
-        where: { chatbotId, userId },
+        where,
         orderBy: [{ isPinned: 'desc' }, { updatedAt: 'desc' }],
         skip,
         take: limit,
@@ -63,7 +150,7 @@ export class ConversationService {
           _count: { select: { messages: true } },
         },
       }),
-      this.prisma.conversation.count({ where: { chatbotId, userId } }),
+      this.prisma.conversation.count({ where }),
     ]);
 
     return {
@@ -77,9 +164,9 @@ export class ConversationService {
     };
   }
 
-  async findById(id: string, userId: string) {
+  async findById(id: string, userId: string, orgId?: string) {
     const conversation = await this.prisma.conversation.findFirst({
-      where: { id, userId },
+      where: { id, ...this.readableBy(userId, orgId) },
       include: {
         messages: {
           orderBy: { createdAt: 'asc' },
@@ -141,6 +228,7 @@ export class ConversationService {
     senderId?: string,
     citations?: unknown,
     tokenCount?: number,
+    blocks?: unknown,
   ) {
     const message = await this.prisma.message.create({
       data: {
@@ -149,6 +237,7 @@ export class ConversationService {
         role,
         senderId,
         citations: citations ? JSON.parse(JSON.stringify(citations)) : undefined,
+        blocks: blocks ? JSON.parse(JSON.stringify(blocks)) : undefined,
         tokenCount,
       },
     });
@@ -162,9 +251,9 @@ export class ConversationService {
     return message;
   }
 
-  async getMessages(conversationId: string, userId: string) {
+  async getMessages(conversationId: string, userId: string, orgId?: string) {
     const conversation = await this.prisma.conversation.findFirst({
-      where: { id: conversationId, userId },
+      where: { id: conversationId, ...this.readableBy(userId, orgId) },
     });
 
     if (!conversation) {
@@ -177,6 +266,45 @@ export class ConversationService {
     });
   }
 
+  // Ask a human to take over; reuses a request that is still pending
+  async requestHandoff(conversationId: string, chatbotId: string, category?: string) {
+    const pending = await this.prisma.handoffRequest.findFirst({
+      where: { conversationId, status: HandoffStatus.PENDING },
+    });
+    if (pending) return pending;
+
+    return this.prisma.handoffRequest.create({
+      data: { conversationId, chatbotId, category },
+    });
+  }
+
+  async captureLead(conversationId: string, userId: string, dto: CaptureLeadDto) {
+    const conversation = await this.prisma.conversation.findFirst({
+      where: { id: conversationId, userId },
+    });
+
+    if (!conversation) {
+      throw new NotFoundException('Conversation not found');
+    }
+
+    return this.prisma.lead.create({
+      data: {
+        chatbotId: conversation.chatbotId,
+        conversationId,
+        ...dto,
+      },
+    });
+  }
+
+  // The user's own conversations and, given the org, widget visitors'
+  // conversations with the org's chatbots
+  private readableBy(userId: string, orgId?: string): Prisma.ConversationWhereInput {
+    if (!orgId) return { userId };
+    return {
+      OR: [{ userId }, { visitorId: { not: null }, chatbot: { orgId } }],
+    };
+  }
+
   // Auto-generate title from first user message
   async autoTitle(conversationId: string, firstMessage: string) {
     const title =
@@ -0,0 +1,21 @@
+import { IsString, IsEmail, IsOptional, MaxLength } from 'class-validator';
+
+export class CaptureLeadDto {
+  @IsEmail()
+  email: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  phone?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(5000)
+  message?: string;
+}
@@ -1,3 +1,4 @@
 export { CreateConversationDto } from './create-conversation.dto';
 export { SendMessageDto } from './send-message.dto';
 export { UpdateConversationDto } from './update-conversation.dto';
+export { CaptureLeadDto } from './capture-lead.dto';
@@ -0,0 +1,51 @@
+import { Prisma } from '../../generated/prisma';
+
+/**
+ * A widget visitor's identity, as asserted by the customer's backend and
+ * verified with the chatbot's identity secret. Stored under `identity` in
+ * `Conversation.metadata`.
+ */
+export interface VisitorIdentity {
+  userId: string;
+  name?: string;
+  email?: string;
+  plan?: string;
+  verifiedAt: string;
+}
+
+/**
+ * `{{user.id}}`, `{{user.name}}`, `{{user.email}}` or `{{user.plan}}`,
+ * with optional spaces inside the braces
+ */
+const VARIABLE_PATTERN = /\{\{\s*user\.(id|name|email|plan)\s*\}\}/g;
+
+export function getVisitorIdentity(
+  metadata: Prisma.JsonValue | null,
+): VisitorIdentity | null {
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+    return null;
+  }
+
+  const identity = (metadata as Prisma.JsonObject).identity;
+  if (!identity || typeof identity !== 'object' || Array.isArray(identity)) {
+    return null;
+  }
+
+  return identity as unknown as VisitorIdentity;
+}
+
+/**
+ * Fill in the `{{user.*}}` variables of a system prompt from the verified
+ * visitor identity. Variables are left empty for anonymous visitors and
+ * dashboard chats.
+ */
+export function renderVisitorVariables(
+  template: string,
+  identity: VisitorIdentity | null,
+): string {
+  return template.replace(VARIABLE_PATTERN, (_variable, key: string) => {
+    if (!identity) return '';
+    const value = key === 'id' ? identity.userId : identity[key as 'name' | 'email' | 'plan'];
+    return value ?? '';
+  });
+}
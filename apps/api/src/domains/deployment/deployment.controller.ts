@@ -127,6 +127,22 @@ export class DeploymentController {
     return { chatbot };
   }
 
+  @Post('embed/:chatbotId/identity-secret')
+  async rotateIdentitySecret(
+    @CurrentUser('orgId') orgId: string,
+    @Param('chatbotId') chatbotId: string,
+  ) {
+    return this.embedService.rotateIdentitySecret(chatbotId, orgId);
+  }
+
+  @Delete('embed/:chatbotId/identity-secret')
+  async removeIdentitySecret(
+    @CurrentUser('orgId') orgId: string,
+    @Param('chatbotId') chatbotId: string,
+  ) {
+    return this.embedService.removeIdentitySecret(chatbotId, orgId);
+  }
+
   @Get('embed/:chatbotId/code')
   async getEmbedCode(@Param('chatbotId') chatbotId: string) {
     const embedCode = this.embedService.generateEmbedCode(chatbotId);
@@ -1,18 +1,27 @@
 import { Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { AiModule } from '../ai/ai.module';
+import { ConversationModule } from '../conversation/conversation.module';
 import { DeploymentController } from './deployment.controller';
 import { WidgetController } from './widget.controller';
 import { BrandingService } from './branding.service';
 import { DomainService } from './domain.service';
 import { EmbedService } from './embed.service';
 import { EmailDomainService } from './email-domain.service';
+import { WidgetChatService } from './widget-chat.service';
+import { WidgetSessionService } from './widget-session.service';
 
 @Module({
+  // Widget session tokens are signed with their own secret, passed per call
+  imports: [AiModule, ConversationModule, JwtModule.register({})],
   controllers: [DeploymentController, WidgetController],
   providers: [
     BrandingService,
     DomainService,
     EmbedService,
     EmailDomainService,
+    WidgetChatService,
+    WidgetSessionService,
   ],
   exports: [EmbedService],
 })
@@ -4,3 +4,8 @@ export { UpdateEmbedSettingsDto } from './update-embed-settings.dto';
 export { UpdateAppearanceDto } from './update-appearance.dto';
 export { AddEmailDomainDto } from './add-email-domain.dto';
 export { UpdateLogoDto } from './update-logo.dto';
+export { StartWidgetConversationDto } from './start-widget-conversation.dto';
+export { WidgetChatDto } from './widget-chat.dto';
+export { UnlockWidgetDto } from './unlock-widget.dto';
+export { WidgetIdentityDto } from './widget-identity.dto';
+export { WidgetLeadDto } from './widget-lead.dto';
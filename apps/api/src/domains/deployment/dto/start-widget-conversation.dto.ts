@@ -0,0 +1,22 @@
+import {
+  IsString,
+  IsOptional,
+  MinLength,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { WidgetIdentityDto } from './widget-identity.dto';
+
+export class StartWidgetConversationDto {
+  // Anonymous id the widget generates and keeps in the visitor's browser
+  @IsString()
+  @MinLength(8)
+  @MaxLength(100)
+  visitorId: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => WidgetIdentityDto)
+  identity?: WidgetIdentityDto;
+}
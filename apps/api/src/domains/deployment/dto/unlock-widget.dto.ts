@@ -0,0 +1,8 @@
+import { IsString, MinLength, MaxLength } from 'class-validator';
+
+export class UnlockWidgetDto {
+  @IsString()
+  @MinLength(1)
+  @MaxLength(200)
+  password: string;
+}
@@ -0,0 +1,30 @@
+import {
+  IsString,
+  IsUUID,
+  IsOptional,
+  MinLength,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { WidgetIdentityDto } from './widget-identity.dto';
+
+export class WidgetChatDto {
+  @IsString()
+  @MinLength(8)
+  @MaxLength(100)
+  visitorId: string;
+
+  @IsUUID()
+  conversationId: string;
+
+  @IsString()
+  @MinLength(1)
+  @MaxLength(4000)
+  content: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => WidgetIdentityDto)
+  identity?: WidgetIdentityDto;
+}
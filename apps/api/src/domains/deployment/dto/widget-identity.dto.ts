@@ -0,0 +1,12 @@
+import { IsJWT, MaxLength } from 'class-validator';
+
+// A logged-in user of the customer's site, passed in through
+// `CoBuild.identify`: an HS256 JWT the customer's backend signs with the
+// chatbot's identity secret, with the user id as `sub` and optional
+// `name`, `email` and `plan` claims. It must carry an `exp` at most 24
+// hours away
+export class WidgetIdentityDto {
+  @IsJWT()
+  @MaxLength(4000)
+  token: string;
+}
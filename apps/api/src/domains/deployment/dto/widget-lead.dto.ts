@@ -0,0 +1,9 @@
+import { IsString, MinLength, MaxLength } from 'class-validator';
+import { CaptureLeadDto } from '../../conversation/dto';
+
+export class WidgetLeadDto extends CaptureLeadDto {
+  @IsString()
+  @MinLength(8)
+  @MaxLength(100)
+  visitorId: string;
+}
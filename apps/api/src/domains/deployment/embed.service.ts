@@ -7,6 +7,7 @@ import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../core/database/prisma.service';
 import { Prisma } from '../../generated/prisma';
 import * as bcrypt from 'bcryptjs';
+import { randomBytes } from 'crypto';
 
 @Injectable()
 export class EmbedService {
@@ -26,6 +27,7 @@ export class EmbedService {
         embedAllowedDomains: true,
         isPublic: true,
         passwordHash: true,
+        identitySecret: true,
       },
     });
 
@@ -41,9 +43,48 @@ export class EmbedService {
       embedAllowedDomains: chatbot.embedAllowedDomains,
       isPublic: chatbot.isPublic,
       passwordProtected: !!chatbot.passwordHash,
+      identitySecret: chatbot.identitySecret,
     };
   }
 
+  /**
+   * Generate a new identity verification secret, replacing any existing
+   * one. Customers' backends sign their user ids with it.
+   */
+  async rotateIdentitySecret(chatbotId: string, orgId: string) {
+    await this.assertOwned(chatbotId, orgId);
+
+    const identitySecret = randomBytes(32).toString('hex');
+    await this.prisma.chatbot.update({
+      where: { id: chatbotId },
+      data: { identitySecret },
+    });
+
+    return { identitySecret };
+  }
+
+  async removeIdentitySecret(chatbotId: string, orgId: string) {
+    await this.assertOwned(chatbotId, orgId);
+
+    await this.prisma.chatbot.update({
+      where: { id: chatbotId },
+      data: { identitySecret: null },
+    });
+
+    return { identitySecret: null };
+  }
+
+  private async assertOwned(chatbotId: string, orgId: string) {
+    const chatbot = await this.prisma.chatbot.findFirst({
+      where: { id: chatbotId, orgId },
+      select: { id: true },
+    });
+
+    if (!chatbot) {
+      throw new NotFoundException('Chatbot not found');
+    }
+  }
+
   async updateEmbedSettings(
     chatbotId: string,
     orgId: string,
@@ -139,13 +180,13 @@ export class EmbedService {
       'https://app.cobuild.ai';
 
     const scriptTag = `<script src="${appUrl}/widget.js" data-chatbot-id="${chatbotId}"></script>`;
-    const iframeTag = `<iframe src="${appUrl}/widget/${chatbotId}" width="400" height="600" frameborder="0" style="border:none;"></iframe>`;
+    const iframeTag = `<iframe src="${appUrl}/embed/${chatbotId}" width="400" height="600" frameborder="0" style="border:none;"></iframe>`;
 
     return {
       scriptTag,
       iframeTag,
       chatbotId,
-      widgetUrl: `${appUrl}/widget/${chatbotId}`,
+      widgetUrl: `${appUrl}/embed/${chatbotId}`,
     };
   }
 
@@ -167,13 +208,18 @@ export class EmbedService {
     }
 
     // Public chatbot with no domain restrictions
-    if (
-      chatbot.embedAllowedDomains.length === 0 ||
-      !origin
-    ) {
+    if (chatbot.embedAllowedDomains.length === 0) {
       return { allowed: true };
     }
 
+    // Restricted chatbots only load on pages that say where they are
+    if (!origin) {
+      return {
+        allowed: false,
+        reason: 'Embedding origin is required for this chatbot',
+      };
+    }
+
     // Check if origin matches any allowed domain
     const normalizedOrigin = origin
       .replace(/^https?:\/\//, '')
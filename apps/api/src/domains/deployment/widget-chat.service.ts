@@ -0,0 +1,325 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  UnauthorizedException,
+  HttpException,
+  HttpStatus,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { JwtService } from '@nestjs/jwt';
+import { PrismaService } from '../../core/database/prisma.service';
+import { CacheService } from '../../core/cache/cache.service';
+import { ConversationService } from '../conversation/conversation.service';
+import {
+  VisitorIdentity,
+  getVisitorIdentity,
+} from '../conversation/visitor-identity';
+import { ChatService, toConversationTurns } from '../ai/chat.service';
+import { EmbedService } from './embed.service';
+import { WidgetSessionService } from './widget-session.service';
+import { WidgetChatDto, WidgetIdentityDto, WidgetLeadDto } from './dto';
+import { Chatbot, ChatbotStatus, MessageRole } from '../../generated/prisma';
+
+const DEFAULT_RATE_LIMIT_MESSAGES = 20;
+const DEFAULT_RATE_LIMIT_WINDOW_MINUTES = 60;
+
+/**
+ * Per-IP cap for bots without a rate limit of their own, so the public
+ * endpoint can't be used to run up a bill
+ */
+const VISITOR_MAX_MESSAGES = 100;
+const VISITOR_WINDOW_MINUTES = 60;
+
+/**
+ * Per-IP caps on the conversations and leads the public endpoints create,
+ * so the owner's visitor list and leads can't be flooded
+ */
+const VISITOR_MAX_CONVERSATIONS = 10;
+const VISITOR_MAX_LEADS = 5;
+const VISITOR_CREATE_WINDOW_SECONDS = 60 * 60;
+
+/** Longest an identity token may be valid for, so a leaked one expires */
+const MAX_IDENTITY_TOKEN_SECONDS = 24 * 60 * 60;
+
+/**
+ * Chat for anonymous widget visitors. Conversations are keyed by a visitor
+ * id the widget keeps in the browser, and are listed for the bot's owner
+ * alongside their own.
+ */
+@Injectable()
+export class WidgetChatService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly embedService: EmbedService,
+    private readonly widgetSessionService: WidgetSessionService,
+    private readonly conversationService: ConversationService,
+    private readonly chatService: ChatService,
+    private readonly jwtService: JwtService,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  /**
+   * A chatbot the widget may talk to from `origin`: active, public,
+   * embedded on one of its allowed domains and, if password-protected,
+   * unlocked with a widget session token.
+   */
+  async getChatbot(
+    chatbotId: string,
+    origin?: string,
+    sessionToken?: string,
+  ): Promise<Chatbot> {
+    const chatbot = await this.prisma.chatbot.findUnique({
+      where: { id: chatbotId },
+    });
+
+    if (!chatbot || chatbot.status !== ChatbotStatus.ACTIVE) {
+      throw new NotFoundException('Chatbot not found');
+    }
+
+    if (!chatbot.isPublic) {
+      throw new ForbiddenException('This chatbot is not public');
+    }
+
+    const access = await this.embedService.validateEmbedAccess(chatbotId, origin);
+    if (!access.allowed) {
+      throw new ForbiddenException(access.reason);
+    }
+
+    if (!this.widgetSessionService.hasAccess(chatbot, sessionToken)) {
+      throw new UnauthorizedException('Password required');
+    }
+
+    return chatbot;
+  }
+
+  async startConversation(
+    chatbot: Chatbot,
+    visitorId: string,
+    ipAddress: string,
+    identity?: WidgetIdentityDto,
+  ) {
+    await this.checkCreateLimit(chatbot, 'conversation', ipAddress, VISITOR_MAX_CONVERSATIONS);
+
+    const conversation = await this.conversationService.createForVisitor(
+      chatbot.id,
+      visitorId,
+      this.verifyIdentity(chatbot, identity) ?? undefined,
+    );
+
+    return {
+      id: conversation.id,
+      title: conversation.title,
+      createdAt: conversation.createdAt,
+    };
+  }
+
+  async getConversation(chatbot: Chatbot, conversationId: string, visitorId: string) {
+    const conversation = await this.conversationService.findVisitorConversation(
+      conversationId,
+      chatbot.id,
+      visitorId,
+    );
+
+    return {
+      id: conversation.id,
+      title: conversation.title,
+      createdAt: conversation.createdAt,
+      messages: conversation.messages.map((m) => ({
+        id: m.id,
+        role: m.role,
+        content: m.content,
+        citations: m.citations,
+        blocks: m.blocks,
+        createdAt: m.createdAt,
+      })),
+    };
+  }
+
+  /** Contact details from the lead form shown by strict mode's fallback */
+  async captureLead(
+    chatbot: Chatbot,
+    conversationId: string,
+    dto: WidgetLeadDto,
+    ipAddress: string,
+  ) {
+    await this.checkCreateLimit(chatbot, 'lead', ipAddress, VISITOR_MAX_LEADS);
+
+    const { visitorId, ...lead } = dto;
+    const created = await this.conversationService.captureVisitorLead(
+      conversationId,
+      chatbot.id,
+      visitorId,
+      lead,
+    );
+    return { id: created.id };
+  }
+
+  /**
+   * Save the visitor's message and stream the reply. Errors before
+   * streaming starts (unknown conversation, rate limit) are thrown.
+   */
+  async chat(res: Response, chatbot: Chatbot, dto: WidgetChatDto, ipAddress: string) {
+    const conversation = await this.conversationService.findVisitorConversation(
+      dto.conversationId,
+      chatbot.id,
+      dto.visitorId,
+    );
+
+    let identity = getVisitorIdentity(conversation.metadata);
+    const verified = this.verifyIdentity(chatbot, dto.identity);
+    if (verified && !this.sameIdentity(identity, verified)) {
+      await this.conversationService.setVisitorIdentity(
+        conversation.id,
+        conversation.metadata,
+        verified,
+      );
+      identity = verified;
+    }
+
+    await this.checkRateLimit(chatbot, ipAddress);
+
+    const message = await this.conversationService.addMessage(
+      conversation.id,
+      dto.content,
+      MessageRole.USER,
+    );
+
+    // Auto-title on the first message
+    if (!conversation.messages.some((m) => m.role === MessageRole.USER)) {
+      await this.conversationService.autoTitle(conversation.id, dto.content);
+    }
+
+    await this.chatService.streamReply(
+      res,
+      chatbot,
+      conversation.id,
+      toConversationTurns([...conversation.messages, message]),
+      identity,
+    );
+  }
+
+  /**
+   * Check an identity token from `CoBuild.identify` against the chatbot's
+   * identity secret. Every attribute comes from the signed claims, so none
+   * of them can be changed in the browser. Without a secret, identities
+   * can't be verified and are ignored rather than trusted.
+   */
+  private verifyIdentity(
+    chatbot: Chatbot,
+    identity?: WidgetIdentityDto,
+  ): VisitorIdentity | null {
+    if (!identity || !chatbot.identitySecret) return null;
+
+    let claims: Record<string, unknown>;
+    try {
+      claims = this.jwtService.verify<Record<string, unknown>>(identity.token, {
+        secret: chatbot.identitySecret,
+        algorithms: ['HS256'],
+      });
+    } catch {
+      throw new ForbiddenException('Identity verification failed');
+    }
+
+    const userId = claim(claims.sub, 255);
+    if (!userId) {
+      throw new ForbiddenException('Identity verification failed');
+    }
+
+    // Expired tokens are rejected by `verify`; tokens without an expiry,
+    // or valid for longer than allowed, are rejected here
+    const expiresAt = typeof claims.exp === 'number' ? claims.exp : null;
+    const latest = Math.floor(Date.now() / 1000) + MAX_IDENTITY_TOKEN_SECONDS;
+    if (expiresAt === null || expiresAt > latest) {
+      throw new ForbiddenException(
+        'Identity token must expire within 24 hours',
+      );
+    }
+
+    return {
+      userId,
+      name: claim(claims.name, 200),
+      email: claim(claims.email, 320),
+      plan: claim(claims.plan, 100),
+      verifiedAt: new Date().toISOString(),
+    };
+  }
+
+  private sameIdentity(a: VisitorIdentity | null, b: VisitorIdentity) {
+    return (
+      !!a &&
+      a.userId === b.userId &&
+      a.name === b.name &&
+      a.email === b.email &&
+      a.plan === b.plan
+    );
+  }
+
+  /**
+   * Count the message against the visitor's IP in the current fixed
+   * window, using the bot's limits when it has them enabled.
+   */
+  private async checkRateLimit(chatbot: Chatbot, ipAddress: string) {
+    const maxMessages = chatbot.rateLimitEnabled
+      ? (chatbot.rateLimitMessages ?? DEFAULT_RATE_LIMIT_MESSAGES)
+      : VISITOR_MAX_MESSAGES;
+    const windowMinutes = chatbot.rateLimitEnabled
+      ? (chatbot.rateLimitWindowMinutes ?? DEFAULT_RATE_LIMIT_WINDOW_MINUTES)
+      : VISITOR_WINDOW_MINUTES;
+
+    const windowMs = windowMinutes * 60 * 1000;
+    const windowStart = new Date(Math.floor(Date.now() / windowMs) * windowMs);
+
+    const usage = await this.prisma.rateLimitUsage.upsert({
+      where: {
+        chatbotId_ipAddress_windowStart: {
+          chatbotId: chatbot.id,
+          ipAddress,
+          windowStart,
+        },
+      },
+      create: { chatbotId: chatbot.id, ipAddress, windowStart, messageCount: 1 },
+      update: { messageCount: { increment: 1 } },
+    });
+
+    if (usage.messageCount > maxMessages) {
+      throw new HttpException(
+        chatbot.rateLimitErrorMessage ||
+          'Rate limit exceeded. Please try again later.',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  /**
+   * Count a conversation or lead created from an IP address, in Redis so
+   * requests over the cap never reach the database
+   */
+  private async checkCreateLimit(
+    chatbot: Chatbot,
+    kind: 'conversation' | 'lead',
+    ipAddress: string,
+    max: number,
+  ) {
+    const key = `widget-${kind}:${chatbot.id}:${ipAddress}`;
+    const count = await this.cacheService.incr(key);
+    if (count === 1) {
+      await this.cacheService.expire(key, VISITOR_CREATE_WINDOW_SECONDS);
+    }
+
+    if (count > max) {
+      throw new HttpException(
+        chatbot.rateLimitErrorMessage ||
+          'Rate limit exceeded. Please try again later.',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+}
+
+/** A string claim, trimmed and capped in length */
+function claim(value: unknown, maxLength: number): string | undefined {
+  return typeof value === 'string' && value.trim()
+    ? value.trim().slice(0, maxLength)
+    : undefined;
+}
@@ -0,0 +1,126 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  UnauthorizedException,
+  HttpException,
+  HttpStatus,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import * as bcrypt from 'bcryptjs';
+import { createHash } from 'crypto';
+import { PrismaService } from '../../core/database/prisma.service';
+import { CacheService } from '../../core/cache/cache.service';
+
+const SESSION_TTL_SECONDS = 2 * 60 * 60;
+
+/** Failed unlock attempts allowed per IP and chatbot before a lockout */
+const MAX_UNLOCK_ATTEMPTS = 5;
+const UNLOCK_LOCKOUT_SECONDS = 15 * 60;
+
+interface WidgetSessionPayload {
+  sub: string;
+  type: 'widget';
+  /** Fingerprint of the password hash, so changing the password ends sessions */
+  pwd: string;
+}
+
+/**
+ * Sessions for password-protected widgets: visitors trade the chatbot's
+ * password for a short-lived signed token that the public widget
+ * endpoints require.
+ */
+@Injectable()
+export class WidgetSessionService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly jwtService: JwtService,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  async unlock(chatbotId: string, password: string, ipAddress: string) {
+    // Count the attempt before checking the password, so parallel guesses
+    // can't all get in under the limit
+    const attemptsKey = `widget-unlock:${chatbotId}:${ipAddress}`;
+    const attempts = await this.cacheService.incr(attemptsKey);
+    if (attempts === 1) {
+      await this.cacheService.expire(attemptsKey, UNLOCK_LOCKOUT_SECONDS);
+    }
+    if (attempts > MAX_UNLOCK_ATTEMPTS) {
+      throw new HttpException(
+        'Too many attempts. Please try again later.',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    const chatbot = await this.prisma.chatbot.findUnique({
+      where: { id: chatbotId },
+      select: { id: true, passwordHash: true },
+    });
+
+    if (!chatbot) {
+      throw new NotFoundException('Chatbot not found');
+    }
+
+    if (!chatbot.passwordHash) {
+      throw new BadRequestException('This chatbot is not password protected');
+    }
+
+    const isValid = await bcrypt.compare(password, chatbot.passwordHash);
+    if (!isValid) {
+      throw new UnauthorizedException('Invalid password');
+    }
+
+    await this.cacheService.del(attemptsKey);
+
+    const payload: WidgetSessionPayload = {
+      sub: chatbot.id,
+      type: 'widget',
+      pwd: this.fingerprint(chatbot.passwordHash),
+    };
+    const token = this.jwtService.sign(payload, {
+      secret: this.secret(),
+      expiresIn: SESSION_TTL_SECONDS,
+    });
+
+    return { token, expiresIn: SESSION_TTL_SECONDS };
+  }
+
+  /**
+   * Whether a request may use the chatbot: always for bots without a
+   * password, otherwise only with a valid session token for it.
+   */
+  hasAccess(
+    chatbot: { id: string; passwordHash: string | null },
+    token?: string,
+  ): boolean {
+    if (!chatbot.passwordHash) return true;
+    if (!token) return false;
+
+    try {
+      const payload = this.jwtService.verify<WidgetSessionPayload>(token, {
+        secret: this.secret(),
+      });
+      return (
+        payload.type === 'widget' &&
+        payload.sub === chatbot.id &&
+        payload.pwd === this.fingerprint(chatbot.passwordHash)
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  private fingerprint(passwordHash: string): string {
+    return createHash('sha256').update(passwordHash).digest('hex').slice(0, 16);
+  }
+
+  private secret(): string {
+    return (
+      this.configService.get<string>('WIDGET_SESSION_SECRET') ||
+      this.configService.get<string>('JWT_SECRET')!
+    );
+  }
+}
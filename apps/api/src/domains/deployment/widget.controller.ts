@@ -1,19 +1,41 @@
 import {
   Controller,
   Get,
+  Post,
+  Body,
   Param,
+  Query,
+  Req,
+  Res,
+  HttpCode,
   NotFoundException,
 } from '@nestjs/common';
+import { Request, Response } from 'express';
 import { Public } from '../../core/common/decorators/public.decorator';
 import { PrismaService } from '../../core/database/prisma.service';
+import { WidgetChatService } from './widget-chat.service';
+import { WidgetSessionService } from './widget-session.service';
+import {
+  StartWidgetConversationDto,
+  UnlockWidgetDto,
+  WidgetChatDto,
+  WidgetLeadDto,
+} from './dto';
 
 @Controller('widget')
 export class WidgetController {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly widgetChatService: WidgetChatService,
+    private readonly widgetSessionService: WidgetSessionService,
+  ) {}
 
   @Public()
   @Get(':chatbotId/config')
-  async getWidgetConfig(@Param('chatbotId') chatbotId: string) {
+  async getWidgetConfig(
+    @Param('chatbotId') chatbotId: string,
+    @Req() req: Request,
+  ) {
     const chatbot = await this.prisma.chatbot.findUnique({
       where: { id: chatbotId },
       select: {
@@ -24,6 +46,8 @@ export class WidgetController {
         initialMessage: true,
         suggestedMessages: true,
         isPublic: true,
+        showCitations: true,
+        passwordHash: true,
         organization: {
           select: {
             id: true,
@@ -40,6 +64,27 @@ export class WidgetController {
       throw new NotFoundException('Chatbot not found');
     }
 
+    const organization = {
+      name: chatbot.organization.name,
+      logoUrl: chatbot.organization.logoUrl,
+      branding: chatbot.organization.branding,
+    };
+
+    // Until unlocked, a password-protected bot only shows enough to render
+    // the password prompt
+    if (!this.widgetSessionService.hasAccess(chatbot, this.sessionToken(req))) {
+      return {
+        chatbot: {
+          id: chatbot.id,
+          name: chatbot.name,
+          appearance: chatbot.appearance,
+          passwordProtected: true,
+          locked: true,
+        },
+        organization,
+      };
+    }
+
     return {
       chatbot: {
         id: chatbot.id,
@@ -49,12 +94,122 @@ export class WidgetController {
         initialMessage: chatbot.initialMessage,
         suggestedMessages: chatbot.suggestedMessages,
         isPublic: chatbot.isPublic,
+        showCitations: chatbot.showCitations,
+        passwordProtected: !!chatbot.passwordHash,
+        locked: false,
       },
-      organization: {
-        name: chatbot.organization.name,
-        logoUrl: chatbot.organization.logoUrl,
-        branding: chatbot.organization.branding,
-      },
+      organization,
     };
   }
+
+  @Public()
+  @Post(':chatbotId/unlock')
+  @HttpCode(200)
+  async unlock(
+    @Param('chatbotId') chatbotId: string,
+    @Body() dto: UnlockWidgetDto,
+    @Req() req: Request,
+  ) {
+    return this.widgetSessionService.unlock(
+      chatbotId,
+      dto.password,
+      req.ip ?? 'unknown',
+    );
+  }
+
+  @Public()
+  @Post(':chatbotId/conversations')
+  async startConversation(
+    @Param('chatbotId') chatbotId: string,
+    @Body() dto: StartWidgetConversationDto,
+    @Req() req: Request,
+  ) {
+    const chatbot = await this.widgetChatService.getChatbot(
+      chatbotId,
+      this.embedOrigin(req),
+      this.sessionToken(req),
+    );
+    const conversation = await this.widgetChatService.startConversation(
+      chatbot,
+      dto.visitorId,
+      req.ip ?? 'unknown',
+      dto.identity,
+    );
+    return { conversation };
+  }
+
+  @Public()
+  @Get(':chatbotId/conversations/:conversationId')
+  async getConversation(
+    @Param('chatbotId') chatbotId: string,
+    @Param('conversationId') conversationId: string,
+    @Query('visitorId') visitorId: string,
+    @Req() req: Request,
+  ) {
+    if (!visitorId) {
+      throw new NotFoundException('Conversation not found');
+    }
+
+    const chatbot = await this.widgetChatService.getChatbot(
+      chatbotId,
+      this.embedOrigin(req),
+      this.sessionToken(req),
+    );
+    const conversation = await this.widgetChatService.getConversation(
+      chatbot,
+      conversationId,
+      visitorId,
+    );
+    return { conversation };
+  }
+
+  @Public()
+  @Post(':chatbotId/chat')
+  @HttpCode(200)
+  async chat(
+    @Param('chatbotId') chatbotId: string,
+    @Body() dto: WidgetChatDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const chatbot = await this.widgetChatService.getChatbot(
+      chatbotId,
+      this.embedOrigin(req),
+      this.sessionToken(req),
+    );
+    await this.widgetChatService.chat(res, chatbot, dto, req.ip ?? 'unknown');
+  }
+
+  @Public()
+  @Post(':chatbotId/conversations/:conversationId/lead')
+  async captureLead(
+    @Param('chatbotId') chatbotId: string,
+    @Param('conversationId') conversationId: string,
+    @Body() dto: WidgetLeadDto,
+    @Req() req: Request,
+  ) {
+    const chatbot = await this.widgetChatService.getChatbot(
+      chatbotId,
+      this.embedOrigin(req),
+      this.sessionToken(req),
+    );
+    const lead = await this.widgetChatService.captureLead(
+      chatbot,
+      conversationId,
+      dto,
+      req.ip ?? 'unknown',
+    );
+    return { lead };
+  }
+
+  // The widget runs in an iframe served by the app, so it passes along the
+  // origin of the page it is embedded in
+  private embedOrigin(req: Request): string | undefined {
+    return req.header('x-embed-origin') || req.header('origin');
+  }
+
+  // Issued by the unlock endpoint for password-protected bots
+  private sessionToken(req: Request): string | undefined {
+    return req.header('x-widget-session');
+  }
 }
@@ -0,0 +1,181 @@
+import { Chunk, ChunkOptions } from './chunker.interface';
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+/**
+ * A piece of source text (word, sentence, block...) tagged with the
+ * heading trail it sits under.
+ */
+export interface TextUnit {
+  text: string;
+  size: number;
+  headingPath: string[];
+}
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Parse a markdown heading line, returning its level and text.
+ */
+export function parseHeading(
+  line: string,
+): { level: number; text: string } | null {
+  const match = HEADING_PATTERN.exec(line.trim());
+  return match ? { level: match[1].length, text: match[2] } : null;
+}
+
+/**
+ * Walk the text line by line, tracking the current heading trail, and
+ * hand every non-heading line to `onLine` together with that trail.
+ * Headings inside fenced code blocks are ignored.
+ */
+export function walkLines(
+  text: string,
+  onLine: (line: string, headingPath: string[], isHeading: boolean) => void,
+): void {
+  const trail: { level: number; text: string }[] = [];
+  let inFence = false;
+
+  for (const line of text.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+
+    const heading = inFence ? null : parseHeading(line);
+    if (heading) {
+      while (trail.length > 0 && trail[trail.length - 1].level >= heading.level) {
+        trail.pop();
+      }
+      trail.push(heading);
+    }
+
+    onLine(
+      line,
+      trail.map((h) => h.text),
+      heading !== null,
+    );
+  }
+}
+
+/**
+ * Split prose into sentences on terminal punctuation followed by
+ * whitespace. Newlines are treated as hard boundaries.
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .split('\n')
+    .flatMap((line) => line.split(/(?<=[.!?])\s+(?=[A-Z0-9"'([])/))
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Break a run of text into word windows of at most `maxWords`, for
+ * sentences or blocks too long to fit in a single chunk.
+ */
+export function splitByWords(text: string, maxWords: number): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  if (words.length <= maxWords) return [text];
+
+  const pieces: string[] = [];
+  for (let start = 0; start < words.length; start += maxWords) {
+    pieces.push(words.slice(start, start + maxWords).join(' '));
+  }
+  return pieces;
+}
+
+/**
+ * Greedily pack units into chunks of at most `chunkSize` (units larger
+ * than the limit become a chunk of their own). Each new chunk starts
+ * with trailing units of the previous one, up to `chunkOverlap` in size.
+ * When `breakOnHeading` is set, units under different headings never
+ * share a chunk.
+ */
+export function packUnits(
+  units: TextUnit[],
+  options: ChunkOptions,
+  separator: string,
+  breakOnHeading = false,
+): Chunk[] {
+  const { chunkSize, chunkOverlap } = normalizeOptions(options);
+  const chunks: Chunk[] = [];
+  let current: TextUnit[] = [];
+  let currentSize = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    chunks.push(toChunk(current, separator));
+  };
+
+  for (const unit of units) {
+    const headingChanged =
+      breakOnHeading &&
+      current.length > 0 &&
+      !sameHeading(current[0].headingPath, unit.headingPath);
+
+    if (
+      current.length > 0 &&
+      (headingChanged || currentSize + unit.size > chunkSize)
+    ) {
+      flush();
+
+      // Carry trailing units forward as overlap (never across headings)
+      const carried: TextUnit[] = [];
+      let carriedSize = 0;
+      if (!headingChanged) {
+        for (let i = current.length - 1; i >= 0; i--) {
+          if (carriedSize + current[i].size > chunkOverlap) break;
+          carried.unshift(current[i]);
+          carriedSize += current[i].size;
+        }
+      }
+      // Avoid re-emitting the same content when overlap swallows a chunk
+      if (carriedSize + unit.size > chunkSize) {
+        carried.length = 0;
+        carriedSize = 0;
+      }
+
+      current = carried;
+      currentSize = carriedSize;
+    }
+
+    current.push(unit);
+    currentSize += unit.size;
+  }
+
+  flush();
+  return chunks;
+}
+
+export function normalizeOptions(options: ChunkOptions): ChunkOptions {
+  const chunkSize = Math.max(1, Math.floor(options.chunkSize));
+  const chunkOverlap = Math.min(
+    Math.max(0, Math.floor(options.chunkOverlap)),
+    chunkSize - 1,
+  );
+  return { chunkSize, chunkOverlap };
+}
+
+export function headingFields(headingPath: string[]): Omit<Chunk, 'content'> {
+  if (headingPath.length === 0) return {};
+  return {
+    heading: headingPath[headingPath.length - 1],
+    headingPath,
+  };
+}
+
+function toChunk(units: TextUnit[], separator: string): Chunk {
+  return {
+    content: units
+      .map((u) => u.text)
+      .join(separator)
+      .trim(),
+    ...headingFields(units[0].headingPath),
+  };
+}
+
+function sameHeading(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((h, i) => h === b[i]);
+}
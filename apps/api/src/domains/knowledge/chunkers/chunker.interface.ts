@@ -0,0 +1,18 @@
+export interface Chunk {
+  content: string;
+  /** Closest markdown heading above the chunk, if any */
+  heading?: string;
+  /** Full heading trail from the top-level section down, e.g. ['Guide', 'Install'] */
+  headingPath?: string[];
+}
+
+export interface ChunkOptions {
+  /** Target chunk size: tokens for the token chunker, words for the others */
+  chunkSize: number;
+  /** Amount of trailing content repeated at the start of the next chunk */
+  chunkOverlap: number;
+}
+
+export interface Chunker {
+  chunk(text: string, options: ChunkOptions): Chunk[];
+}
@@ -0,0 +1,20 @@
+import { Chunk, ChunkOptions, Chunker } from './chunker.interface';
+import { packUnits, TextUnit, walkLines } from './chunk-utils';
+
+/**
+ * Fixed-size word windows with overlap. Never breaks mid-word but
+ * otherwise ignores document structure.
+ */
+export class FixedChunker implements Chunker {
+  chunk(text: string, options: ChunkOptions): Chunk[] {
+    const units: TextUnit[] = [];
+
+    walkLines(text, (line, headingPath) => {
+      for (const word of line.split(/\s+/).filter(Boolean)) {
+        units.push({ text: word, size: 1, headingPath });
+      }
+    });
+
+    return packUnits(units, options, ' ');
+  }
+}
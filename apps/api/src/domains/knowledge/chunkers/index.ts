@@ -0,0 +1,20 @@
+import { ChunkingStrategy } from '../../../generated/prisma';
+import { Chunker } from './chunker.interface';
+import { FixedChunker } from './fixed.chunker';
+import { MarkdownChunker } from './markdown.chunker';
+import { SentenceChunker } from './sentence.chunker';
+import { TokenChunker } from './token.chunker';
+
+export { Chunk, ChunkOptions, Chunker } from './chunker.interface';
+export { countTokens } from './token.chunker';
+
+const chunkers: Record<ChunkingStrategy, Chunker> = {
+  [ChunkingStrategy.FIXED]: new FixedChunker(),
+  [ChunkingStrategy.SENTENCE]: new SentenceChunker(),
+  [ChunkingStrategy.MARKDOWN]: new MarkdownChunker(),
+  [ChunkingStrategy.TOKEN]: new TokenChunker(),
+};
+
+export function getChunker(strategy: ChunkingStrategy): Chunker {
+  return chunkers[strategy];
+}
@@ -0,0 +1,133 @@
+import { Chunk, ChunkOptions, Chunker } from './chunker.interface';
+import {
+  countWords,
+  normalizeOptions,
+  packUnits,
+  splitByWords,
+  splitSentences,
+  TextUnit,
+  walkLines,
+} from './chunk-utils';
+
+interface Block {
+  lines: string[];
+  headingPath: string[];
+  /** Code fences and tables are split by line, prose by sentence */
+  kind: 'prose' | 'code' | 'table' | 'heading';
+}
+
+/**
+ * Heading-aware chunker: splits on markdown sections first, then packs
+ * paragraphs, lists, tables and fenced code blocks without cutting
+ * through them. Blocks bigger than `chunkSize` words are split on
+ * sentence (prose) or line (code, tables) boundaries.
+ */
+export class MarkdownChunker implements Chunker {
+  chunk(text: string, options: ChunkOptions): Chunk[] {
+    const { chunkSize } = normalizeOptions(options);
+    const units: TextUnit[] = [];
+    let pendingHeading: TextUnit | null = null;
+
+    for (const block of this.parseBlocks(text)) {
+      if (block.kind === 'heading') {
+        if (pendingHeading) units.push(pendingHeading);
+        pendingHeading = this.blockToUnits(block, chunkSize)[0];
+        continue;
+      }
+
+      const blockUnits = this.blockToUnits(block, chunkSize);
+      // Glue a heading to the first unit of its section so it never ends
+      // up alone at the tail of a chunk
+      if (pendingHeading) {
+        blockUnits[0] = {
+          ...blockUnits[0],
+          text: `${pendingHeading.text}\n\n${blockUnits[0].text}`,
+          size: pendingHeading.size + blockUnits[0].size,
+        };
+        pendingHeading = null;
+      }
+      units.push(...blockUnits);
+    }
+    if (pendingHeading) units.push(pendingHeading);
+
+    return packUnits(units, options, '\n\n', true);
+  }
+
+  private parseBlocks(text: string): Block[] {
+    const blocks: Block[] = [];
+    let current: Block | null = null;
+    let inFence = false;
+
+    const close = () => {
+      if (current && current.lines.some((l) => l.trim())) {
+        blocks.push(current);
+      }
+      current = null;
+    };
+
+    walkLines(text, (line, headingPath, isHeading) => {
+      const isFence = /^\s*(```|~~~)/.test(line);
+
+      if (inFence) {
+        current!.lines.push(line);
+        if (isFence) {
+          inFence = false;
+          close();
+        }
+        return;
+      }
+
+      if (isFence) {
+        close();
+        inFence = true;
+        current = { lines: [line], headingPath, kind: 'code' };
+        return;
+      }
+
+      if (isHeading) {
+        close();
+        blocks.push({ lines: [line.trim()], headingPath, kind: 'heading' });
+        return;
+      }
+
+      if (!line.trim()) {
+        close();
+        return;
+      }
+
+      const kind = /^\s*\|/.test(line) ? 'table' : 'prose';
+      if (current && current.kind !== kind) close();
+      current ??= { lines: [], headingPath, kind };
+      current.lines.push(line);
+    });
+
+    close();
+    return blocks;
+  }
+
+  private blockToUnits(block: Block, chunkSize: number): TextUnit[] {
+    const text = block.lines.join('\n');
+    const size = countWords(text);
+    const { headingPath } = block;
+
+    if (size <= chunkSize || block.kind === 'heading') {
+      return [{ text, size, headingPath }];
+    }
+
+    // Oversized block: split into pieces that each fit in a chunk
+    const isProse = block.kind === 'prose';
+    const pieces = (isProse ? splitSentences(text) : block.lines).flatMap(
+      (piece) => splitByWords(piece, chunkSize),
+    );
+
+    return packUnits(
+      pieces.map((piece) => ({ text: piece, size: countWords(piece), headingPath })),
+      { chunkSize, chunkOverlap: 0 },
+      isProse ? ' ' : '\n',
+    ).map((chunk) => ({
+      text: chunk.content,
+      size: countWords(chunk.content),
+      headingPath,
+    }));
+  }
+}
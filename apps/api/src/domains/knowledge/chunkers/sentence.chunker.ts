@@ -0,0 +1,34 @@
+import { Chunk, ChunkOptions, Chunker } from './chunker.interface';
+import {
+  countWords,
+  normalizeOptions,
+  packUnits,
+  splitByWords,
+  splitSentences,
+  TextUnit,
+  walkLines,
+} from './chunk-utils';
+
+/**
+ * Packs whole sentences into chunks of up to `chunkSize` words, so a
+ * chunk never ends halfway through a sentence (unless the sentence alone
+ * is longer than a chunk).
+ */
+export class SentenceChunker implements Chunker {
+  chunk(text: string, options: ChunkOptions): Chunk[] {
+    const { chunkSize } = normalizeOptions(options);
+    const units: TextUnit[] = [];
+
+    walkLines(text, (line, headingPath) => {
+      // Run-on "sentences" (e.g. unpunctuated PDF text) fall back to word windows
+      const pieces = splitSentences(line).flatMap((sentence) =>
+        splitByWords(sentence, chunkSize),
+      );
+      for (const piece of pieces) {
+        units.push({ text: piece, size: countWords(piece), headingPath });
+      }
+    });
+
+    return packUnits(units, options, ' ');
+  }
+}
@@ -0,0 +1,50 @@
+import { getEncoding, Tiktoken } from 'js-tiktoken';
+import { Chunk, ChunkOptions, Chunker } from './chunker.interface';
+import { normalizeOptions, packUnits, TextUnit, walkLines } from './chunk-utils';
+
+/**
+ * Token-count based chunker using the cl100k_base encoding (shared by
+ * OpenAI's embedding models). Packs whole lines up to `chunkSize` tokens;
+ * lines longer than that are split on token boundaries.
+ */
+export class TokenChunker implements Chunker {
+  chunk(text: string, options: ChunkOptions): Chunk[] {
+    const { chunkSize } = normalizeOptions(options);
+    const encoder = getEncoder();
+    const units: TextUnit[] = [];
+
+    walkLines(text, (line, headingPath) => {
+      if (!line.trim()) return;
+
+      const tokens = encoder.encode(line);
+      for (let start = 0; start < tokens.length; start += chunkSize) {
+        const slice = tokens.slice(start, start + chunkSize);
+        units.push({
+          text: start === 0 && slice.length === tokens.length
+            ? line
+            : encoder.decode(slice),
+          size: slice.length,
+          headingPath,
+        });
+      }
+    });
+
+    return packUnits(units, options, '\n');
+  }
+}
+
+/**
+ * Number of cl100k_base tokens in a text; an approximation for models
+ * with other tokenizers.
+ */
+export function countTokens(text: string): number {
+  return getEncoder().encode(text).length;
+}
+
+let encoder: Tiktoken | null = null;
+
+/** The encoder loads sizeable rank tables, so build it on first use */
+function getEncoder(): Tiktoken {
+  encoder ??= getEncoding('cl100k_base');
+  return encoder;
+}
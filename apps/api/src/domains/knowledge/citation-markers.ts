@@ -0,0 +1,70 @@
+/**
+ * `[1]`, `[1, 3]` or `[Source 2]` with the spaces before it. Not the text
+ * of a markdown link such as `[1](https://...)`, an index attached to an
+ * identifier such as `arr[0]`, or a 4-digit number such as `[2024]`.
+ */
+const MARKER_PATTERN =
+  /( *)(?<![\w$])\[(?:Source\s+)?(\d{1,3}(?:\s*,\s*(?:Source\s+)?\d{1,3})*)\](?!\()/gi;
+
+/**
+ * Fenced code blocks (running to the end of the text while unclosed) and
+ * inline code spans, where `[2024]` or `arr[3]` aren't citations
+ */
+const CODE_PATTERN = /(?:^|(?<=\n)) {0,3}(`{3,}|~{3,})[\s\S]*?(?:\n {0,3}\1|$)|`[^`\n]+`/g;
+
+export interface CitationMarkerCheck {
+  /** The answer with markers normalised to `[n]` and invalid ones removed */
+  content: string;
+  /** Source numbers the answer cites, in order of first use */
+  cited: number[];
+  /** Numbers that don't match any source given to the model */
+  invalid: number[];
+}
+
+/**
+ * Validate the inline `[n]` citation markers of an answer against the
+ * number of `[Source n]` blocks the model was given. Markers pointing at
+ * sources that don't exist are dropped from the text. Answers given
+ * without sources are left as they are.
+ */
+export function checkCitationMarkers(
+  content: string,
+  sourceCount: number,
+): CitationMarkerCheck {
+  if (sourceCount === 0) return { content, cited: [], invalid: [] };
+
+  const cited: number[] = [];
+  const invalid: number[] = [];
+
+  const checkProse = (prose: string) =>
+    prose.replace(
+      MARKER_PATTERN,
+      (marker: string, spaces: string, list: string, offset: number) => {
+        const valid: number[] = [];
+        for (const part of list.split(',')) {
+          const n = Number(part.replace(/\D/g, ''));
+          if (n >= 1 && n <= sourceCount) {
+            if (!valid.includes(n)) valid.push(n);
+            if (!cited.includes(n)) cited.push(n);
+          } else if (!invalid.includes(n)) {
+            invalid.push(n);
+          }
+        }
+        if (valid.length > 0) return `${spaces}[${valid.join(', ')}]`;
+
+        // Keep the spaces only where they still separate two words
+        const next = prose.charAt(offset + marker.length);
+        return next && !/[\s.,;:!?)]/.test(next) ? spaces : '';
+      },
+    );
+
+  let checked = '';
+  let proseStart = 0;
+  for (const code of content.matchAll(CODE_PATTERN)) {
+    checked += checkProse(content.slice(proseStart, code.index)) + code[0];
+    proseStart = code.index + code[0].length;
+  }
+  checked += checkProse(content.slice(proseStart));
+
+  return { content: checked, cited, invalid };
+}
@@ -0,0 +1,201 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { Observable } from 'rxjs';
+
+/** Recent events kept per job so late subscribers can replay the log */
+const HISTORY_LENGTH = 200;
+const HISTORY_TTL_SECONDS = 24 * 60 * 60;
+
+export type CrawlProgressEventType =
+  | 'snapshot'
+  | 'started'
+  | 'discovered'
+  | 'fetched'
+  | 'skipped'
+  | 'failed'
+  | 'completed'
+  | 'cancelled'
+  | 'error';
+
+/** Events after which a crawl job produces no more progress */
+const TERMINAL_EVENTS: CrawlProgressEventType[] = ['completed', 'cancelled', 'error'];
+
+export interface CrawlProgress {
+  pagesFound: number;
+  pagesCrawled: number;
+  pagesFailed: number;
+  pagesSkipped: number;
+  /** URLs waiting to be fetched (before de-duplication) */
+  pagesQueued: number;
+  limit: number;
+  /** Estimated seconds remaining, once enough pages have been processed */
+  etaSeconds: number | null;
+}
+
+export interface CrawlProgressEvent {
+  type: CrawlProgressEventType;
+  jobId: string;
+  url?: string;
+  title?: string | null;
+  /** Skip reason or error message */
+  reason?: string;
+  /** New URLs found, for 'discovered' events */
+  count?: number;
+  /** Job status, for 'snapshot' events */
+  status?: string;
+  progress: CrawlProgress;
+  at: string;
+}
+
+/**
+ * Per-page crawl progress over Redis pub/sub, so events published by a
+ * crawl worker reach SSE clients connected to any API instance. The last
+ * events of each job are also kept in a capped list and replayed to new
+ * subscribers.
+ */
+@Injectable()
+export class CrawlProgressService implements OnModuleDestroy {
+  private readonly logger = new Logger(CrawlProgressService.name);
+  private readonly publisher: Redis;
+  private subscriber: Redis | null = null;
+  private readonly listeners = new Map<string, Set<(message: string) => void>>();
+
+  constructor(private readonly configService: ConfigService) {
+    this.publisher = new Redis(this.redisUrl());
+  }
+
+  /**
+   * Publish an event and append it to the job's history. Never throws:
+   * progress reporting must not fail a crawl.
+   */
+  async publish(event: CrawlProgressEvent): Promise<void> {
+    const payload = JSON.stringify(event);
+    const historyKey = this.historyKey(event.jobId);
+
+    try {
+      await this.publisher
+        .multi()
+        .rpush(historyKey, payload)
+        .ltrim(historyKey, -HISTORY_LENGTH, -1)
+        .expire(historyKey, HISTORY_TTL_SECONDS)
+        .publish(this.channel(event.jobId), payload)
+        .exec();
+    } catch (err) {
+      this.logger.warn(
+        `Failed to publish crawl progress for job ${event.jobId}: ${err instanceof Error ? err.message : err}`,
+      );
+    }
+  }
+
+  /**
+   * Drop a job's history, e.g. before a retry starts the crawl over.
+   */
+  async clear(jobId: string): Promise<void> {
+    await this.publisher.del(this.historyKey(jobId)).catch(() => undefined);
+  }
+
+  /**
+   * The job's recent events followed, when `follow` is set, by live ones.
+   * Completes after a terminal event (completed, cancelled, error).
+   */
+  events(jobId: string, follow: boolean): Observable<CrawlProgressEvent> {
+    return new Observable<CrawlProgressEvent>((subscriber) => {
+      let replayed = false;
+      let history = new Set<string>();
+      const buffered: string[] = [];
+
+      const emit = (payload: string) => {
+        const event = JSON.parse(payload) as CrawlProgressEvent;
+        subscriber.next(event);
+        if (TERMINAL_EVENTS.includes(event.type)) subscriber.complete();
+      };
+
+      // Listen before reading the history so nothing published in between
+      // is lost; events seen in both are only emitted once.
+      const listener = (payload: string) => {
+        if (!replayed) {
+          buffered.push(payload);
+        } else {
+          emit(payload);
+        }
+      };
+      if (follow) this.addListener(jobId, listener);
+
+      this.publisher
+        .lrange(this.historyKey(jobId), 0, -1)
+        .then((payloads) => {
+          history = new Set(payloads);
+          for (const payload of payloads) {
+            if (subscriber.closed) return;
+            emit(payload);
+          }
+          for (const payload of buffered) {
+            if (subscriber.closed) return;
+            if (!history.has(payload)) emit(payload);
+          }
+          replayed = true;
+          if (!follow) subscriber.complete();
+        })
+        .catch((err) => subscriber.error(err));
+
+      return () => {
+        if (follow) this.removeListener(jobId, listener);
+      };
+    });
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await Promise.all([this.publisher.quit(), this.subscriber?.quit()]);
+  }
+
+  private addListener(jobId: string, listener: (message: string) => void): void {
+    const channel = this.channel(jobId);
+    let channelListeners = this.listeners.get(channel);
+    if (!channelListeners) {
+      channelListeners = new Set();
+      this.listeners.set(channel, channelListeners);
+      this.getSubscriber()
+        .subscribe(channel)
+        .catch((err) =>
+          this.logger.warn(`Failed to subscribe to ${channel}: ${err instanceof Error ? err.message : err}`),
+        );
+    }
+    channelListeners.add(listener);
+  }
+
+  private removeListener(jobId: string, listener: (message: string) => void): void {
+    const channel = this.channel(jobId);
+    const channelListeners = this.listeners.get(channel);
+    if (!channelListeners) return;
+
+    channelListeners.delete(listener);
+    if (channelListeners.size === 0) {
+      this.listeners.delete(channel);
+      this.subscriber?.unsubscribe(channel).catch(() => undefined);
+    }
+  }
+
+  /** A connection in subscriber mode can't run other commands, so it is separate */
+  private getSubscriber(): Redis {
+    if (!this.subscriber) {
+      this.subscriber = new Redis(this.redisUrl());
+      this.subscriber.on('message', (channel: string, message: string) => {
+        this.listeners.get(channel)?.forEach((listener) => listener(message));
+      });
+    }
+    return this.subscriber;
+  }
+
+  private redisUrl(): string {
+    return this.configService.get<string>('REDIS_URL', 'redis://localhost:6379');
+  }
+
+  private channel(jobId: string): string {
+    return `crawl:${jobId}:events`;
+  }
+
+  private historyKey(jobId: string): string {
+    return `crawl:${jobId}:history`;
+  }
+}
@@ -0,0 +1,48 @@
+import { CrawlProvider as CrawlProviderType } from '../../../generated/prisma';
+
+export interface CrawlFetchOptions {
+  /** CSS selector to wait for before capturing a rendered page */
+  waitForSelector?: string | null;
+  timeoutMs: number;
+}
+
+/**
+ * A fetched URL, independent of how it was fetched. Bodies are read
+ * lazily so oversized documents can be rejected on their declared size.
+ */
+export interface CrawlResponse {
+  status: number;
+  statusText: string;
+  contentType: string;
+  /** Declared body size in bytes, when known up front */
+  contentLength: number | null;
+  text(): Promise<string>;
+  buffer(): Promise<Buffer>;
+  /** Release the body without reading it */
+  discard(): Promise<void>;
+}
+
+export interface CrawlProvider {
+  readonly type: CrawlProviderType;
+  fetch(url: string, options: CrawlFetchOptions): Promise<CrawlResponse>;
+}
+
+/**
+ * Wrap a body that has already been read in full.
+ */
+export function bufferedResponse(
+  status: number,
+  statusText: string,
+  contentType: string,
+  body: Buffer,
+): CrawlResponse {
+  return {
+    status,
+    statusText,
+    contentType,
+    contentLength: body.length,
+    text: async () => body.toString('utf8'),
+    buffer: async () => body,
+    discard: async () => undefined,
+  };
+}
@@ -0,0 +1,166 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { ConfigService } from '@nestjs/config';
+import { FirecrawlCrawlProvider } from './firecrawl.provider';
+import { HttpCrawlProvider } from './http.provider';
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  headers: IncomingMessage['headers'];
+  body: unknown;
+}
+
+type StubHandler = (req: RecordedRequest, res: ServerResponse) => void;
+
+describe('FirecrawlCrawlProvider', () => {
+  // A local stand-in for the Firecrawl API, which also serves documents
+  let server: Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+  let handler: StubHandler;
+
+  const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  const createProvider = (config: Record<string, string | undefined> = {}) =>
+    new FirecrawlCrawlProvider(
+      new ConfigService({
+        FIRECRAWL_API_URL: `${baseUrl}/`,
+        FIRECRAWL_API_KEY: 'fc-test-key',
+        ...config,
+      }),
+      new HttpCrawlProvider(),
+    );
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        const recorded: RecordedRequest = {
+          method: req.method,
+          url: req.url,
+          headers: req.headers,
+          body: raw ? JSON.parse(raw) : null,
+        };
+        requests.push(recorded);
+        handler(recorded, res);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    handler = (_req, res) =>
+      sendJson(res, 200, {
+        success: true,
+        data: {
+          rawHtml: '<html><body><h1>Rendered</h1></body></html>',
+          metadata: { statusCode: 200, contentType: 'text/html; charset=utf-8' },
+        },
+      });
+  });
+
+  it('posts the page to /v1/scrape with the API key', async () => {
+    await createProvider().fetch('https://example.com/docs', {
+      timeoutMs: 5000,
+      waitForSelector: '#app',
+    });
+
+    expect(requests).toHaveLength(1);
+    const [request] = requests;
+    expect(request.method).toBe('POST');
+    expect(request.url).toBe('/v1/scrape');
+    expect(request.headers.authorization).toBe('Bearer fc-test-key');
+    expect(request.headers['content-type']).toBe('application/json');
+    expect(request.body).toEqual({
+      url: 'https://example.com/docs',
+      formats: ['rawHtml'],
+      timeout: 5000,
+      actions: [{ type: 'wait', selector: '#app' }],
+    });
+  });
+
+  it('leaves out the key and actions when not configured', async () => {
+    await createProvider({ FIRECRAWL_API_KEY: undefined }).fetch(
+      'https://example.com/',
+      { timeoutMs: 5000 },
+    );
+
+    const [request] = requests;
+    expect(request.headers.authorization).toBeUndefined();
+    expect(request.body).not.toHaveProperty('actions');
+  });
+
+  it('maps the rendered HTML and the page status', async () => {
+    handler = (_req, res) =>
+      sendJson(res, 200, {
+        success: true,
+        data: {
+          rawHtml: '<p>Missing</p>',
+          metadata: { statusCode: 404, contentType: 'text/html', error: 'Not Found' },
+        },
+      });
+
+    const response = await createProvider().fetch('https://example.com/gone', {
+      timeoutMs: 5000,
+    });
+
+    expect(response.status).toBe(404);
+    expect(response.statusText).toBe('Not Found');
+    expect(response.contentType).toBe('text/html');
+    expect(response.contentLength).toBe('<p>Missing</p>'.length);
+    await expect(response.text()).resolves.toBe('<p>Missing</p>');
+  });
+
+  it('downloads documents directly instead of through the API', async () => {
+    handler = (req, res) => {
+      if (req.url === '/v1/scrape') {
+        sendJson(res, 200, {
+          success: true,
+          data: { rawHtml: '', metadata: { statusCode: 200, contentType: 'application/pdf' } },
+        });
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/pdf' });
+      res.end('%PDF-1.7');
+    };
+
+    const response = await createProvider().fetch(`${baseUrl}/manual.pdf`, {
+      timeoutMs: 5000,
+    });
+
+    expect(requests.map((r) => r.url)).toEqual(['/v1/scrape', '/manual.pdf']);
+    expect(response.contentType).toBe('application/pdf');
+    await expect(response.text()).resolves.toBe('%PDF-1.7');
+  });
+
+  it('reports the API error message', async () => {
+    handler = (_req, res) =>
+      sendJson(res, 402, { success: false, error: 'Insufficient credits' });
+
+    await expect(
+      createProvider().fetch('https://example.com/', { timeoutMs: 5000 }),
+    ).rejects.toThrow('Firecrawl scrape failed: Insufficient credits');
+  });
+
+  it('reports the HTTP status when the API returns no JSON', async () => {
+    handler = (_req, res) => {
+      res.writeHead(502, { 'Content-Type': 'text/plain' });
+      res.end('Bad Gateway');
+    };
+
+    await expect(
+      createProvider().fetch('https://example.com/', { timeoutMs: 5000 }),
+    ).rejects.toThrow('Firecrawl scrape failed: HTTP 502 Bad Gateway');
+  });
+});
@@ -0,0 +1,82 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CrawlProvider as CrawlProviderType } from '../../../generated/prisma';
+import {
+  CrawlFetchOptions,
+  CrawlProvider,
+  CrawlResponse,
+  bufferedResponse,
+} from './crawl-provider.interface';
+import { HttpCrawlProvider } from './http.provider';
+
+const DEFAULT_FIRECRAWL_API_URL = 'https://api.firecrawl.dev';
+
+interface FirecrawlScrapeResponse {
+  success: boolean;
+  error?: string;
+  data?: {
+    rawHtml?: string;
+    metadata?: {
+      statusCode?: number;
+      contentType?: string;
+      error?: string;
+    };
+  };
+}
+
+/**
+ * Renders pages through a Firecrawl-compatible `/v1/scrape` API. Point
+ * FIRECRAWL_API_URL at a self-hosted instance (or a local stub) to avoid
+ * the hosted service. Documents are downloaded directly, since the API
+ * returns them already converted.
+ */
+@Injectable()
+export class FirecrawlCrawlProvider implements CrawlProvider {
+  readonly type = CrawlProviderType.FIRECRAWL;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly httpProvider: HttpCrawlProvider,
+  ) {}
+
+  async fetch(url: string, options: CrawlFetchOptions): Promise<CrawlResponse> {
+    const apiUrl = (
+      this.configService.get<string>('FIRECRAWL_API_URL') || DEFAULT_FIRECRAWL_API_URL
+    ).replace(/\/+$/, '');
+    const apiKey = this.configService.get<string>('FIRECRAWL_API_KEY');
+
+    const response = await fetch(`${apiUrl}/v1/scrape`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify({
+        url,
+        formats: ['rawHtml'],
+        timeout: options.timeoutMs,
+        ...(options.waitForSelector && {
+          actions: [{ type: 'wait', selector: options.waitForSelector }],
+        }),
+      }),
+      // Leave the API time to render before giving up on it
+      signal: AbortSignal.timeout(options.timeoutMs + 10_000),
+    });
+
+    const result = (await response.json().catch(() => null)) as FirecrawlScrapeResponse | null;
+    if (!response.ok || !result?.success || !result.data) {
+      throw new Error(
+        `Firecrawl scrape failed: ${result?.error ?? `HTTP ${response.status} ${response.statusText}`}`,
+      );
+    }
+
+    const { rawHtml = '', metadata = {} } = result.data;
+    const contentType = metadata.contentType || 'text/html';
+    if (!contentType.includes('text/html')) {
+      return this.httpProvider.fetch(url, options);
+    }
+
+    const status = metadata.statusCode ?? 200;
+    return bufferedResponse(status, metadata.error ?? '', contentType, Buffer.from(rawHtml));
+  }
+}
@@ -0,0 +1,40 @@
+import { Injectable } from '@nestjs/common';
+import { CrawlProvider as CrawlProviderType } from '../../../generated/prisma';
+import { CRAWLER_USER_AGENT } from '../crawler';
+import {
+  CrawlFetchOptions,
+  CrawlProvider,
+  CrawlResponse,
+} from './crawl-provider.interface';
+
+const ACCEPT_HEADER =
+  'text/html,application/xhtml+xml,application/pdf,application/vnd.openxmlformats-officedocument.*,text/*;q=0.8,*/*;q=0.5';
+
+/**
+ * Plain HTTP fetch; the HTML is parsed with cheerio as served, so pages
+ * that render their content client-side come back (nearly) empty.
+ */
+@Injectable()
+export class HttpCrawlProvider implements CrawlProvider {
+  readonly type = CrawlProviderType.CHEERIO;
+
+  async fetch(url: string, options: CrawlFetchOptions): Promise<CrawlResponse> {
+    const response = await fetch(url, {
+      headers: { 'User-Agent': CRAWLER_USER_AGENT, Accept: ACCEPT_HEADER },
+      signal: AbortSignal.timeout(options.timeoutMs),
+    });
+
+    const contentLength = response.headers.get('content-length');
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      contentType: response.headers.get('content-type') || '',
+      contentLength: contentLength ? Number(contentLength) : null,
+      text: () => response.text(),
+      buffer: async () => Buffer.from(await response.arrayBuffer()),
+      discard: async () => {
+        await response.body?.cancel();
+      },
+    };
+  }
+}
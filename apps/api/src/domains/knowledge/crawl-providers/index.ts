@@ -0,0 +1,8 @@
+export {
+  CrawlProvider,
+  CrawlFetchOptions,
+  CrawlResponse,
+} from './crawl-provider.interface';
+export { HttpCrawlProvider } from './http.provider';
+export { PlaywrightCrawlProvider } from './playwright.provider';
+export { FirecrawlCrawlProvider } from './firecrawl.provider';
@@ -0,0 +1,116 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Browser } from 'playwright-core';
+import { CrawlProvider as CrawlProviderType } from '../../../generated/prisma';
+import { CRAWLER_USER_AGENT } from '../crawler';
+import {
+  CrawlFetchOptions,
+  CrawlProvider,
+  CrawlResponse,
+  bufferedResponse,
+} from './crawl-provider.interface';
+import { HttpCrawlProvider } from './http.provider';
+
+/**
+ * Renders pages in headless Chromium so client-side rendered sites (SPAs)
+ * yield their content. Connects to a remote browser when
+ * PLAYWRIGHT_WS_ENDPOINT is set, otherwise launches a local one
+ * (PLAYWRIGHT_EXECUTABLE_PATH, or the browser installed by
+ * `playwright install chromium`). The browser is shared across pages;
+ * each page gets its own context.
+ */
+@Injectable()
+export class PlaywrightCrawlProvider implements CrawlProvider, OnModuleDestroy {
+  readonly type = CrawlProviderType.PLAYWRIGHT;
+  private readonly logger = new Logger(PlaywrightCrawlProvider.name);
+  private browser: Promise<Browser> | null = null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly httpProvider: HttpCrawlProvider,
+  ) {}
+
+  async fetch(url: string, options: CrawlFetchOptions): Promise<CrawlResponse> {
+    const browser = await this.getBrowser();
+    const context = await browser.newContext({ userAgent: CRAWLER_USER_AGENT });
+
+    try {
+      const page = await context.newPage();
+      const response = await page.goto(url, {
+        waitUntil: 'networkidle',
+        timeout: options.timeoutMs,
+      });
+
+      const contentType = (await response?.headerValue('content-type')) || 'text/html';
+      const status = response?.status() ?? 200;
+      const statusText = response?.statusText() ?? '';
+
+      if (!contentType.includes('text/html')) {
+        // Shown inline by the browser (text, images); return the raw body
+        const body = response ? await response.body() : Buffer.alloc(0);
+        return bufferedResponse(status, statusText, contentType, body);
+      }
+
+      if (options.waitForSelector && status < 400) {
+        await page.waitForSelector(options.waitForSelector, {
+          timeout: options.timeoutMs,
+        });
+      }
+
+      const html = await page.content();
+      return bufferedResponse(status, statusText, contentType, Buffer.from(html));
+    } catch (err) {
+      // PDFs and office documents trigger a download instead of a page
+      if (err instanceof Error && err.message.includes('Download is starting')) {
+        return this.httpProvider.fetch(url, options);
+      }
+      throw err;
+    } finally {
+      await context.close().catch(() => undefined);
+    }
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (!this.browser) return;
+    const browser = await this.browser.catch(() => null);
+    this.browser = null;
+    await browser?.close();
+  }
+
+  /**
+   * Launch (once) the shared browser. A failed launch or a disconnect
+   * clears it so the next page starts a fresh one.
+   */
+  private getBrowser(): Promise<Browser> {
+    if (!this.browser) {
+      this.browser = this.launchBrowser()
+        .then((browser) => {
+          browser.on('disconnected', () => {
+            this.browser = null;
+          });
+          return browser;
+        })
+        .catch((err) => {
+          this.browser = null;
+          throw err;
+        });
+    }
+    return this.browser;
+  }
+
+  private async launchBrowser(): Promise<Browser> {
+    const { chromium } = await import('playwright-core');
+
+    const wsEndpoint = this.configService.get<string>('PLAYWRIGHT_WS_ENDPOINT');
+    if (wsEndpoint) {
+      this.logger.log(`Connecting to remote browser at ${wsEndpoint}`);
+      return chromium.connect(wsEndpoint);
+    }
+
+    this.logger.log('Launching headless Chromium');
+    return chromium.launch({
+      headless: true,
+      executablePath: this.configService.get<string>('PLAYWRIGHT_EXECUTABLE_PATH') || undefined,
+    });
+  }
+}
@@ -7,9 +7,12 @@ import {
   Query,
   ParseIntPipe,
   DefaultValuePipe,
+  Sse,
+  MessageEvent,
 } from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bullmq';
 import { Queue } from 'bullmq';
+import { Observable, map } from 'rxjs';
 import { CurrentUser } from '../../core/common/decorators';
 import { CrawlService } from './crawl.service';
 import { StartCrawlDto, SelectPagesDto } from './dto';
@@ -76,4 +79,28 @@ export class CrawlController {
     const job = await this.crawlService.cancelJob(jobId);
     return { job };
   }
+
+  @Post('crawl/job/:jobId/refresh')
+  async refreshJob(
+    @Param('jobId') jobId: string,
+    @CurrentUser('orgId') orgId: string,
+  ) {
+    const refresh = await this.crawlService.startRefresh(jobId, orgId);
+    return { refresh };
+  }
+
+  @Get('crawl/job/:jobId/refreshes')
+  async getRefreshes(@Param('jobId') jobId: string) {
+    return this.crawlService.getRefreshes(jobId);
+  }
+
+  /** Server-sent events with per-page progress for a crawl job */
+  @Sse('crawl/job/:jobId/events')
+  async streamProgress(
+    @Param('jobId') jobId: string,
+    @CurrentUser('orgId') orgId: string,
+  ): Promise<Observable<MessageEvent>> {
+    const events = await this.crawlService.streamProgress(jobId, orgId);
+    return events.pipe(map((event) => ({ type: event.type, data: event })));
+  }
 }
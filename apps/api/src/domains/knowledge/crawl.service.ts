@@ -3,26 +3,138 @@ import {
   Logger,
   NotFoundException,
   BadRequestException,
+  ForbiddenException,
 } from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bullmq';
 import { Queue } from 'bullmq';
+import { Observable, concat, of } from 'rxjs';
 import * as cheerio from 'cheerio';
 import { randomUUID } from 'crypto';
 import { createHash } from 'crypto';
 import { PrismaService } from '../../core/database/prisma.service';
-import { CrawlStatus, PageType } from '../../generated/prisma';
+import {
+  CrawlJob,
+  CrawlProvider as CrawlProviderType,
+  CrawlStatus,
+  ExtractionMode,
+  PageType,
+  SourceType,
+  TrainingStatus,
+} from '../../generated/prisma';
 import { ChatbotService } from '../chatbot/chatbot.service';
+import { EmbeddingService } from './embedding.service';
+import { TextExtractorService } from './text-extractor.service';
+import {
+  CrawlProgress,
+  CrawlProgressEvent,
+  CrawlProgressEventType,
+  CrawlProgressService,
+} from './crawl-progress.service';
+import { MAX_TRAINING_FILE_SIZE_BYTES } from './file-training.service';
 import { StartCrawlDto } from './dto';
+import {
+  CrawlProvider,
+  CrawlResponse,
+  FirecrawlCrawlProvider,
+  HttpCrawlProvider,
+  PlaywrightCrawlProvider,
+} from './crawl-providers';
+import {
+  CRAWLER_USER_AGENT,
+  HostRateLimiter,
+  RobotsRules,
+  UrlFilter,
+  compilePattern,
+  decodeSitemapBody,
+  extractMainContent,
+  findBoilerplate,
+  isSitemapUrl,
+  parseRobotsTxt,
+  parseSitemap,
+  readSitemapBody,
+  removeBoilerplate,
+  sleep,
+  stripQueryParams,
+} from './crawler';
+
+/** Upper bound on a robots.txt Crawl-delay we are willing to honour */
+const MAX_CRAWL_DELAY_SECONDS = 30;
+/** Sitemap discovery limits, to keep huge sitemap indexes bounded */
+const MAX_SITEMAP_FILES = 50;
+const MAX_SITEMAP_URLS = 50_000;
+/** How often idle crawl workers poll the shared queue */
+const WORKER_POLL_MS = 50;
+/** Per-page fetch (and render) timeout */
+const PAGE_TIMEOUT_MS = 30_000;
+/** Pages processed before an ETA is estimated */
+const MIN_PAGES_FOR_ETA = 3;
+
+interface RefreshDetails {
+  added: string[];
+  changed: string[];
+  removed: string[];
+  failed: { url: string; error: string }[];
+}
+
+/** The crawl job settings that decide how a page is fetched and parsed */
+type PageFetchSettings = Pick<
+  CrawlJob,
+  'provider' | 'extractionMode' | 'waitForSelector'
+>;
+
+interface FetchedPage {
+  url: string;
+  pageType: PageType;
+  title: string | null;
+  textContent: string;
+  contentHash: string;
+  links: string[];
+}
+
+/**
+ * A page fetch that came back with a non-2xx status.
+ */
+class PageFetchError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * A page that was fetched but has nothing to train on (wrong content
+ * type, empty body). The message is stored as the page's skip reason.
+ */
+class PageSkippedError extends Error {}
 
 @Injectable()
 export class CrawlService {
   private readonly logger = new Logger(CrawlService.name);
+  private readonly providers: Record<CrawlProviderType, CrawlProvider>;
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly chatbotService: ChatbotService,
+    private readonly embeddingService: EmbeddingService,
+    private readonly textExtractor: TextExtractorService,
+    private readonly progress: CrawlProgressService,
+    httpProvider: HttpCrawlProvider,
+    playwrightProvider: PlaywrightCrawlProvider,
+    firecrawlProvider: FirecrawlCrawlProvider,
     @InjectQueue('crawl-queue') private readonly crawlQueue: Queue,
-  ) {}
+  ) {
+    this.providers = {
+      [CrawlProviderType.CHEERIO]: httpProvider,
+      [CrawlProviderType.PLAYWRIGHT]: playwrightProvider,
+      [CrawlProviderType.FIRECRAWL]: firecrawlProvider,
+    };
+  }
+
+  getProvider(type: CrawlProviderType): CrawlProvider {
+    return this.providers[type];
+  }
 
   /**
    * Start a new crawl job. Validates chatbot ownership, creates the
@@ -31,12 +143,37 @@ export class CrawlService {
   async startCrawl(orgId: string, dto: StartCrawlDto) {
     await this.chatbotService.validateOwnership(dto.chatbotId, orgId);
 
+    for (const pattern of [
+      ...(dto.includePatterns ?? []),
+      ...(dto.excludePatterns ?? []),
+    ]) {
+      try {
+        compilePattern(pattern);
+      } catch {
+        throw new BadRequestException(`Invalid URL pattern: "${pattern}"`);
+      }
+    }
+
+    const pageType =
+      dto.pageType === PageType.SITEMAP || isSitemapUrl(dto.url)
+        ? PageType.SITEMAP
+        : PageType.HTML;
+
     const job = await this.prisma.crawlJob.create({
       data: {
         chatbotId: dto.chatbotId,
         url: dto.url,
+        provider: dto.provider,
+        waitForSelector: dto.waitForSelector?.trim() || null,
+        pageType,
+        extractionMode: dto.extractionMode,
         maxDepth: dto.maxDepth ?? -1,
         confirmedLimit: dto.confirmedLimit,
+        includePatterns: dto.includePatterns ?? [],
+        excludePatterns: dto.excludePatterns ?? [],
+        stripQueryParams: dto.stripQueryParams ?? [],
+        maxConcurrency: dto.maxConcurrency,
+        requestDelayMs: dto.requestDelayMs,
         status: CrawlStatus.QUEUED,
       },
     });
@@ -66,6 +203,7 @@ export class CrawlService {
         take: limit,
         include: {
           _count: { select: { crawledPages: true } },
+          refreshes: { orderBy: { createdAt: 'desc' }, take: 1 },
         },
       }),
       this.prisma.crawlJob.count({ where: { chatbotId } }),
@@ -100,6 +238,58 @@ export class CrawlService {
     return job;
   }
 
+  /**
+   * Live progress for a crawl job: a snapshot of its counters, the recent
+   * per-page events and, while the job is still running, new events as
+   * they happen.
+   */
+  async streamProgress(
+    jobId: string,
+    orgId: string,
+  ): Promise<Observable<CrawlProgressEvent>> {
+    const job = await this.prisma.crawlJob.findUnique({
+      where: { id: jobId },
+      include: { chatbot: { select: { orgId: true } } },
+    });
+
+    if (!job) {
+      throw new NotFoundException('Crawl job not found');
+    }
+
+    if (job.chatbot.orgId !== orgId) {
+      throw new ForbiddenException('Access denied');
+    }
+
+    const running = (
+      [CrawlStatus.PENDING, CrawlStatus.QUEUED, CrawlStatus.PROCESSING] as CrawlStatus[]
+    ).includes(job.status);
+
+    const snapshot: CrawlProgressEvent = {
+      type: 'snapshot',
+      jobId,
+      status: job.status,
+      progress: this.storedProgress(job),
+      at: new Date().toISOString(),
+    };
+
+    return concat(of(snapshot), this.progress.events(jobId, running));
+  }
+
+  /**
+   * Progress from a job's stored counters (which lag a running crawl).
+   */
+  private storedProgress(job: CrawlJob): CrawlProgress {
+    return {
+      pagesFound: job.pagesFound,
+      pagesCrawled: job.pagesCrawled,
+      pagesFailed: job.pagesFailed,
+      pagesSkipped: job.pagesSkipped,
+      pagesQueued: 0,
+      limit: job.confirmedLimit ?? 50,
+      etaSeconds: null,
+    };
+  }
+
   /**
    * Paginated list of crawled pages for a given job.
    */
@@ -178,7 +368,7 @@ export class CrawlService {
     // Mark as selected
     await this.prisma.crawledPage.updateMany({
       where: { id: { in: selectedPageIds } },
-      data: { isSelected: true },
+      data: { isSelected: true, trainingStatus: TrainingStatus.PENDING },
     });
 
     // Enqueue each page for training
@@ -235,10 +425,92 @@ export class CrawlService {
       },
     });
 
+    // A running crawl reports its own cancellation once it notices
+    if (job.status !== CrawlStatus.PROCESSING) {
+      await this.progress.publish({
+        type: 'cancelled',
+        jobId,
+        progress: this.storedProgress(job),
+        at: new Date().toISOString(),
+      });
+    }
+
     this.logger.log(`Crawl job ${jobId} cancelled`);
     return updated;
   }
 
+  /**
+   * Queue an incremental refresh of a finished crawl job: known pages are
+   * re-fetched and only changed ones are re-embedded.
+   */
+  async startRefresh(jobId: string, orgId: string) {
+    const job = await this.prisma.crawlJob.findUnique({
+      where: { id: jobId },
+      include: { chatbot: { select: { orgId: true } } },
+    });
+
+    if (!job) {
+      throw new NotFoundException('Crawl job not found');
+    }
+
+    if (job.chatbot.orgId !== orgId) {
+      throw new ForbiddenException('Access denied');
+    }
+
+    if (job.status !== CrawlStatus.COMPLETED) {
+      throw new BadRequestException('Only completed crawl jobs can be refreshed');
+    }
+
+    const refresh = await this.queueRefresh(jobId);
+    if (!refresh) {
+      throw new BadRequestException('A refresh is already running for this job');
+    }
+
+    return refresh;
+  }
+
+  /**
+   * Create and enqueue a refresh for a completed crawl job. Returns null
+   * if one is already queued or running, so callers such as the
+   * retraining scheduler never stack refreshes.
+   */
+  async queueRefresh(jobId: string) {
+    const running = await this.prisma.crawlRefresh.findFirst({
+      where: {
+        jobId,
+        status: { in: [CrawlStatus.QUEUED, CrawlStatus.PROCESSING] },
+      },
+    });
+    if (running) return null;
+
+    const refresh = await this.prisma.crawlRefresh.create({
+      data: { jobId, status: CrawlStatus.QUEUED },
+    });
+
+    await this.crawlQueue.add('refresh', { jobId, refreshId: refresh.id }, {
+      attempts: 3,
+      backoff: { type: 'exponential', delay: 5000 },
+      removeOnComplete: 100,
+      removeOnFail: 50,
+    });
+
+    this.logger.log(`Refresh ${refresh.id} queued for crawl job ${jobId}`);
+    return refresh;
+  }
+
+  /**
+   * Refresh history for a crawl job, newest first.
+   */
+  async getRefreshes(jobId: string) {
+    const refreshes = await this.prisma.crawlRefresh.findMany({
+      where: { jobId },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+    });
+
+    return { refreshes };
+  }
+
   // ---------------------------------------------------------------------------
   // Internal: called by the CrawlWorker
   // ---------------------------------------------------------------------------
@@ -262,6 +534,8 @@ export class CrawlService {
       return;
     }
 
+    this.logger.log(`Crawling ${job.url} with the ${job.provider} provider`);
+
     await this.prisma.crawlJob.update({
       where: { id: jobId },
       data: { status: CrawlStatus.PROCESSING, startedAt: new Date() },
@@ -270,141 +544,164 @@ export class CrawlService {
     const visited = new Set<string>();
     const limit = job.confirmedLimit ?? 50;
     const maxDepth = job.maxDepth === -1 ? Infinity : job.maxDepth;
+    const filter = new UrlFilter(job);
+    const normalize = (url: string) =>
+      this.normalizeUrl(url, job.stripQueryParams);
+    const seedUrl = normalize(job.url);
     let pagesFound = 0;
     let pagesCrawled = 0;
     let pagesFailed = 0;
+    let pagesSkipped = 0;
+    let inFlight = 0;
+    let dequeued = 0;
+    let cancelled = false;
+    const startedAt = Date.now();
 
     interface CrawlItem {
       url: string;
       depth: number;
     }
 
-    const queue: CrawlItem[] = [{ url: job.url, depth: 0 }];
-
-    try {
-      while (queue.length > 0 && pagesCrawled < limit) {
-        // Re-check for cancellation periodically
-        if (pagesCrawled > 0 && pagesCrawled % 10 === 0) {
-          const current = await this.prisma.crawlJob.findUnique({
-            where: { id: jobId },
-            select: { status: true },
-          });
-          if (current?.status === CrawlStatus.CANCELLED) {
-            this.logger.log(`Crawl job ${jobId} cancelled mid-crawl`);
-            break;
-          }
+    const queue: CrawlItem[] = [];
+    const discovered = new Set<string>();
+    // Returns whether the URL is new to this crawl
+    const enqueue = (url: string, depth: number): boolean => {
+      const normalized = normalize(url);
+      if (!visited.has(normalized) && filter.matches(normalized)) {
+        queue.push({ url: normalized, depth });
+        if (!discovered.has(normalized)) {
+          discovered.add(normalized);
+          return true;
         }
+      }
+      return false;
+    };
 
-        const item = queue.shift()!;
-        const normalizedUrl = this.normalizeUrl(item.url);
-
-        if (visited.has(normalizedUrl)) continue;
-        visited.add(normalizedUrl);
-
-        pagesFound++;
-
-        try {
-          const response = await fetch(normalizedUrl, {
-            headers: {
-              'User-Agent':
-                'CoBuild-Crawler/1.0 (+https://cobuild.ai/bot)',
-              Accept: 'text/html,application/xhtml+xml',
-            },
-            signal: AbortSignal.timeout(15_000),
-          });
-
-          if (!response.ok) {
-            throw new Error(`HTTP ${response.status} ${response.statusText}`);
-          }
+    const currentProgress = (): CrawlProgress => {
+      const processed = pagesCrawled + pagesFailed + pagesSkipped;
+      const remaining = Math.min(
+        Math.max(limit - pagesCrawled, 0),
+        queue.length + inFlight,
+      );
+      return {
+        pagesFound,
+        pagesCrawled,
+        pagesFailed,
+        pagesSkipped,
+        pagesQueued: queue.length,
+        limit,
+        etaSeconds:
+          processed >= MIN_PAGES_FOR_ETA
+            ? Math.round(((Date.now() - startedAt) / processed) * remaining / 1000)
+            : null,
+      };
+    };
+    // Published without awaiting; the shared connection keeps them in order
+    const emit = (
+      type: CrawlProgressEventType,
+      details: Partial<Pick<CrawlProgressEvent, 'url' | 'title' | 'reason' | 'count'>> = {},
+    ) => {
+      void this.progress.publish({
+        type,
+        jobId,
+        ...details,
+        progress: currentProgress(),
+        at: new Date().toISOString(),
+      });
+    };
+    const skip = async (url: string, reason: string) => {
+      pagesSkipped++;
+      await this.recordSkippedPage(jobId, url, reason);
+      emit('skipped', { url, reason });
+    };
 
-          const contentType = response.headers.get('content-type') || '';
-          if (!contentType.includes('text/html')) {
-            this.logger.debug(`Skipping non-HTML page: ${normalizedUrl}`);
-            continue;
-          }
+    await this.progress.clear(jobId);
+    emit('started', { url: job.url });
 
-          const html = await response.text();
-          const $ = cheerio.load(html);
+    try {
+      const robots = await this.loadRobots(job.url);
+      // The stricter of the job's own delay and robots.txt Crawl-delay
+      const rateLimiter = new HostRateLimiter(
+        Math.max(job.requestDelayMs, this.crawlDelayMs(robots)),
+      );
 
-          // Remove non-content elements
-          $(
-            'script, style, nav, footer, header, noscript, iframe, svg',
-          ).remove();
+      // Seed from the sitemap(s): the job URL itself for sitemap jobs,
+      // otherwise the ones robots.txt advertises (or /sitemap.xml). The
+      // start page is always fetched so its links can be followed, even
+      // when the URL filters exclude it.
+      if (job.pageType === PageType.SITEMAP) {
+        const urls = await this.discoverSitemapUrls([job.url], job.url);
+        const count = urls.filter((url) => enqueue(url, 0)).length;
+        emit('discovered', { url: job.url, count });
+      } else {
+        queue.push({ url: seedUrl, depth: 0 });
+        discovered.add(seedUrl);
+        const sitemaps = robots.sitemaps.length
+          ? robots.sitemaps
+          : [new URL('/sitemap.xml', job.url).toString()];
+        const urls = await this.discoverSitemapUrls(sitemaps, job.url);
+        const count = urls.filter((url) => enqueue(url, 0)).length;
+        if (count > 0) emit('discovered', { url: sitemaps[0], count });
+      }
 
-          const title =
-            $('title').first().text().trim() ||
-            $('h1').first().text().trim() ||
-            null;
+      const crawlItem = async (item: CrawlItem) => {
+        const { url } = item;
 
-          const textContent = $('body')
-            .text()
-            .replace(/\s+/g, ' ')
-            .trim();
+        if (!robots.isAllowed(url)) {
+          await skip(url, 'Disallowed by robots.txt');
+          return;
+        }
 
-          if (!textContent) {
-            this.logger.debug(`No text content on ${normalizedUrl}`);
-            continue;
-          }
+        const excluded = !filter.matches(url);
+        if (!excluded) pagesFound++;
 
-          const contentHash = createHash('sha256')
-            .update(textContent)
-            .digest('hex');
+        await rateLimiter.acquire(url);
 
-          // Store the crawled page
-          await this.prisma.crawledPage.create({
-            data: {
-              id: randomUUID(),
-              jobId,
-              url: normalizedUrl,
-              title,
-              pageType: PageType.HTML,
-              status: CrawlStatus.COMPLETED,
-              storagePath: textContent, // store text content directly
-              contentHash,
-            },
-          });
+        try {
+          const fetched = await this.fetchPage(url, job);
+
+          if (excluded) {
+            await skip(url, 'Excluded by URL filters');
+          } else {
+            // Store the crawled page
+            await this.prisma.crawledPage.create({
+              data: {
+                id: randomUUID(),
+                jobId,
+                url,
+                title: fetched.title,
+                pageType: fetched.pageType,
+                status: CrawlStatus.COMPLETED,
+                storagePath: fetched.textContent, // store text content directly
+                contentHash: fetched.contentHash,
+              },
+            });
 
-          pagesCrawled++;
+            pagesCrawled++;
+            emit('fetched', { url, title: fetched.title });
 
-          // Update job counters periodically
-          if (pagesCrawled % 5 === 0) {
-            await this.prisma.crawlJob.update({
-              where: { id: jobId },
-              data: { pagesFound, pagesCrawled, pagesFailed },
-            });
+            // Update job counters periodically
+            if (pagesCrawled % 5 === 0) {
+              await this.prisma.crawlJob.update({
+                where: { id: jobId },
+                data: { pagesFound, pagesCrawled, pagesFailed, pagesSkipped },
+              });
+            }
           }
 
-          // Extract links for further crawling if within depth
+          // Queue discovered links for further crawling if within depth
           if (item.depth < maxDepth && pagesCrawled < limit) {
-            const baseUrl = new URL(normalizedUrl);
-            $('a[href]').each((_, el) => {
-              try {
-                const href = $(el).attr('href');
-                if (!href) return;
-
-                const resolved = new URL(href, normalizedUrl);
-                // Only crawl same-origin links
-                if (resolved.origin !== baseUrl.origin) return;
-                // Skip anchors, mailto, tel, javascript
-                if (
-                  resolved.protocol !== 'http:' &&
-                  resolved.protocol !== 'https:'
-                )
-                  return;
-
-                // Remove hash fragments
-                resolved.hash = '';
-                const resolvedStr = resolved.toString();
-
-                if (!visited.has(this.normalizeUrl(resolvedStr))) {
-                  queue.push({ url: resolvedStr, depth: item.depth + 1 });
-                }
-              } catch {
-                // Invalid URL, skip
-              }
-            });
+            const count = fetched.links.filter((link) =>
+              enqueue(link, item.depth + 1),
+            ).length;
+            if (count > 0) emit('discovered', { url, count });
           }
         } catch (err) {
+          if (err instanceof PageSkippedError) {
+            await skip(url, err.message);
+            return;
+          }
+
           pagesFailed++;
           const errorMessage =
             err instanceof Error ? err.message : 'Unknown error';
@@ -413,17 +710,73 @@ export class CrawlService {
             data: {
               id: randomUUID(),
               jobId,
-              url: normalizedUrl,
-              pageType: PageType.HTML,
+              url,
+              pageType: this.guessPageType(url),
               status: CrawlStatus.FAILED,
               errorMessage,
             },
           });
+          emit('failed', { url, reason: errorMessage });
 
-          this.logger.warn(
-            `Failed to crawl ${normalizedUrl}: ${errorMessage}`,
-          );
+          this.logger.warn(`Failed to crawl ${url}: ${errorMessage}`);
+        }
+      };
+
+      // Up to maxConcurrency workers share the queue. In-flight pages count
+      // against the limit so concurrent fetches never overshoot it.
+      const worker = async () => {
+        while (!cancelled) {
+          const item =
+            pagesCrawled + inFlight < limit ? queue.shift() : undefined;
+
+          if (!item) {
+            // Done once nothing is queued or in flight (or the limit is hit)
+            if (inFlight === 0) return;
+            await sleep(WORKER_POLL_MS);
+            continue;
+          }
+
+          if (visited.has(item.url)) continue;
+          visited.add(item.url);
+
+          // Re-check for cancellation periodically
+          if (++dequeued % 10 === 0) {
+            const current = await this.prisma.crawlJob.findUnique({
+              where: { id: jobId },
+              select: { status: true },
+            });
+            if (current?.status === CrawlStatus.CANCELLED) {
+              this.logger.log(`Crawl job ${jobId} cancelled mid-crawl`);
+              cancelled = true;
+              return;
+            }
+          }
+
+          inFlight++;
+          try {
+            await crawlItem(item);
+          } finally {
+            inFlight--;
+          }
         }
+      };
+
+      await Promise.all(
+        Array.from({ length: Math.max(1, job.maxConcurrency) }, () => worker()),
+      );
+
+      if (cancelled) {
+        // Keep the CANCELLED status; just record how far the crawl got
+        await this.prisma.crawlJob.update({
+          where: { id: jobId },
+          data: { pagesFound, pagesCrawled, pagesFailed, pagesSkipped },
+        });
+        emit('cancelled');
+        return;
+      }
+
+      if (job.extractionMode === ExtractionMode.READABILITY) {
+        await this.dedupeBoilerplate(jobId);
       }
 
       await this.prisma.crawlJob.update({
@@ -433,12 +786,15 @@ export class CrawlService {
           pagesFound,
           pagesCrawled,
           pagesFailed,
+          pagesSkipped,
           completedAt: new Date(),
         },
       });
 
+      emit('completed');
+
       this.logger.log(
-        `Crawl job ${jobId} completed: ${pagesCrawled} pages crawled, ${pagesFailed} failed`,
+        `Crawl job ${jobId} completed: ${pagesCrawled} pages crawled, ${pagesFailed} failed, ${pagesSkipped} skipped`,
       );
     } catch (err) {
       const errorMessage =
@@ -451,10 +807,12 @@ export class CrawlService {
           pagesFound,
           pagesCrawled,
           pagesFailed,
+          pagesSkipped,
           errorMessage,
           completedAt: new Date(),
         },
       });
+      emit('error', { reason: errorMessage });
 
       this.logger.error(`Crawl job ${jobId} failed: ${errorMessage}`);
       throw err;
@@ -462,12 +820,567 @@ export class CrawlService {
   }
 
   /**
-   * Normalize a URL by removing trailing slashes and lowercasing the host.
+   * Re-fetch every known page of a crawl job and diff it against the
+   * stored content hash. Changed pages that were trained are re-embedded,
+   * pages that now 404/410 are removed along with their embeddings, and
+   * new same-origin links are added (and trained, if the job already has
+   * trained pages) up to the job's page limit.
+   */
+  async processRefresh(refreshId: string): Promise<void> {
+    const refresh = await this.prisma.crawlRefresh.findUnique({
+      where: { id: refreshId },
+      include: { job: true },
+    });
+
+    if (!refresh) {
+      this.logger.error(`Crawl refresh ${refreshId} not found`);
+      return;
+    }
+
+    const { job } = refresh;
+    await this.prisma.crawlRefresh.update({
+      where: { id: refreshId },
+      data: { status: CrawlStatus.PROCESSING, startedAt: new Date() },
+    });
+
+    const details: RefreshDetails = {
+      added: [],
+      changed: [],
+      removed: [],
+      failed: [],
+    };
+    let pagesUnchanged = 0;
+
+    try {
+      const allPages = await this.prisma.crawledPage.findMany({
+        where: { jobId: job.id },
+      });
+      const knownPages = allPages.filter(
+        (p) => p.status === CrawlStatus.COMPLETED,
+      );
+      const trainNewPages = knownPages.some((p) => p.isSelected);
+      const seen = new Set(allPages.map((p) => p.url));
+      const discovered: string[] = [];
+      const robots = await this.loadRobots(job.url);
+      const rateLimiter = new HostRateLimiter(
+        Math.max(job.requestDelayMs, this.crawlDelayMs(robots)),
+      );
+      const filter = new UrlFilter(job);
+
+      for (const page of knownPages) {
+        if (!robots.isAllowed(page.url)) {
+          // Leave the page and its embeddings alone rather than re-fetch it
+          details.failed.push({ url: page.url, error: 'Disallowed by robots.txt' });
+          continue;
+        }
+
+        try {
+          await rateLimiter.acquire(page.url);
+          const fetched = await this.fetchPage(page.url, job);
+          discovered.push(...fetched.links);
+
+          if (fetched.contentHash === page.contentHash) {
+            pagesUnchanged++;
+            continue;
+          }
+
+          const content = this.withoutBoilerplate(fetched, job.boilerplateHashes);
+
+          // Embed before saving the new hash: if embedding fails, the old
+          // chunks stay and the next refresh sees the page as changed again
+          if (page.isSelected) {
+            await this.embeddingService.replaceEmbeddings(
+              job.chatbotId,
+              SourceType.CRAWL,
+              page.id,
+              [content],
+            );
+          }
+
+          await this.prisma.crawledPage.update({
+            where: { id: page.id },
+            data: {
+              title: fetched.title,
+              pageType: fetched.pageType,
+              storagePath: content,
+              contentHash: fetched.contentHash,
+              ...(page.isSelected && { trainingStatus: TrainingStatus.TRAINED }),
+            },
+          });
+
+          details.changed.push(page.url);
+        } catch (err) {
+          if (
+            err instanceof PageSkippedError ||
+            (err instanceof PageFetchError &&
+              (err.status === 404 || err.status === 410))
+          ) {
+            // Gone, or no longer an HTML page with content
+            await this.removePage(job.chatbotId, page.id);
+            details.removed.push(page.url);
+          } else {
+            // Transient failures keep the page and its embeddings as-is
+            details.failed.push({
+              url: page.url,
+              error: err instanceof Error ? err.message : 'Unknown error',
+            });
+          }
+        }
+      }
+
+      // Pick up pages linked from the refreshed ones that weren't known
+      const limit = job.confirmedLimit ?? 50;
+      let pageCount = knownPages.length - details.removed.length;
+      const queue = [...discovered];
+
+      while (queue.length > 0 && pageCount < limit) {
+        const url = this.normalizeUrl(queue.shift()!, job.stripQueryParams);
+        if (seen.has(url)) continue;
+        seen.add(url);
+        if (!filter.matches(url) || !robots.isAllowed(url)) continue;
+
+        try {
+          await rateLimiter.acquire(url);
+          const fetched = await this.fetchPage(url, job);
+          const content = this.withoutBoilerplate(fetched, job.boilerplateHashes);
+
+          const page = await this.prisma.crawledPage.create({
+            data: {
+              id: randomUUID(),
+              jobId: job.id,
+              url,
+              title: fetched.title,
+              pageType: fetched.pageType,
+              status: CrawlStatus.COMPLETED,
+              storagePath: content,
+              contentHash: fetched.contentHash,
+              isSelected: trainNewPages,
+            },
+          });
+
+          if (trainNewPages) {
+            await this.embeddingService.storeEmbeddings(
+              job.chatbotId,
+              SourceType.CRAWL,
+              page.id,
+              [content],
+            );
+            await this.prisma.crawledPage.update({
+              where: { id: page.id },
+              data: { trainingStatus: TrainingStatus.TRAINED },
+            });
+          }
+
+          details.added.push(url);
+          pageCount++;
+          queue.push(...fetched.links);
+        } catch (err) {
+          this.logger.debug(
+            `Skipping new page ${url}: ${err instanceof Error ? err.message : err}`,
+          );
+        }
+      }
+
+      const pagesCrawled = await this.prisma.crawledPage.count({
+        where: { jobId: job.id, status: CrawlStatus.COMPLETED },
+      });
+
+      await this.prisma.$transaction([
+        this.prisma.crawlJob.update({
+          where: { id: job.id },
+          data: { pagesCrawled },
+        }),
+        this.prisma.crawlRefresh.update({
+          where: { id: refreshId },
+          data: {
+            status: CrawlStatus.COMPLETED,
+            pagesAdded: details.added.length,
+            pagesChanged: details.changed.length,
+            pagesRemoved: details.removed.length,
+            pagesUnchanged,
+            pagesFailed: details.failed.length,
+            details: { ...details },
+            completedAt: new Date(),
+          },
+        }),
+      ]);
+
+      this.logger.log(
+        `Crawl refresh ${refreshId} completed: ${details.added.length} added, ${details.changed.length} changed, ${details.removed.length} removed, ${pagesUnchanged} unchanged, ${details.failed.length} failed`,
+      );
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : 'Unknown error';
+
+      await this.prisma.crawlRefresh.update({
+        where: { id: refreshId },
+        data: {
+          status: CrawlStatus.FAILED,
+          errorMessage,
+          completedAt: new Date(),
+        },
+      });
+
+      this.logger.error(`Crawl refresh ${refreshId} failed: ${errorMessage}`);
+      throw err;
+    }
+  }
+
+  /**
+   * Strip blocks repeated across most pages of the job (cookie notices,
+   * feedback prompts, menus that survived extraction) from its stored
+   * page content, and remember their fingerprints so refreshes strip the
+   * same blocks. Content hashes keep describing the raw page, so change
+   * detection is unaffected.
+   */
+  private async dedupeBoilerplate(jobId: string): Promise<void> {
+    const pages = await this.prisma.crawledPage.findMany({
+      where: { jobId, status: CrawlStatus.COMPLETED, pageType: PageType.HTML },
+      select: { id: true, storagePath: true },
+    });
+
+    const fingerprints = findBoilerplate(
+      pages.map((page) => page.storagePath ?? ''),
+    );
+    if (fingerprints.length === 0) return;
+
+    let updated = 0;
+    for (const page of pages) {
+      if (!page.storagePath) continue;
+      const cleaned = removeBoilerplate(page.storagePath, fingerprints);
+      // Keep pages that are nothing but boilerplate as they were
+      if (!cleaned || cleaned === page.storagePath) continue;
+
+      await this.prisma.crawledPage.update({
+        where: { id: page.id },
+        data: { storagePath: cleaned },
+      });
+      updated++;
+    }
+
+    await this.prisma.crawlJob.update({
+      where: { id: jobId },
+      data: { boilerplateHashes: fingerprints },
+    });
+
+    this.logger.log(
+      `Removed ${fingerprints.length} boilerplate block(s) from ${updated} page(s) of crawl job ${jobId}`,
+    );
+  }
+
+  private withoutBoilerplate(fetched: FetchedPage, fingerprints: string[]): string {
+    if (fetched.pageType !== PageType.HTML) return fetched.textContent;
+    return removeBoilerplate(fetched.textContent, fingerprints) || fetched.textContent;
+  }
+
+  /**
+   * Delete a crawled page and any embeddings trained from it.
+   */
+  private async removePage(chatbotId: string, pageId: string): Promise<void> {
+    await this.embeddingService.deleteBySource(
+      chatbotId,
+      SourceType.CRAWL,
+      pageId,
+    );
+    await this.prisma.crawledPage.delete({ where: { id: pageId } });
+  }
+
+  /**
+   * Record a URL the crawler deliberately did not crawl, with the reason.
+   */
+  private async recordSkippedPage(
+    jobId: string,
+    url: string,
+    skipReason: string,
+  ): Promise<void> {
+    await this.prisma.crawledPage.create({
+      data: {
+        id: randomUUID(),
+        jobId,
+        url,
+        pageType: this.guessPageType(url),
+        status: CrawlStatus.SKIPPED,
+        skipReason,
+      },
+    });
+    this.logger.debug(`Skipped ${url}: ${skipReason}`);
+  }
+
+  /**
+   * Fetch and parse the site's robots.txt. A missing or unreachable file
+   * means everything may be crawled.
+   */
+  private async loadRobots(siteUrl: string): Promise<RobotsRules> {
+    const robotsUrl = new URL('/robots.txt', siteUrl).toString();
+
+    try {
+      const response = await fetch(robotsUrl, {
+        headers: { 'User-Agent': CRAWLER_USER_AGENT },
+        signal: AbortSignal.timeout(10_000),
+      });
+
+      if (!response.ok) {
+        this.logger.debug(`No robots.txt at ${robotsUrl} (HTTP ${response.status})`);
+        return RobotsRules.allowAll();
+      }
+
+      return parseRobotsTxt(await response.text());
+    } catch (err) {
+      this.logger.warn(
+        `Could not fetch ${robotsUrl}, crawling without restrictions: ${err instanceof Error ? err.message : err}`,
+      );
+      return RobotsRules.allowAll();
+    }
+  }
+
+  private crawlDelayMs(robots: RobotsRules): number {
+    if (!robots.crawlDelay) return 0;
+    return Math.min(robots.crawlDelay, MAX_CRAWL_DELAY_SECONDS) * 1000;
+  }
+
+  /**
+   * Collect same-origin page URLs from sitemaps, following sitemap
+   * indexes and gunzipping compressed sitemaps. Sitemaps that fail to
+   * load are skipped.
+   */
+  private async discoverSitemapUrls(
+    sitemapUrls: string[],
+    siteUrl: string,
+  ): Promise<string[]> {
+    const origin = new URL(siteUrl).origin;
+    const pending = [...sitemapUrls];
+    const fetched = new Set<string>();
+    const urls = new Set<string>();
+
+    while (
+      pending.length > 0 &&
+      fetched.size < MAX_SITEMAP_FILES &&
+      urls.size < MAX_SITEMAP_URLS
+    ) {
+      const sitemapUrl = pending.shift()!;
+      if (fetched.has(sitemapUrl)) continue;
+      fetched.add(sitemapUrl);
+
+      try {
+        const response = await fetch(sitemapUrl, {
+          headers: { 'User-Agent': CRAWLER_USER_AGENT },
+          signal: AbortSignal.timeout(15_000),
+        });
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status} ${response.statusText}`);
+        }
+
+        const body = await readSitemapBody(response);
+        const sitemap = parseSitemap(decodeSitemapBody(body));
+
+        pending.push(...sitemap.sitemaps);
+        for (const url of sitemap.urls) {
+          try {
+            if (new URL(url).origin !== origin) continue;
+          } catch {
+            continue;
+          }
+          urls.add(this.normalizeUrl(url));
+          if (urls.size >= MAX_SITEMAP_URLS) break;
+        }
+      } catch (err) {
+        this.logger.debug(
+          `Skipping sitemap ${sitemapUrl}: ${err instanceof Error ? err.message : err}`,
+        );
+      }
+    }
+
+    if (urls.size > 0) {
+      this.logger.log(
+        `Discovered ${urls.size} URLs from ${fetched.size} sitemap(s) for ${origin}`,
+      );
+    }
+    return [...urls];
+  }
+
+  /**
+   * Fetch a single page through the job's crawl provider and extract its
+   * title, text, content hash and same-origin links. HTML (rendered, for
+   * the browser-based providers) is parsed directly; linked PDFs, office
+   * documents and plain-text files go through the file-training text
+   * extractors. Throws PageSkippedError for unsupported responses and
+   * pages without text, and PageFetchError for non-2xx responses.
+   */
+  private async fetchPage(
+    url: string,
+    settings: PageFetchSettings,
+  ): Promise<FetchedPage> {
+    const response = await this.getProvider(settings.provider).fetch(url, {
+      waitForSelector: settings.waitForSelector,
+      timeoutMs: PAGE_TIMEOUT_MS,
+    });
+
+    if (response.status < 200 || response.status >= 300) {
+      await response.discard();
+      throw new PageFetchError(
+        response.status,
+        `HTTP ${response.status} ${response.statusText}`.trim(),
+      );
+    }
+
+    const { contentType } = response;
+    if (contentType.includes('text/html')) {
+      return this.parseHtmlPage(url, await response.text(), settings.extractionMode);
+    }
+
+    const pageType = this.textExtractor.detectPageType(
+      new URL(url).pathname,
+      contentType,
+    );
+    if (!pageType) {
+      await response.discard();
+      throw new PageSkippedError(
+        `Unsupported content type: ${contentType.split(';')[0] || 'unknown'}`,
+      );
+    }
+
+    return this.extractDocument(url, pageType, response);
+  }
+
+  /**
+   * Download a linked document and extract its text with the same
+   * extractors used for uploaded training files.
+   */
+  private async extractDocument(
+    url: string,
+    pageType: PageType,
+    response: CrawlResponse,
+  ): Promise<FetchedPage> {
+    const tooLarge = `Document larger than ${MAX_TRAINING_FILE_SIZE_BYTES / (1024 * 1024)} MB`;
+
+    if ((response.contentLength ?? 0) > MAX_TRAINING_FILE_SIZE_BYTES) {
+      await response.discard();
+      throw new PageSkippedError(tooLarge);
+    }
+
+    const buffer = await response.buffer();
+    if (buffer.length > MAX_TRAINING_FILE_SIZE_BYTES) {
+      throw new PageSkippedError(tooLarge);
+    }
+
+    const textContent = await this.textExtractor.extract(buffer, pageType);
+    if (!textContent) {
+      throw new PageSkippedError('No extractable text in document');
+    }
+
+    const fileName = new URL(url).pathname.split('/').filter(Boolean).pop();
+    let title = fileName ?? null;
+    try {
+      if (fileName) title = decodeURIComponent(fileName);
+    } catch {
+      // Malformed escape sequence; keep the raw file name
+    }
+
+    return {
+      url,
+      pageType,
+      title,
+      textContent,
+      contentHash: createHash('sha256').update(textContent).digest('hex'),
+      links: [],
+    };
+  }
+
+  /**
+   * Best-effort page type for a URL that was not (successfully) fetched.
+   */
+  private guessPageType(url: string): PageType {
+    try {
+      return (
+        this.textExtractor.detectPageType(new URL(url).pathname) ??
+        PageType.HTML
+      );
+    } catch {
+      return PageType.HTML;
+    }
+  }
+
+  private parseHtmlPage(
+    url: string,
+    html: string,
+    extractionMode: ExtractionMode,
+  ): FetchedPage {
+    const $ = cheerio.load(html);
+
+    // Remove non-content elements
+    $(
+      'script, style, nav, footer, header, noscript, iframe, svg',
+    ).remove();
+
+    const title =
+      $('title').first().text().trim() ||
+      $('h1').first().text().trim() ||
+      null;
+
+    // Collect links before main-content extraction prunes the document
+    const baseUrl = new URL(url);
+    const links: string[] = [];
+    $('a[href]').each((_, el) => {
+      try {
+        const href = $(el).attr('href');
+        if (!href) return;
+
+        const resolved = new URL(href, url);
+        // Only crawl same-origin links
+        if (resolved.origin !== baseUrl.origin) return;
+        // Skip anchors, mailto, tel, javascript
+        if (
+          resolved.protocol !== 'http:' &&
+          resolved.protocol !== 'https:'
+        )
+          return;
+
+        // Remove hash fragments
+        resolved.hash = '';
+        links.push(resolved.toString());
+      } catch {
+        // Invalid URL, skip
+      }
+    });
+
+    const bodyText = $('body')
+      .text()
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    // Fall back to the whole body if no main content could be found
+    const textContent =
+      (extractionMode === ExtractionMode.READABILITY &&
+        extractMainContent($)) ||
+      bodyText;
+
+    if (!textContent) {
+      throw new PageSkippedError('No text content');
+    }
+
+    const contentHash = createHash('sha256')
+      .update(textContent)
+      .digest('hex');
+
+    return {
+      url,
+      pageType: PageType.HTML,
+      title,
+      textContent,
+      contentHash,
+      links,
+    };
+  }
+
+  /**
+   * Normalize a URL by removing trailing slashes and lowercasing the host,
+   * and strip the job's configured query parameters.
    */
-  private normalizeUrl(rawUrl: string): string {
+  private normalizeUrl(rawUrl: string, stripParams: string[] = []): string {
     try {
       const parsed = new URL(rawUrl);
       parsed.hash = '';
+      stripQueryParams(parsed, stripParams);
       // Remove trailing slash for consistency (unless it's just the root)
       let str = parsed.toString();
       if (str.endsWith('/') && parsed.pathname !== '/') {
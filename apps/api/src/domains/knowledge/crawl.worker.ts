@@ -3,6 +3,12 @@ import { Logger } from '@nestjs/common';
 import { Job } from 'bullmq';
 import { CrawlService } from './crawl.service';
 
+interface CrawlJobData {
+  jobId: string;
+  /** Set for 'refresh' jobs */
+  refreshId?: string;
+}
+
 @Processor('crawl-queue')
 export class CrawlWorker extends WorkerHost {
   private readonly logger = new Logger(CrawlWorker.name);
@@ -11,11 +17,15 @@ export class CrawlWorker extends WorkerHost {
     super();
   }
 
-  async process(job: Job<{ jobId: string }>): Promise<void> {
-    this.logger.log(`Processing crawl job ${job.data.jobId} (attempt ${job.attemptsMade + 1})`);
+  async process(job: Job<CrawlJobData>): Promise<void> {
+    this.logger.log(`Processing ${job.name} for crawl job ${job.data.jobId} (attempt ${job.attemptsMade + 1})`);
 
     try {
-      await this.crawlService.processCrawlJob(job.data.jobId);
+      if (job.name === 'refresh' && job.data.refreshId) {
+        await this.crawlService.processRefresh(job.data.refreshId);
+      } else {
+        await this.crawlService.processCrawlJob(job.data.jobId);
+      }
       this.logger.log(`Crawl job ${job.data.jobId} processed successfully`);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Unknown error';
@@ -0,0 +1,102 @@
+import { createHash } from 'crypto';
+
+export interface BoilerplateOptions {
+  /** A block must appear on at least this many pages */
+  minPages?: number;
+  /** ...and on at least this share of the job's pages */
+  minShare?: number;
+}
+
+/**
+ * Fingerprint a markdown block so near-identical copies (differing only
+ * in case, punctuation or whitespace) collide.
+ */
+export function blockFingerprint(block: string): string {
+  const normalized = block
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+  return createHash('sha1').update(normalized).digest('hex');
+}
+
+/**
+ * Find blocks repeated across many pages of a crawl (cookie notices,
+ * "was this helpful?" prompts, repeated menus that survived extraction).
+ * Headings and code fences are never treated as boilerplate.
+ */
+export function findBoilerplate(
+  documents: string[],
+  { minPages = 3, minShare = 0.3 }: BoilerplateOptions = {},
+): string[] {
+  const counts = new Map<string, number>();
+
+  for (const document of documents) {
+    const seen = new Set<string>();
+    for (const block of splitBlocks(document)) {
+      if (!isCandidate(block)) continue;
+      seen.add(blockFingerprint(block));
+    }
+    for (const fingerprint of seen) {
+      counts.set(fingerprint, (counts.get(fingerprint) ?? 0) + 1);
+    }
+  }
+
+  const threshold = Math.max(minPages, Math.ceil(documents.length * minShare));
+  return [...counts]
+    .filter(([, count]) => count >= threshold)
+    .map(([fingerprint]) => fingerprint);
+}
+
+/**
+ * Drop boilerplate blocks from a markdown document.
+ */
+export function removeBoilerplate(
+  markdown: string,
+  fingerprints: Iterable<string>,
+): string {
+  const boilerplate = new Set(fingerprints);
+  if (boilerplate.size === 0) return markdown;
+
+  return splitBlocks(markdown)
+    .filter((block) => !isCandidate(block) || !boilerplate.has(blockFingerprint(block)))
+    .join('\n\n');
+}
+
+/**
+ * Split markdown on blank lines, keeping each fenced code block (blank
+ * lines included) whole.
+ */
+function splitBlocks(markdown: string): string[] {
+  const blocks: string[] = [];
+  let lines: string[] = [];
+  let fence: string | null = null;
+
+  const flush = () => {
+    const block = lines.join('\n').trim();
+    if (block) blocks.push(block);
+    lines = [];
+  };
+
+  for (const line of markdown.split('\n')) {
+    const marker = /^ {0,3}(`{3,}|~{3,})/.exec(line)?.[1];
+    if (fence) {
+      // Closed by a fence of the same kind, at least as long
+      if (marker && marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = null;
+      }
+    } else if (marker) {
+      fence = marker;
+    } else if (!line.trim()) {
+      flush();
+      continue;
+    }
+    lines.push(line);
+  }
+  flush();
+
+  return blocks;
+}
+
+function isCandidate(block: string): boolean {
+  return !block.startsWith('#') && !block.includes('```') && !block.includes('~~~');
+}
@@ -0,0 +1,296 @@
+import type { CheerioAPI } from 'cheerio';
+import { AnyNode, Element, isTag, isText } from 'domhandler';
+
+/** Elements that never hold article content */
+const NOISE_SELECTORS = [
+  'aside',
+  'form',
+  'button',
+  'dialog',
+  '[role="navigation"]',
+  '[role="banner"]',
+  '[role="contentinfo"]',
+  '[role="complementary"]',
+  '[role="dialog"]',
+  '[aria-hidden="true"]',
+  '[hidden]',
+].join(', ');
+
+/** class/id hints for chrome such as cookie banners, sidebars and menus */
+const NEGATIVE_HINTS =
+  /cookie|consent|gdpr|banner|sidebar|side-bar|breadcrumb|menu|navbar|share|social|newsletter|subscribe|popup|modal|advert|\bads?\b|promo|related|comment|skip-link|pagination|footer|header/i;
+const POSITIVE_HINTS = /article|content|main|post|entry|body|text|docs?|prose|markdown/i;
+
+/**
+ * Containers pruned on a negative hint. Inline elements and table rows
+ * are left alone: syntax highlighters tag code with classes like
+ * `token comment`, and tables name rows `table-header`.
+ */
+const PRUNABLE_TAGS = [
+  'div', 'section', 'aside', 'nav', 'header', 'footer', 'ul', 'ol', 'dl',
+  'form', 'dialog',
+];
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'dd', 'details', 'div', 'dl', 'dt', 'figcaption',
+  'figure', 'footer', 'header', 'main', 'p', 'section', 'summary', 'tr',
+]);
+
+const SKIPPED_TAGS = new Set([
+  'img', 'hr', 'input', 'select', 'textarea', 'button', 'svg', 'canvas',
+  'video', 'audio', 'picture', 'source', 'template',
+]);
+
+/** Minimum text length for a semantic container to be trusted as-is */
+const MIN_MAIN_TEXT_LENGTH = 200;
+
+/**
+ * Readability-style extraction: strip page chrome, locate the element
+ * that holds the main content and render it as markdown, keeping
+ * headings, lists, tables and code blocks so the markdown chunker can
+ * split along them. Mutates the document.
+ */
+export function extractMainContent($: CheerioAPI): string {
+  $(NOISE_SELECTORS).remove();
+
+  const prunable = PRUNABLE_TAGS.flatMap((tag) => [`${tag}[class]`, `${tag}[id]`]);
+  $(prunable.join(', ')).each((_, el) => {
+    if ($(el).closest('pre, code, table').length > 0) return;
+    const hints = `${$(el).attr('class') ?? ''} ${$(el).attr('id') ?? ''}`;
+    if (NEGATIVE_HINTS.test(hints) && !POSITIVE_HINTS.test(hints)) {
+      $(el).remove();
+    }
+  });
+
+  const root = findMainContent($);
+  return root ? normalizeMarkdown(render(root, 0)) : '';
+}
+
+/**
+ * Prefer an explicit `<main>`/`<article>`; otherwise score containers by
+ * the paragraphs they hold, penalising link-heavy blocks.
+ */
+function findMainContent($: CheerioAPI): Element | null {
+  for (const selector of ['main', '[role="main"]', 'article']) {
+    const matches = $(selector);
+    const el = matches.get(0);
+    if (
+      matches.length === 1 &&
+      el &&
+      isTag(el) &&
+      matches.text().trim().length >= MIN_MAIN_TEXT_LENGTH
+    ) {
+      return el;
+    }
+  }
+
+  const scores = new Map<Element, number>();
+  const addScore = (el: Element | null, score: number) => {
+    if (!el || el.name === 'html') return;
+    scores.set(el, (scores.get(el) ?? initialScore($, el)) + score);
+  };
+
+  $('p, pre, td, li').each((_, el) => {
+    const text = $(el).text().trim();
+    if (text.length < 25) return;
+
+    const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+    const parent = el.parent && isTag(el.parent) ? el.parent : null;
+    const grandparent = parent?.parent && isTag(parent.parent) ? parent.parent : null;
+    addScore(parent, score);
+    addScore(grandparent, score / 2);
+  });
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  for (const [el, score] of scores) {
+    const adjusted = score * (1 - linkDensity($, el));
+    if (adjusted > bestScore) {
+      best = el;
+      bestScore = adjusted;
+    }
+  }
+
+  const body = $('body').get(0);
+  return best ?? (body && isTag(body) ? body : null);
+}
+
+function initialScore($: CheerioAPI, el: Element): number {
+  let score = 0;
+  const hints = `${$(el).attr('class') ?? ''} ${$(el).attr('id') ?? ''}`;
+  if (POSITIVE_HINTS.test(hints)) score += 25;
+  if (NEGATIVE_HINTS.test(hints)) score -= 25;
+
+  switch (el.name) {
+    case 'article':
+    case 'main':
+    case 'div':
+      return score + 5;
+    case 'pre':
+    case 'td':
+    case 'blockquote':
+      return score + 3;
+    case 'ol':
+    case 'ul':
+    case 'form':
+      return score - 3;
+    default:
+      return /^h[1-6]$/.test(el.name) ? score - 5 : score;
+  }
+}
+
+function linkDensity($: CheerioAPI, el: Element): number {
+  const textLength = $(el).text().length;
+  if (textLength === 0) return 0;
+  const linkLength = $(el).find('a').text().length;
+  return Math.min(linkLength / textLength, 1);
+}
+
+// ---------------------------------------------------------------------------
+// Markdown rendering
+// ---------------------------------------------------------------------------
+
+function render(node: AnyNode, listDepth: number): string {
+  if (isText(node)) return node.data.replace(/\s+/g, ' ');
+  if (!isTag(node)) return '';
+
+  const tag = node.name.toLowerCase();
+  if (SKIPPED_TAGS.has(tag)) return '';
+
+  const heading = /^h([1-6])$/.exec(tag);
+  if (heading) {
+    const text = inlineText(node);
+    return text ? `\n\n${'#'.repeat(Number(heading[1]))} ${text}\n\n` : '';
+  }
+
+  switch (tag) {
+    case 'br':
+      return '\n';
+    case 'ul':
+    case 'ol':
+      return `\n\n${renderList(node, tag === 'ol', listDepth)}\n\n`;
+    case 'pre': {
+      const code = rawText(node).replace(/^\n+|\s+$/g, '');
+      return code ? `\n\n\`\`\`\n${code}\n\`\`\`\n\n` : '';
+    }
+    case 'code': {
+      const code = rawText(node).replace(/\s+/g, ' ').trim();
+      return code ? `\`${code}\`` : '';
+    }
+    case 'blockquote': {
+      const inner = normalizeMarkdown(renderChildren(node, listDepth));
+      return inner
+        ? `\n\n${inner.split('\n').map((line) => `> ${line}`.trimEnd()).join('\n')}\n\n`
+        : '';
+    }
+    case 'table':
+      return `\n\n${renderTable(node, listDepth)}\n\n`;
+    default: {
+      const inner = renderChildren(node, listDepth);
+      return BLOCK_TAGS.has(tag) ? `\n\n${inner}\n\n` : inner;
+    }
+  }
+}
+
+function renderChildren(node: Element, listDepth: number): string {
+  return node.children.map((child) => render(child, listDepth)).join('');
+}
+
+function inlineText(node: Element): string {
+  return renderChildren(node, 0).replace(/\s+/g, ' ').trim();
+}
+
+function rawText(node: AnyNode): string {
+  if (isText(node)) return node.data;
+  if (!isTag(node)) return '';
+  if (node.name === 'br') return '\n';
+  return node.children.map(rawText).join('');
+}
+
+function renderList(node: Element, ordered: boolean, depth: number): string {
+  const indent = '  '.repeat(depth);
+  const lines: string[] = [];
+  let index = 0;
+
+  for (const item of node.children) {
+    if (!isTag(item) || item.name !== 'li') continue;
+    index++;
+
+    const nested: string[] = [];
+    const content = item.children
+      .map((child) => {
+        if (isTag(child) && (child.name === 'ul' || child.name === 'ol')) {
+          nested.push(renderList(child, child.name === 'ol', depth + 1));
+          return ' ';
+        }
+        return render(child, depth + 1);
+      })
+      .join('')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    if (content) {
+      lines.push(`${indent}${ordered ? `${index}.` : '-'} ${content}`);
+    }
+    lines.push(...nested.filter(Boolean));
+  }
+
+  return lines.join('\n');
+}
+
+function renderTable(table: Element, listDepth: number): string {
+  const rows: string[][] = [];
+  const collectRows = (node: Element) => {
+    for (const child of node.children) {
+      if (!isTag(child) || child.name === 'table') continue;
+      if (child.name === 'tr') {
+        rows.push(
+          child.children
+            .filter((cell): cell is Element => isTag(cell) && (cell.name === 'td' || cell.name === 'th'))
+            .map((cell) => inlineText(cell).replace(/\|/g, '\\|')),
+        );
+      } else {
+        collectRows(child);
+      }
+    }
+  };
+  collectRows(table);
+
+  const columns = Math.max(0, ...rows.map((row) => row.length));
+  if (columns <= 1) {
+    // Layout table: render its contents as ordinary blocks
+    return renderChildren(table, listDepth);
+  }
+
+  const pad = (row: string[]) =>
+    `| ${[...row, ...Array(columns - row.length).fill('')].join(' | ')} |`;
+
+  return [
+    pad(rows[0]),
+    `| ${Array(columns).fill('---').join(' | ')} |`,
+    ...rows.slice(1).map(pad),
+  ].join('\n');
+}
+
+/**
+ * Tidy rendered markdown: trim stray indentation (except list nesting and
+ * code blocks) and collapse runs of blank lines.
+ */
+function normalizeMarkdown(markdown: string): string {
+  let inCode = false;
+
+  return markdown
+    .split('\n')
+    .map((line) => {
+      if (line.trimStart().startsWith('```')) {
+        inCode = !inCode;
+        return line.trim();
+      }
+      if (inCode) return line.trimEnd();
+      if (/^\s*(?:-|\d+\.) /.test(line)) return line.trimEnd();
+      return line.trim().replace(/ {2,}/g, ' ');
+    })
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
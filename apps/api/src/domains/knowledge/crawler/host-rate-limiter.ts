@@ -0,0 +1,27 @@
+/**
+ * Spaces out requests to the same host by a fixed delay, even when
+ * several crawl workers run concurrently. Each caller reserves the next
+ * free slot for its host and waits until that slot comes up.
+ */
+export class HostRateLimiter {
+  private readonly nextSlot = new Map<string, number>();
+
+  constructor(private readonly delayMs: number) {}
+
+  async acquire(url: string): Promise<void> {
+    if (this.delayMs <= 0) return;
+
+    const host = new URL(url).host;
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot.get(host) ?? 0);
+    this.nextSlot.set(host, slot + this.delayMs);
+
+    if (slot > now) {
+      await sleep(slot - now);
+    }
+  }
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
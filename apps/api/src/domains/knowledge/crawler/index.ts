@@ -0,0 +1,28 @@
+export {
+  CRAWLER_USER_AGENT,
+  CRAWLER_USER_AGENT_TOKEN,
+  RobotsRules,
+  parseRobotsTxt,
+} from './robots';
+export {
+  ParsedSitemap,
+  decodeSitemapBody,
+  parseSitemap,
+  isSitemapUrl,
+  readSitemapBody,
+} from './sitemap';
+export {
+  REGEX_PATTERN_PREFIX,
+  UrlFilter,
+  UrlFilterOptions,
+  compilePattern,
+  stripQueryParams,
+} from './url-filter';
+export { HostRateLimiter, sleep } from './host-rate-limiter';
+export { extractMainContent } from './content-extractor';
+export {
+  BoilerplateOptions,
+  blockFingerprint,
+  findBoilerplate,
+  removeBoilerplate,
+} from './boilerplate';
@@ -0,0 +1,141 @@
+/**
+ * Product token the crawler identifies itself with, both in the
+ * User-Agent header and when matching robots.txt groups.
+ */
+export const CRAWLER_USER_AGENT_TOKEN = 'CoBuild-Crawler';
+export const CRAWLER_USER_AGENT = `${CRAWLER_USER_AGENT_TOKEN}/1.0 (+https://cobuild.ai/bot)`;
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+  regex: RegExp;
+}
+
+interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelay: number | null;
+}
+
+/**
+ * Parsed robots.txt rules that apply to our user agent.
+ */
+export class RobotsRules {
+  constructor(
+    private readonly rules: RobotsRule[],
+    /** Seconds to wait between requests, if the site asks for it */
+    readonly crawlDelay: number | null,
+    /** Sitemap URLs advertised via `Sitemap:` lines */
+    readonly sitemaps: string[],
+  ) {}
+
+  /** Rules for a site without a robots.txt: everything is allowed. */
+  static allowAll(): RobotsRules {
+    return new RobotsRules([], null, []);
+  }
+
+  /**
+   * Whether the URL may be crawled. The longest matching pattern wins and
+   * Allow beats Disallow on a tie, as in RFC 9309.
+   */
+  isAllowed(url: string): boolean {
+    let path: string;
+    try {
+      const parsed = new URL(url);
+      path = parsed.pathname + parsed.search;
+    } catch {
+      return false;
+    }
+
+    let match: RobotsRule | null = null;
+    for (const rule of this.rules) {
+      if (!rule.regex.test(path)) continue;
+      if (
+        !match ||
+        rule.pattern.length > match.pattern.length ||
+        (rule.pattern.length === match.pattern.length && rule.allow)
+      ) {
+        match = rule;
+      }
+    }
+
+    return match ? match.allow : true;
+  }
+}
+
+/**
+ * Parse a robots.txt body and keep the group for `userAgent` (matched on
+ * its product token, case-insensitively), falling back to the `*` group.
+ */
+export function parseRobotsTxt(
+  content: string,
+  userAgent = CRAWLER_USER_AGENT_TOKEN,
+): RobotsRules {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    switch (field) {
+      case 'user-agent':
+        // Consecutive User-agent lines share one group
+        if (!current || !lastWasAgent) {
+          current = { userAgents: [], rules: [], crawlDelay: null };
+          groups.push(current);
+        }
+        current.userAgents.push(value.toLowerCase());
+        lastWasAgent = true;
+        continue;
+      case 'allow':
+      case 'disallow':
+        // An empty Disallow means "allow everything" and adds no rule
+        if (current && value) {
+          current.rules.push({
+            allow: field === 'allow',
+            pattern: value,
+            regex: patternToRegex(value),
+          });
+        }
+        break;
+      case 'crawl-delay': {
+        const delay = parseFloat(value);
+        if (current && Number.isFinite(delay) && delay >= 0) {
+          current.crawlDelay = delay;
+        }
+        break;
+      }
+      case 'sitemap':
+        if (value) sitemaps.push(value);
+        break;
+    }
+    lastWasAgent = false;
+  }
+
+  const token = userAgent.toLowerCase();
+  const group =
+    groups.find((g) => g.userAgents.some((ua) => ua !== '*' && token.startsWith(ua))) ??
+    groups.find((g) => g.userAgents.includes('*'));
+
+  return new RobotsRules(group?.rules ?? [], group?.crawlDelay ?? null, sitemaps);
+}
+
+/**
+ * Translate a robots.txt path pattern (`*` wildcard, trailing `$`
+ * anchor) into a prefix-matching regular expression.
+ */
+function patternToRegex(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
@@ -0,0 +1,88 @@
+import * as cheerio from 'cheerio';
+import { gunzipSync } from 'zlib';
+
+/**
+ * Largest sitemap we read, compressed or not: the sitemap protocol's own
+ * 50 MB limit, which also stops gzip bombs from filling memory
+ */
+export const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+export interface ParsedSitemap {
+  /** Page URLs from a `<urlset>` */
+  urls: string[];
+  /** Child sitemap URLs from a `<sitemapindex>` */
+  sitemaps: string[];
+}
+
+/**
+ * Read a sitemap response body, failing once it grows past
+ * `MAX_SITEMAP_BYTES` instead of buffering whatever the server sends.
+ */
+export async function readSitemapBody(response: Response): Promise<Buffer> {
+  const tooLarge = () =>
+    new Error(`Sitemap larger than ${MAX_SITEMAP_BYTES / (1024 * 1024)} MB`);
+
+  if (Number(response.headers.get('content-length') ?? 0) > MAX_SITEMAP_BYTES) {
+    throw tooLarge();
+  }
+  if (!response.body) return Buffer.alloc(0);
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > MAX_SITEMAP_BYTES) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(Buffer.from(value));
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Decode a sitemap response body, transparently gunzipping `.xml.gz`
+ * files (detected by the gzip magic bytes, since servers label them
+ * inconsistently). Throws if the unzipped sitemap exceeds
+ * `MAX_SITEMAP_BYTES`.
+ */
+export function decodeSitemapBody(body: Buffer): string {
+  const isGzip = body.length > 2 && body[0] === 0x1f && body[1] === 0x8b;
+  return (
+    isGzip ? gunzipSync(body, { maxOutputLength: MAX_SITEMAP_BYTES }) : body
+  ).toString('utf8');
+}
+
+/**
+ * Parse a sitemap or sitemap index. Unknown documents yield no URLs.
+ */
+export function parseSitemap(xml: string): ParsedSitemap {
+  const $ = cheerio.load(xml, { xml: true });
+
+  const locs = (selector: string) =>
+    $(selector)
+      .map((_, el) => $(el).text().trim())
+      .get()
+      .filter((loc) => loc.length > 0);
+
+  return {
+    urls: locs('urlset > url > loc'),
+    sitemaps: locs('sitemapindex > sitemap > loc'),
+  };
+}
+
+/**
+ * Whether a URL looks like a sitemap rather than an HTML page.
+ */
+export function isSitemapUrl(url: string): boolean {
+  try {
+    return /\.xml(\.gz)?$/i.test(new URL(url).pathname);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,102 @@
+/** Prefix marking a pattern as a regular expression instead of a glob */
+export const REGEX_PATTERN_PREFIX = 'regex:';
+
+export interface UrlFilterOptions {
+  includePatterns?: string[];
+  excludePatterns?: string[];
+}
+
+/**
+ * Include/exclude rules for crawl URLs.
+ *
+ * Globs are matched against the URL path: `*` matches within one path
+ * segment, `**` across segments, `?` a single character, and a trailing
+ * `/**` also matches the directory itself (`/docs/**` matches `/docs`).
+ * Patterns prefixed with `regex:` are regular expressions tested against
+ * the full URL. A URL is crawled when it matches any include pattern (or
+ * there are none) and no exclude pattern.
+ */
+export class UrlFilter {
+  private readonly include: ((url: URL) => boolean)[];
+  private readonly exclude: ((url: URL) => boolean)[];
+
+  constructor(options: UrlFilterOptions = {}) {
+    this.include = (options.includePatterns ?? []).map(compilePattern);
+    this.exclude = (options.excludePatterns ?? []).map(compilePattern);
+  }
+
+  matches(url: string): boolean {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return false;
+    }
+
+    if (this.include.length > 0 && !this.include.some((test) => test(parsed))) {
+      return false;
+    }
+    return !this.exclude.some((test) => test(parsed));
+  }
+}
+
+/**
+ * Throws for invalid regular expressions, so callers can validate
+ * patterns up front.
+ */
+export function compilePattern(pattern: string): (url: URL) => boolean {
+  if (pattern.startsWith(REGEX_PATTERN_PREFIX)) {
+    const regex = new RegExp(pattern.slice(REGEX_PATTERN_PREFIX.length));
+    return (url) => regex.test(url.toString());
+  }
+
+  const regex = globToRegex(pattern.trim());
+  return (url) => regex.test(url.pathname);
+}
+
+function globToRegex(glob: string): RegExp {
+  const path = glob.startsWith('/') ? glob : `/${glob}`;
+  let source = '';
+
+  for (let i = 0; i < path.length; i++) {
+    const char = path[i];
+
+    if (char === '*') {
+      if (path[i + 1] === '*') {
+        // "/**" at the end also matches the bare directory
+        const trailing = i + 2 === path.length && source.endsWith('/');
+        source = trailing ? `${source.slice(0, -1)}(?:/.*)?` : `${source}.*`;
+        i++;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}/?$`);
+}
+
+/**
+ * Remove query parameters from a URL. `*` strips the whole query string;
+ * otherwise names are matched exactly, or by prefix when they end in `*`
+ * (e.g. `utm_*`).
+ */
+export function stripQueryParams(url: URL, rules: string[]): void {
+  if (rules.length === 0 || !url.search) return;
+
+  if (rules.includes('*')) {
+    url.search = '';
+    return;
+  }
+
+  for (const name of [...url.searchParams.keys()]) {
+    const strip = rules.some((rule) =>
+      rule.endsWith('*') ? name.startsWith(rule.slice(0, -1)) : name === rule,
+    );
+    if (strip) url.searchParams.delete(name);
+  }
+}
@@ -3,3 +3,11 @@ export { SelectPagesDto } from './select-pages.dto';
 export { CreateQnaDto, BulkCreateQnaDto } from './create-qna.dto';
 export { UpdateQnaDto } from './update-qna.dto';
 export { UpsertTextTrainingDto } from './upsert-text-training.dto';
+export { UploadFileDto } from './upload-file.dto';
+export { ReembedDto } from './reembed.dto';
+export {
+  CreateRetrainingScheduleDto,
+  UpdateRetrainingScheduleDto,
+} from './retraining-schedule.dto';
+export { UpdateChunkDto } from './update-chunk.dto';
+export { TestRetrievalDto } from './test-retrieval.dto';
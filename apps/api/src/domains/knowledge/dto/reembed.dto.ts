@@ -0,0 +1,10 @@
+import { IsEnum, IsString } from 'class-validator';
+import { EmbeddingProviderType } from '../../../generated/prisma';
+
+export class ReembedDto {
+  @IsEnum(EmbeddingProviderType)
+  provider: EmbeddingProviderType;
+
+  @IsString()
+  model: string;
+}
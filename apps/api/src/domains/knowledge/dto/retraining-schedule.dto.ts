@@ -0,0 +1,23 @@
+import { IsString, IsOptional, IsBoolean } from 'class-validator';
+
+export class CreateRetrainingScheduleDto {
+  @IsString()
+  chatbotId: string;
+
+  @IsString()
+  cronExpression: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class UpdateRetrainingScheduleDto {
+  @IsOptional()
+  @IsString()
+  cronExpression?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
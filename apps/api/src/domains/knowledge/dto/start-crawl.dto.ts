@@ -4,9 +4,13 @@ import {
   IsOptional,
   IsInt,
   Min,
+  Max,
   IsEnum,
+  IsArray,
+  ArrayMaxSize,
+  MaxLength,
 } from 'class-validator';
-import { PageType } from '../../../generated/prisma';
+import { CrawlProvider, ExtractionMode, PageType } from '../../../generated/prisma';
 
 export class StartCrawlDto {
   @IsString()
@@ -19,6 +23,22 @@ export class StartCrawlDto {
   @IsEnum(PageType)
   pageType?: PageType;
 
+  /** PLAYWRIGHT and FIRECRAWL render JavaScript before extracting content */
+  @IsOptional()
+  @IsEnum(CrawlProvider)
+  provider?: CrawlProvider;
+
+  /** CSS selector to wait for on rendered pages (PLAYWRIGHT / FIRECRAWL) */
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  waitForSelector?: string;
+
+  /** READABILITY keeps only the main content as markdown; FULL_TEXT takes the whole body */
+  @IsOptional()
+  @IsEnum(ExtractionMode)
+  extractionMode?: ExtractionMode;
+
   @IsOptional()
   @IsInt()
   @Min(-1)
@@ -28,4 +48,41 @@ export class StartCrawlDto {
   @IsInt()
   @Min(1)
   confirmedLimit?: number;
+
+  /**
+   * Only crawl URLs matching one of these. Globs match the URL path
+   * (`/docs/**`); `regex:`-prefixed patterns match the full URL.
+   */
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @ArrayMaxSize(50)
+  includePatterns?: string[];
+
+  /** Never crawl URLs matching one of these (same syntax as includePatterns) */
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @ArrayMaxSize(50)
+  excludePatterns?: string[];
+
+  /** Query parameters to drop when normalizing URLs; `*` drops all, `utm_*` a prefix */
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @ArrayMaxSize(50)
+  stripQueryParams?: string[];
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  maxConcurrency?: number;
+
+  /** Minimum delay between requests to the same host */
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(60000)
+  requestDelayMs?: number;
 }
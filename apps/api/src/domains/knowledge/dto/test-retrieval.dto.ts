@@ -0,0 +1,52 @@
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import {
+  QueryExpansion,
+  RerankerType,
+  RetrievalMode,
+} from '../../../generated/prisma';
+
+export class TestRetrievalDto {
+  @IsString()
+  @IsNotEmpty()
+  chatbotId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  query: string;
+
+  /** Overrides for the chatbot's stored retrieval settings */
+  @IsOptional()
+  @IsEnum(RetrievalMode)
+  mode?: RetrievalMode;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  minScore?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  topK?: number;
+
+  @IsOptional()
+  @IsEnum(RerankerType)
+  reranker?: RerankerType;
+
+  @IsOptional()
+  @IsEnum(QueryExpansion)
+  queryExpansion?: QueryExpansion;
+}
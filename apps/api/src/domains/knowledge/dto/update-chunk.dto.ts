@@ -0,0 +1,15 @@
+import { IsString, IsOptional, IsBoolean, IsNotEmpty, MaxLength } from 'class-validator';
+
+export class UpdateChunkDto {
+  /** New chunk text; the chunk is re-embedded */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20000)
+  content?: string;
+
+  /** Disabled chunks are kept but never retrieved */
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,281 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { PrismaService } from '../../core/database/prisma.service';
+import { EmbeddingMigrationStatus, SourceType } from '../../generated/prisma';
+import { ChatbotService } from '../chatbot/chatbot.service';
+import { EmbeddingService } from './embedding.service';
+import { EMBEDDING_MODELS, findEmbeddingModel } from './embedding-providers';
+import { ReembedDto } from './dto';
+
+const ACTIVE_MIGRATION_STATUSES = [
+  EmbeddingMigrationStatus.PENDING,
+  EmbeddingMigrationStatus.PROCESSING,
+];
+
+@Injectable()
+export class EmbeddingMigrationService {
+  private readonly logger = new Logger(EmbeddingMigrationService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly chatbotService: ChatbotService,
+    private readonly embeddingService: EmbeddingService,
+    @InjectQueue('training-queue') private readonly trainingQueue: Queue,
+  ) {}
+
+  /**
+   * Embedding models a chatbot can be switched to.
+   */
+  listModels() {
+    return EMBEDDING_MODELS;
+  }
+
+  /**
+   * Active model, stored chunk counts per model and the latest migration
+   * for a chatbot.
+   */
+  async getStatus(chatbotId: string, orgId: string) {
+    const chatbot = await this.chatbotService.validateOwnership(
+      chatbotId,
+      orgId,
+    );
+
+    const [counts, migration] = await Promise.all([
+      this.prisma.embedding.groupBy({
+        by: ['provider', 'model', 'dimensions'],
+        where: { chatbotId },
+        _count: { _all: true },
+      }),
+      this.prisma.embeddingMigration.findFirst({
+        where: { chatbotId },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    return {
+      active: {
+        provider: chatbot.embeddingProvider,
+        model: chatbot.embeddingModel,
+      },
+      models: counts.map((c) => ({
+        provider: c.provider,
+        model: c.model,
+        dimensions: c.dimensions,
+        chunks: c._count._all,
+      })),
+      migration,
+    };
+  }
+
+  /**
+   * Start re-embedding every stored chunk of a chatbot with a new model.
+   * Queries keep using the current model until the migration completes,
+   * then the chatbot switches over and the old vectors are dropped.
+   */
+  async startReembed(chatbotId: string, orgId: string, dto: ReembedDto) {
+    const chatbot = await this.chatbotService.validateOwnership(
+      chatbotId,
+      orgId,
+    );
+
+    if (!findEmbeddingModel(dto.provider, dto.model)) {
+      throw new BadRequestException(
+        `Unsupported embedding model: ${dto.provider}/${dto.model}`,
+      );
+    }
+
+    if (
+      chatbot.embeddingProvider === dto.provider &&
+      chatbot.embeddingModel === dto.model
+    ) {
+      throw new BadRequestException(
+        'Chatbot already uses this embedding model',
+      );
+    }
+
+    const running = await this.prisma.embeddingMigration.findFirst({
+      where: { chatbotId, status: { in: ACTIVE_MIGRATION_STATUSES } },
+    });
+    if (running) {
+      throw new BadRequestException(
+        'A re-embedding is already in progress for this chatbot',
+      );
+    }
+
+    // Drop leftovers from earlier failed migrations
+    await this.prisma.embedding.deleteMany({
+      where: {
+        chatbotId,
+        NOT: {
+          provider: chatbot.embeddingProvider,
+          model: chatbot.embeddingModel,
+        },
+      },
+    });
+
+    const totalChunks = await this.prisma.embedding.count({
+      where: {
+        chatbotId,
+        provider: chatbot.embeddingProvider,
+        model: chatbot.embeddingModel,
+      },
+    });
+
+    const migration = await this.prisma.embeddingMigration.create({
+      data: {
+        chatbotId,
+        fromProvider: chatbot.embeddingProvider,
+        fromModel: chatbot.embeddingModel,
+        toProvider: dto.provider,
+        toModel: dto.model,
+        totalChunks,
+      },
+    });
+
+    await this.trainingQueue.add(
+      'train',
+      {
+        type: 'reembed',
+        chatbotId,
+        sourceId: migration.id,
+      },
+      {
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 3000 },
+        removeOnComplete: 100,
+        removeOnFail: 50,
+      },
+    );
+
+    this.logger.log(
+      `Re-embedding chatbot ${chatbotId}: ${chatbot.embeddingProvider}/${chatbot.embeddingModel} -> ${dto.provider}/${dto.model} (${totalChunks} chunks)`,
+    );
+    return migration;
+  }
+
+  /**
+   * Worker entry point: embed every chunk that existed when this attempt
+   * started with the target model, then switch the chatbot over. Chunks
+   * trained after that point are dual-written by EmbeddingService, so they
+   * are skipped here.
+   */
+  async runMigration(migrationId: string): Promise<void> {
+    const existing = await this.prisma.embeddingMigration.findUnique({
+      where: { id: migrationId },
+    });
+
+    if (!existing || existing.status === EmbeddingMigrationStatus.COMPLETED) {
+      this.logger.warn(`Embedding migration ${migrationId} not runnable, skipping`);
+      return;
+    }
+
+    const startedAt = new Date();
+    const { chatbotId, fromProvider, fromModel, toProvider, toModel } =
+      existing;
+    const target = { provider: toProvider, model: toModel };
+
+    // Start every attempt from a clean slate: anything under the target
+    // model still has its source chunk under the old model
+    await this.prisma.embedding.deleteMany({
+      where: { chatbotId, provider: toProvider, model: toModel },
+    });
+
+    await this.prisma.embeddingMigration.update({
+      where: { id: migrationId },
+      data: {
+        status: EmbeddingMigrationStatus.PROCESSING,
+        startedAt,
+        processedChunks: 0,
+        errorMessage: null,
+      },
+    });
+
+    const provider = this.embeddingService.getProvider(toProvider);
+    let cursor = '';
+    let processed = 0;
+
+    for (;;) {
+      const rows = await this.prisma.$queryRaw<
+        {
+          id: string;
+          source_type: SourceType;
+          source_id: string | null;
+          content: string;
+          is_active: boolean;
+          metadata: Record<string, unknown> | null;
+        }[]
+      >`
+        SELECT id, source_type, source_id, content, is_active, metadata
+        FROM embeddings
+        WHERE chatbot_id = ${chatbotId}
+          AND provider = ${fromProvider}::"EmbeddingProviderType"
+          AND model = ${fromModel}
+          AND created_at <= ${startedAt}
+          AND id > ${cursor}
+        ORDER BY id
+        LIMIT ${provider.maxBatchSize}
+      `;
+      if (rows.length === 0) break;
+
+      const vectors = await provider.embed(
+        rows.map((r) => r.content),
+        toModel,
+      );
+
+      for (let i = 0; i < rows.length; i++) {
+        await this.embeddingService.insertEmbedding(target, {
+          chatbotId,
+          sourceType: rows[i].source_type,
+          sourceId: rows[i].source_id,
+          content: rows[i].content,
+          vector: vectors[i],
+          metadata: rows[i].metadata ?? {},
+          isActive: rows[i].is_active,
+        });
+      }
+
+      processed += rows.length;
+      cursor = rows[rows.length - 1].id;
+      await this.prisma.embeddingMigration.update({
+        where: { id: migrationId },
+        data: { processedChunks: processed },
+      });
+    }
+
+    // Switch over and drop the old vectors in one step
+    await this.prisma.$transaction([
+      this.prisma.chatbot.update({
+        where: { id: chatbotId },
+        data: { embeddingProvider: toProvider, embeddingModel: toModel },
+      }),
+      this.prisma.embedding.deleteMany({
+        where: {
+          chatbotId,
+          NOT: { provider: toProvider, model: toModel },
+        },
+      }),
+      this.prisma.embeddingMigration.update({
+        where: { id: migrationId },
+        data: {
+          status: EmbeddingMigrationStatus.COMPLETED,
+          completedAt: new Date(),
+        },
+      }),
+    ]);
+
+    this.logger.log(
+      `Embedding migration ${migrationId} completed: ${processed} chunks re-embedded with ${toProvider}/${toModel}`,
+    );
+  }
+
+  /**
+   * Record a failed attempt on the migration.
+   */
+  async markFailed(migrationId: string, errorMessage: string): Promise<void> {
+    await this.prisma.embeddingMigration.update({
+      where: { id: migrationId },
+      data: { status: EmbeddingMigrationStatus.FAILED, errorMessage },
+    });
+  }
+}
@@ -0,0 +1,53 @@
+import { EmbeddingProviderType } from '../../../generated/prisma';
+import { EmbeddingModelConfig } from './embedding-provider.interface';
+
+export interface EmbeddingModelInfo extends EmbeddingModelConfig {
+  label: string;
+  dimensions: number;
+}
+
+/**
+ * Embedding models a chatbot can be switched to. Dimensions are
+ * informational; stored rows record the actual vector length.
+ */
+export const EMBEDDING_MODELS: EmbeddingModelInfo[] = [
+  {
+    provider: EmbeddingProviderType.OPENAI,
+    model: 'text-embedding-3-small',
+    label: 'OpenAI text-embedding-3-small',
+    dimensions: 1536,
+  },
+  {
+    provider: EmbeddingProviderType.OPENAI,
+    model: 'text-embedding-3-large',
+    label: 'OpenAI text-embedding-3-large',
+    dimensions: 3072,
+  },
+  {
+    provider: EmbeddingProviderType.GEMINI,
+    model: 'text-embedding-004',
+    label: 'Gemini text-embedding-004',
+    dimensions: 768,
+  },
+  {
+    provider: EmbeddingProviderType.LOCAL,
+    model: 'Xenova/all-MiniLM-L6-v2',
+    label: 'all-MiniLM-L6-v2 (local, CPU)',
+    dimensions: 384,
+  },
+  {
+    provider: EmbeddingProviderType.LOCAL,
+    model: 'Xenova/bge-small-en-v1.5',
+    label: 'BGE small en v1.5 (local, CPU)',
+    dimensions: 384,
+  },
+];
+
+export function findEmbeddingModel(
+  provider: EmbeddingProviderType,
+  model: string,
+): EmbeddingModelInfo | undefined {
+  return EMBEDDING_MODELS.find(
+    (m) => m.provider === provider && m.model === model,
+  );
+}
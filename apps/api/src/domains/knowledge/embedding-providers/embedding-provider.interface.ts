@@ -0,0 +1,13 @@
+import { EmbeddingProviderType } from '../../../generated/prisma';
+
+export interface EmbeddingProvider {
+  readonly type: EmbeddingProviderType;
+  /** Maximum number of texts sent to the model in a single call */
+  readonly maxBatchSize: number;
+  embed(texts: string[], model: string): Promise<number[][]>;
+}
+
+export interface EmbeddingModelConfig {
+  provider: EmbeddingProviderType;
+  model: string;
+}
@@ -0,0 +1,28 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { embedMany } from 'ai';
+import { EmbeddingProviderType } from '../../../generated/prisma';
+import { EmbeddingProvider } from './embedding-provider.interface';
+
+@Injectable()
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  readonly type = EmbeddingProviderType.GEMINI;
+  // batchEmbedContents accepts at most 100 requests per call
+  readonly maxBatchSize = 100;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async embed(texts: string[], model: string): Promise<number[][]> {
+    const google = createGoogleGenerativeAI({
+      apiKey: this.configService.get<string>('GEMINI_API_KEY'),
+    });
+
+    const { embeddings } = await embedMany({
+      model: google.textEmbeddingModel(model),
+      values: texts,
+    });
+
+    return embeddings;
+  }
+}
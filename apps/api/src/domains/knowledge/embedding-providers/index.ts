@@ -0,0 +1,5 @@
+export { EmbeddingProvider, EmbeddingModelConfig } from './embedding-provider.interface';
+export { EMBEDDING_MODELS, EmbeddingModelInfo, findEmbeddingModel } from './embedding-models';
+export { OpenAiEmbeddingProvider } from './openai.provider';
+export { GeminiEmbeddingProvider } from './gemini.provider';
+export { LocalEmbeddingProvider } from './local.provider';
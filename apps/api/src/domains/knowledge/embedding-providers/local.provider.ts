@@ -0,0 +1,59 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { FeatureExtractionPipeline } from '@huggingface/transformers';
+import { EmbeddingProviderType } from '../../../generated/prisma';
+import { EmbeddingProvider } from './embedding-provider.interface';
+
+/**
+ * Runs sentence-transformer models on the CPU via transformers.js (ONNX).
+ * Weights are downloaded from Hugging Face on first use and cached under
+ * LOCAL_EMBEDDING_CACHE_DIR; after that no network access is needed.
+ */
+@Injectable()
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly type = EmbeddingProviderType.LOCAL;
+  readonly maxBatchSize = 16;
+  private readonly logger = new Logger(LocalEmbeddingProvider.name);
+  private readonly pipelines = new Map<string, Promise<FeatureExtractionPipeline>>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async embed(texts: string[], model: string): Promise<number[][]> {
+    const extractor = await this.getPipeline(model);
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    return output.tolist() as number[][];
+  }
+
+  /**
+   * Load (once) the feature-extraction pipeline for a model. A failed load
+   * is evicted so the next call can retry.
+   */
+  private getPipeline(model: string): Promise<FeatureExtractionPipeline> {
+    let loading = this.pipelines.get(model);
+    if (!loading) {
+      this.logger.log(`Loading local embedding model ${model}`);
+      loading = this.loadPipeline(model).catch((err) => {
+        this.pipelines.delete(model);
+        throw err;
+      });
+      this.pipelines.set(model, loading);
+    }
+    return loading;
+  }
+
+  private async loadPipeline(model: string): Promise<FeatureExtractionPipeline> {
+    const { pipeline, env } = await import('@huggingface/transformers');
+
+    const cacheDir = this.configService.get<string>('LOCAL_EMBEDDING_CACHE_DIR');
+    if (cacheDir) {
+      env.cacheDir = cacheDir;
+    }
+
+    // pipeline()'s overloads are too complex for tsc to resolve directly
+    const createPipeline = pipeline as (
+      task: 'feature-extraction',
+      model: string,
+    ) => Promise<FeatureExtractionPipeline>;
+    return createPipeline('feature-extraction', model);
+  }
+}
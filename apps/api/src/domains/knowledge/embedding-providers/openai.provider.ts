@@ -0,0 +1,28 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import OpenAI from 'openai';
+import { EmbeddingProviderType } from '../../../generated/prisma';
+import { EmbeddingProvider } from './embedding-provider.interface';
+
+@Injectable()
+export class OpenAiEmbeddingProvider implements EmbeddingProvider {
+  readonly type = EmbeddingProviderType.OPENAI;
+  // Kept small to stay within OpenAI's rate limits
+  readonly maxBatchSize = 20;
+  private readonly openai: OpenAI;
+
+  constructor(private readonly configService: ConfigService) {
+    this.openai = new OpenAI({
+      apiKey: this.configService.get<string>('OPENAI_API_KEY'),
+    });
+  }
+
+  async embed(texts: string[], model: string): Promise<number[][]> {
+    const response = await this.openai.embeddings.create({
+      model,
+      input: texts,
+    });
+
+    return response.data.map((d) => d.embedding);
+  }
+}
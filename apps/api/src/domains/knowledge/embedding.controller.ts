@@ -0,0 +1,38 @@
+import { Controller, Get, Post, Body, Param } from '@nestjs/common';
+import { CurrentUser } from '../../core/common/decorators';
+import { EmbeddingMigrationService } from './embedding-migration.service';
+import { ReembedDto } from './dto';
+
+@Controller('knowledge')
+export class EmbeddingController {
+  constructor(
+    private readonly embeddingMigrationService: EmbeddingMigrationService,
+  ) {}
+
+  @Get('embeddings/models')
+  listModels() {
+    return { models: this.embeddingMigrationService.listModels() };
+  }
+
+  @Get('embeddings/:chatbotId/status')
+  async getStatus(
+    @Param('chatbotId') chatbotId: string,
+    @CurrentUser('orgId') orgId: string,
+  ) {
+    return this.embeddingMigrationService.getStatus(chatbotId, orgId);
+  }
+
+  @Post('embeddings/:chatbotId/reembed')
+  async reembed(
+    @Param('chatbotId') chatbotId: string,
+    @CurrentUser('orgId') orgId: string,
+    @Body() dto: ReembedDto,
+  ) {
+    const migration = await this.embeddingMigrationService.startReembed(
+      chatbotId,
+      orgId,
+      dto,
+    );
+    return { migration };
+  }
+}
@@ -1,69 +1,220 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-import OpenAI from 'openai';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { randomUUID } from 'crypto';
 import { PrismaService } from '../../core/database/prisma.service';
-import { Prisma, SourceType } from '../../generated/prisma';
+import {
+  ChunkingStrategy,
+  EmbeddingMigrationStatus,
+  EmbeddingProviderType,
+  Prisma,
+  SourceType,
+} from '../../generated/prisma';
+import { Chunk, countTokens, getChunker } from './chunkers';
+import {
+  EmbeddingModelConfig,
+  EmbeddingProvider,
+  GeminiEmbeddingProvider,
+  LocalEmbeddingProvider,
+  OpenAiEmbeddingProvider,
+} from './embedding-providers';
+
+export interface ChunkingSettings {
+  strategy: ChunkingStrategy;
+  chunkSize: number;
+  chunkOverlap: number;
+}
+
+const DEFAULT_CHUNKING_SETTINGS: ChunkingSettings = {
+  strategy: ChunkingStrategy.MARKDOWN,
+  chunkSize: 500,
+  chunkOverlap: 50,
+};
+
+export interface EmbeddingSearchResult {
+  id: string;
+  content: string;
+  score: number;
+  metadata: any;
+  sourceType: SourceType;
+  sourceId: string | null;
+}
+
+export interface EmbeddingRowInput {
+  chatbotId: string;
+  sourceType: SourceType;
+  sourceId: string | null;
+  content: string;
+  vector: number[];
+  metadata: Record<string, unknown>;
+  /** Defaults to true; false keeps a disabled chunk disabled when copied */
+  isActive?: boolean;
+}
 
 @Injectable()
-export class EmbeddingService {
+export class EmbeddingService implements OnModuleInit {
   private readonly logger = new Logger(EmbeddingService.name);
-  private readonly openai: OpenAI;
-  private readonly model = 'text-embedding-3-small';
+  private readonly providers: Record<EmbeddingProviderType, EmbeddingProvider>;
 
   constructor(
     private readonly prisma: PrismaService,
-    private readonly configService: ConfigService,
+    openAiProvider: OpenAiEmbeddingProvider,
+    geminiProvider: GeminiEmbeddingProvider,
+    localProvider: LocalEmbeddingProvider,
   ) {
-    this.openai = new OpenAI({
-      apiKey: this.configService.get<string>('OPENAI_API_KEY'),
-    });
+    this.providers = {
+      [EmbeddingProviderType.OPENAI]: openAiProvider,
+      [EmbeddingProviderType.GEMINI]: geminiProvider,
+      [EmbeddingProviderType.LOCAL]: localProvider,
+    };
+  }
+
+  getProvider(type: EmbeddingProviderType): EmbeddingProvider {
+    return this.providers[type];
+  }
+
+  /**
+   * Backfill the full-text search column for rows embedded before
+   * keyword retrieval existed. Cheap no-op once every row is populated.
+   */
+  async onModuleInit(): Promise<void> {
+    try {
+      const updated = await this.prisma.$executeRaw`
+        UPDATE embeddings
+        SET content_tsv = to_tsvector('english', content)
+        WHERE content_tsv IS NULL
+      `;
+      if (updated > 0) {
+        this.logger.log(`Backfilled full-text vectors for ${updated} embeddings`);
+      }
+    } catch (err) {
+      this.logger.warn(
+        `Full-text backfill skipped: ${err instanceof Error ? err.message : err}`,
+      );
+    }
+
+    // Token counts need the tokenizer, so fill them in the background
+    void this.backfillTokenCounts().catch((err) =>
+      this.logger.warn(
+        `Token count backfill stopped: ${err instanceof Error ? err.message : err}`,
+      ),
+    );
+  }
+
+  /**
+   * Count tokens for rows embedded before token counts were recorded.
+   */
+  private async backfillTokenCounts(): Promise<void> {
+    let updated = 0;
+
+    for (;;) {
+      const rows = await this.prisma.embedding.findMany({
+        where: { tokenCount: 0, content: { not: '' } },
+        select: { id: true, content: true },
+        take: 500,
+      });
+      if (rows.length === 0) break;
+
+      await this.prisma.$transaction(
+        rows.map((row) =>
+          this.prisma.embedding.update({
+            where: { id: row.id },
+            data: { tokenCount: countTokens(row.content) },
+          }),
+        ),
+      );
+      updated += rows.length;
+    }
+
+    if (updated > 0) {
+      this.logger.log(`Backfilled token counts for ${updated} embeddings`);
+    }
   }
 
   /**
-   * Generate an embedding vector for the given text using OpenAI's
-   * text-embedding-3-small model (1536 dimensions).
+   * Generate an embedding vector for the given text with the chatbot's
+   * active embedding model.
    */
-  async generateEmbedding(text: string): Promise<number[]> {
+  async generateEmbedding(
+    text: string,
+    config: EmbeddingModelConfig,
+  ): Promise<number[]> {
     const cleaned = text.replace(/\n+/g, ' ').trim();
     if (!cleaned) {
       throw new Error('Cannot generate embedding for empty text');
     }
 
-    const response = await this.openai.embeddings.create({
-      model: this.model,
-      input: cleaned,
+    const [vector] = await this.getProvider(config.provider).embed(
+      [cleaned],
+      config.model,
+    );
+    return vector;
+  }
+
+  /**
+   * The embedding model a chatbot's queries are currently answered with.
+   */
+  async getActiveModel(chatbotId: string): Promise<EmbeddingModelConfig> {
+    const chatbot = await this.prisma.chatbot.findUniqueOrThrow({
+      where: { id: chatbotId },
+      select: { embeddingProvider: true, embeddingModel: true },
     });
 
-    return response.data[0].embedding;
+    return {
+      provider: chatbot.embeddingProvider,
+      model: chatbot.embeddingModel,
+    };
   }
 
   /**
-   * Split text into overlapping chunks for embedding.
-   * Uses word boundaries so we never break mid-word.
+   * Models new chunks must be embedded with: the active model plus, while
+   * a re-embed is in flight, its target model so nothing trained during
+   * the migration is missing once it switches over.
    */
-  chunkText(text: string, chunkSize = 500, overlap = 50): string[] {
-    const words = text.split(/\s+/).filter(Boolean);
-    if (words.length === 0) return [];
-
-    const chunks: string[] = [];
-    let start = 0;
+  private async getWriteModels(
+    chatbotId: string,
+  ): Promise<EmbeddingModelConfig[]> {
+    const [active, migration] = await Promise.all([
+      this.getActiveModel(chatbotId),
+      this.prisma.embeddingMigration.findFirst({
+        where: {
+          chatbotId,
+          status: {
+            in: [
+              EmbeddingMigrationStatus.PENDING,
+              EmbeddingMigrationStatus.PROCESSING,
+            ],
+          },
+        },
+        select: { toProvider: true, toModel: true },
+      }),
+    ]);
 
-    while (start < words.length) {
-      const end = Math.min(start + chunkSize, words.length);
-      const chunk = words.slice(start, end).join(' ');
-      chunks.push(chunk);
+    return migration
+      ? [active, { provider: migration.toProvider, model: migration.toModel }]
+      : [active];
+  }
 
-      if (end >= words.length) break;
-      start += chunkSize - overlap;
-    }
+  /**
+   * Split text into chunks for embedding using the given strategy.
+   * Each chunk carries the markdown heading it falls under, if any.
+   */
+  chunkText(
+    text: string,
+    settings: Partial<ChunkingSettings> = {},
+  ): Chunk[] {
+    const { strategy, chunkSize, chunkOverlap } = {
+      ...DEFAULT_CHUNKING_SETTINGS,
+      ...settings,
+    };
 
-    return chunks;
+    return getChunker(strategy)
+      .chunk(text, { chunkSize, chunkOverlap })
+      .filter((chunk) => chunk.content.length > 0);
   }
 
   /**
-   * Chunk the provided texts, embed each chunk, and store them all in
-   * the embeddings table using raw SQL for pgvector compatibility.
+   * Chunk the provided texts with the chatbot's chunking settings, embed
+   * each chunk, and store them all in the embeddings table using raw SQL
+   * for pgvector compatibility.
    */
   async storeEmbeddings(
     chatbotId: string,
@@ -71,9 +222,11 @@ export class EmbeddingService {
     sourceId: string,
     texts: string[],
   ): Promise<number> {
-    const allChunks: string[] = [];
+    const settings = await this.getChunkingSettings(chatbotId);
+
+    const allChunks: Chunk[] = [];
     for (const text of texts) {
-      const chunks = this.chunkText(text);
+      const chunks = this.chunkText(text, settings);
       allChunks.push(...chunks);
     }
 
@@ -83,44 +236,39 @@ export class EmbeddingService {
     }
 
     this.logger.log(
-      `Generating embeddings for ${allChunks.length} chunks (source: ${sourceType}/${sourceId})`,
+      `Generating embeddings for ${allChunks.length} ${settings.strategy} chunks (source: ${sourceType}/${sourceId})`,
     );
 
+    const models = await this.getWriteModels(chatbotId);
     let stored = 0;
 
-    // Process in batches of 20 to stay within OpenAI's rate limits
-    const batchSize = 20;
-    for (let i = 0; i < allChunks.length; i += batchSize) {
-      const batch = allChunks.slice(i, i + batchSize);
+    for (const config of models) {
+      const provider = this.getProvider(config.provider);
 
-      const response = await this.openai.embeddings.create({
-        model: this.model,
-        input: batch,
-      });
+      for (let i = 0; i < allChunks.length; i += provider.maxBatchSize) {
+        const batch = allChunks.slice(i, i + provider.maxBatchSize);
+        const vectors = await provider.embed(
+          batch.map((chunk) => chunk.content),
+          config.model,
+        );
 
-      for (let j = 0; j < batch.length; j++) {
-        const id = randomUUID();
-        const vector = response.data[j].embedding;
-        const vectorStr = `[${vector.join(',')}]`;
-        const metadata = JSON.stringify({
-          chunkIndex: i + j,
-          totalChunks: allChunks.length,
-        });
-
-        await this.prisma.$executeRaw`
-          INSERT INTO embeddings (id, chatbot_id, source_type, source_id, content, embedding, metadata, created_at)
-          VALUES (
-            ${id},
-            ${chatbotId},
-            ${sourceType}::"SourceType",
-            ${sourceId},
-            ${batch[j]},
-            ${vectorStr}::vector,
-            ${metadata}::jsonb,
-            NOW()
-          )
-        `;
-        stored++;
+        for (let j = 0; j < batch.length; j++) {
+          await this.insertEmbedding(config, {
+            chatbotId,
+            sourceType,
+            sourceId,
+            content: batch[j].content,
+            vector: vectors[j],
+            metadata: {
+              chunkIndex: i + j,
+              totalChunks: allChunks.length,
+              chunkingStrategy: settings.strategy,
+              heading: batch[j].heading,
+              headingPath: batch[j].headingPath,
+            },
+          });
+          stored++;
+        }
       }
     }
 
@@ -130,6 +278,87 @@ export class EmbeddingService {
     return stored;
   }
 
+  /**
+   * Insert a single embedding row using raw SQL for pgvector
+   * compatibility, recording which model produced the vector.
+   */
+  async insertEmbedding(
+    config: EmbeddingModelConfig,
+    row: EmbeddingRowInput,
+  ): Promise<void> {
+    const vectorStr = `[${row.vector.join(',')}]`;
+
+    await this.prisma.$executeRaw`
+      INSERT INTO embeddings (id, chatbot_id, source_type, source_id, content, embedding, content_tsv, provider, model, dimensions, token_count, is_active, metadata, created_at, updated_at)
+      VALUES (
+        ${randomUUID()},
+        ${row.chatbotId},
+        ${row.sourceType}::"SourceType",
+        ${row.sourceId},
+        ${row.content},
+        ${vectorStr}::vector,
+        to_tsvector('english', ${row.content}),
+        ${config.provider}::"EmbeddingProviderType",
+        ${config.model},
+        ${row.vector.length},
+        ${countTokens(row.content)},
+        ${row.isActive ?? true},
+        ${JSON.stringify(row.metadata)}::jsonb,
+        NOW(),
+        NOW()
+      )
+    `;
+  }
+
+  /**
+   * Replace a chunk's text and re-embed it with the model that produced
+   * the original vector.
+   */
+  async updateChunkContent(chunkId: string, content: string): Promise<void> {
+    const chunk = await this.prisma.embedding.findUniqueOrThrow({
+      where: { id: chunkId },
+      select: { provider: true, model: true },
+    });
+
+    const [vector] = await this.getProvider(chunk.provider).embed(
+      [content],
+      chunk.model,
+    );
+    const vectorStr = `[${vector.join(',')}]`;
+
+    await this.prisma.$executeRaw`
+      UPDATE embeddings
+      SET content = ${content},
+          embedding = ${vectorStr}::vector,
+          content_tsv = to_tsvector('english', ${content}),
+          dimensions = ${vector.length},
+          token_count = ${countTokens(content)},
+          updated_at = NOW()
+      WHERE id = ${chunkId}
+    `;
+  }
+
+  /**
+   * Load a chatbot's chunking configuration, falling back to defaults
+   * if the chatbot no longer exists.
+   */
+  private async getChunkingSettings(
+    chatbotId: string,
+  ): Promise<ChunkingSettings> {
+    const chatbot = await this.prisma.chatbot.findUnique({
+      where: { id: chatbotId },
+      select: { chunkingStrategy: true, chunkSize: true, chunkOverlap: true },
+    });
+
+    if (!chatbot) return DEFAULT_CHUNKING_SETTINGS;
+
+    return {
+      strategy: chatbot.chunkingStrategy,
+      chunkSize: chatbot.chunkSize,
+      chunkOverlap: chatbot.chunkOverlap,
+    };
+  }
+
   /**
    * Delete all embeddings associated with a specific source.
    */
@@ -148,35 +377,144 @@ export class EmbeddingService {
   }
 
   /**
-   * Semantic search across stored embeddings using cosine similarity.
-   * Returns the top-K most relevant chunks with their scores.
+   * Re-embed a source, keeping its current chunks until the new ones are
+   * all stored. If embedding fails, the partly stored new chunks are
+   * dropped and the source stays indexed as it was.
+   */
+  async replaceEmbeddings(
+    chatbotId: string,
+    sourceType: SourceType,
+    sourceId: string,
+    texts: string[],
+  ): Promise<number> {
+    const previous = await this.prisma.embedding.findMany({
+      where: { chatbotId, sourceType, sourceId },
+      select: { id: true },
+    });
+    const previousIds = previous.map((e) => e.id);
+
+    let stored: number;
+    try {
+      stored = await this.storeEmbeddings(chatbotId, sourceType, sourceId, texts);
+    } catch (err) {
+      await this.prisma.embedding.deleteMany({
+        where: { chatbotId, sourceType, sourceId, id: { notIn: previousIds } },
+      });
+      throw err;
+    }
+
+    await this.prisma.embedding.deleteMany({ where: { id: { in: previousIds } } });
+    return stored;
+  }
+
+  /**
+   * Semantic search across the chatbot's active-model embeddings using
+   * cosine similarity. Returns the top-K most relevant chunks with their
+   * scores.
    */
   async search(
     chatbotId: string,
     query: string,
     topK = 5,
-  ): Promise<{ content: string; score: number; metadata: any }[]> {
-    const queryEmbedding = await this.generateEmbedding(query);
+  ): Promise<EmbeddingSearchResult[]> {
+    const config = await this.getActiveModel(chatbotId);
+    const queryEmbedding = await this.generateEmbedding(query, config);
     const vectorStr = `[${queryEmbedding.join(',')}]`;
 
     const results = await this.prisma.$queryRaw<
-      { id: string; content: string; metadata: any; score: number }[]
+      {
+        id: string;
+        content: string;
+        metadata: any;
+        source_type: SourceType;
+        source_id: string | null;
+        score: number;
+      }[]
     >`
       SELECT
         id,
         content,
         metadata,
+        source_type,
+        source_id,
         1 - (embedding <=> ${vectorStr}::vector) AS score
       FROM embeddings
       WHERE chatbot_id = ${chatbotId}
+        AND provider = ${config.provider}::"EmbeddingProviderType"
+        AND model = ${config.model}
+        AND is_active
       ORDER BY embedding <=> ${vectorStr}::vector
       LIMIT ${topK}
     `;
 
     return results.map((r) => ({
+      id: r.id,
+      content: r.content,
+      score: Number(r.score),
+      metadata: r.metadata,
+      sourceType: r.source_type,
+      sourceId: r.source_id,
+    }));
+  }
+
+  /**
+   * Full-text keyword search over chunk content using Postgres tsvector
+   * ranking (ts_rank_cd, cover density). Catches exact tokens such as
+   * SKUs, product codes and error strings that embeddings tend to blur.
+   * Query terms are OR-ed so a chunk only needs to contain some of them;
+   * chunks matching more terms rank higher.
+   */
+  async keywordSearch(
+    chatbotId: string,
+    query: string,
+    topK = 5,
+  ): Promise<EmbeddingSearchResult[]> {
+    if (!query.trim()) return [];
+
+    // Only the active model's rows, so chunks mid-migration aren't doubled
+    const config = await this.getActiveModel(chatbotId);
+
+    const results = await this.prisma.$queryRaw<
+      {
+        id: string;
+        content: string;
+        metadata: any;
+        source_type: SourceType;
+        source_id: string | null;
+        score: number;
+      }[]
+    >`
+      WITH q AS (
+        SELECT to_tsquery(
+          'english',
+          replace(plainto_tsquery('english', ${query})::text, ' & ', ' | ')
+        ) AS query
+      )
+      SELECT
+        e.id,
+        e.content,
+        e.metadata,
+        e.source_type,
+        e.source_id,
+        ts_rank_cd(e.content_tsv, q.query, 32) AS score
+      FROM embeddings e, q
+      WHERE e.chatbot_id = ${chatbotId}
+        AND e.provider = ${config.provider}::"EmbeddingProviderType"
+        AND e.model = ${config.model}
+        AND e.is_active
+        AND q.query::text <> ''
+        AND e.content_tsv @@ q.query
+      ORDER BY score DESC
+      LIMIT ${topK}
+    `;
+
+    return results.map((r) => ({
+      id: r.id,
       content: r.content,
       score: Number(r.score),
       metadata: r.metadata,
+      sourceType: r.source_type,
+      sourceId: r.source_id,
     }));
   }
 }
@@ -0,0 +1,61 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  ParseIntPipe,
+  DefaultValuePipe,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { CurrentUser } from '../../core/common/decorators';
+import {
+  FileTrainingService,
+  MAX_TRAINING_FILE_SIZE_BYTES,
+} from './file-training.service';
+import { UploadFileDto } from './dto';
+
+@Controller('knowledge')
+export class FileTrainingController {
+  constructor(private readonly fileTrainingService: FileTrainingService) {}
+
+  @Post('files')
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: { fileSize: MAX_TRAINING_FILE_SIZE_BYTES },
+    }),
+  )
+  async upload(
+    @CurrentUser('orgId') orgId: string,
+    @Body() dto: UploadFileDto,
+    @UploadedFile() file: Express.Multer.File,
+  ) {
+    const fileTraining = await this.fileTrainingService.upload(
+      orgId,
+      dto.chatbotId,
+      file,
+    );
+    return { file: fileTraining };
+  }
+
+  @Get('files/:chatbotId')
+  async findAll(
+    @Param('chatbotId') chatbotId: string,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+  ) {
+    return this.fileTrainingService.findAllByBot(chatbotId, page, limit);
+  }
+
+  @Delete('files/:fileId')
+  async remove(
+    @Param('fileId') fileId: string,
+    @CurrentUser('orgId') orgId: string,
+  ) {
+    return this.fileTrainingService.delete(fileId, orgId);
+  }
+}
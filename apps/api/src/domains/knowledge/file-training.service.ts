@@ -0,0 +1,150 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { randomUUID } from 'crypto';
+import * as path from 'path';
+import { PrismaService } from '../../core/database/prisma.service';
+import { StorageService } from '../../core/storage/storage.service';
+import { TrainingStatus, SourceType } from '../../generated/prisma';
+import { ChatbotService } from '../chatbot/chatbot.service';
+import { EmbeddingService } from './embedding.service';
+import { TextExtractorService } from './text-extractor.service';
+
+export const MAX_TRAINING_FILE_SIZE_BYTES = 20 * 1024 * 1024; // 20 MB
+
+@Injectable()
+export class FileTrainingService {
+  private readonly logger = new Logger(FileTrainingService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly storageService: StorageService,
+    private readonly chatbotService: ChatbotService,
+    private readonly embeddingService: EmbeddingService,
+    private readonly textExtractor: TextExtractorService,
+    @InjectQueue('training-queue') private readonly trainingQueue: Queue,
+  ) {}
+
+  /**
+   * Store an uploaded document, create its FileTraining record and enqueue
+   * it for text extraction and embedding.
+   */
+  async upload(orgId: string, chatbotId: string, file: Express.Multer.File) {
+    await this.chatbotService.validateOwnership(chatbotId, orgId);
+
+    if (!file || file.size === 0) {
+      throw new BadRequestException('Uploaded file is empty');
+    }
+
+    const pageType = this.textExtractor.detectPageType(
+      file.originalname,
+      file.mimetype,
+    );
+    if (!pageType) {
+      throw new BadRequestException(
+        'Unsupported file type. Allowed formats: PDF, DOCX, XLSX, CSV, TXT',
+      );
+    }
+
+    const extension = path.extname(file.originalname).toLowerCase();
+    const storagePath = await this.storageService.save(
+      `training-files/${chatbotId}/${randomUUID()}${extension}`,
+      file.buffer,
+    );
+
+    const fileTraining = await this.prisma.fileTraining.create({
+      data: {
+        chatbotId,
+        fileName: file.originalname,
+        storagePath,
+        mimeType: file.mimetype,
+        fileSize: file.size,
+        pageType,
+        trainingStatus: TrainingStatus.PENDING,
+      },
+    });
+
+    await this.trainingQueue.add(
+      'train',
+      {
+        type: 'file',
+        chatbotId,
+        sourceId: fileTraining.id,
+      },
+      {
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 3000 },
+        removeOnComplete: 100,
+        removeOnFail: 50,
+      },
+    );
+
+    this.logger.log(
+      `File ${fileTraining.id} (${file.originalname}) uploaded for chatbot ${chatbotId}`,
+    );
+    return fileTraining;
+  }
+
+  /**
+   * Paginated list of uploaded training files for a chatbot.
+   */
+  async findAllByBot(chatbotId: string, page = 1, limit = 20) {
+    const skip = (page - 1) * limit;
+
+    const [files, total] = await Promise.all([
+      this.prisma.fileTraining.findMany({
+        where: { chatbotId },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.fileTraining.count({ where: { chatbotId } }),
+    ]);
+
+    return {
+      files,
+      totalDocs: total,
+      totalPages: Math.ceil(total / limit),
+      currentPage: page,
+      limit,
+      hasNextPage: page < Math.ceil(total / limit),
+      hasPrevPage: page > 1,
+    };
+  }
+
+  /**
+   * Delete an uploaded file, its stored bytes and its embeddings.
+   */
+  async delete(fileId: string, orgId: string) {
+    const fileTraining = await this.prisma.fileTraining.findUnique({
+      where: { id: fileId },
+      include: { chatbot: { select: { orgId: true } } },
+    });
+
+    if (!fileTraining) {
+      throw new NotFoundException('File not found');
+    }
+
+    if (fileTraining.chatbot.orgId !== orgId) {
+      throw new ForbiddenException('Access denied');
+    }
+
+    await this.embeddingService.deleteBySource(
+      fileTraining.chatbotId,
+      SourceType.FILE,
+      fileId,
+    );
+
+    await this.prisma.fileTraining.delete({ where: { id: fileId } });
+    await this.storageService.delete(fileTraining.storagePath);
+
+    this.logger.log(`File ${fileId} deleted`);
+    return { deleted: true };
+  }
+}
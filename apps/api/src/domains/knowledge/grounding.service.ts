@@ -0,0 +1,123 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../core/database/prisma.service';
+import { AiService } from '../ai/ai.service';
+import { DEFAULT_AI_MODEL } from '../ai/model-registry';
+import { RetrievedContext } from './rag.service';
+
+/** Answers scoring below this are logged as possibly ungrounded */
+export const GROUNDING_FLAG_THRESHOLD = 0.5;
+
+/** Sources are cut to this length to keep the judging prompt small */
+const MAX_SOURCE_CHARS = 1500;
+
+const SYSTEM_PROMPT = [
+  'You check whether an assistant\'s answer is supported by the sources it was given.',
+  'Split the answer into its factual claims. Ignore greetings, questions back to the user and statements that the answer is unknown.',
+  'A claim is supported if one of the sources states or directly implies it.',
+  'Reply with only JSON: {"supported": <number of supported claims>, "total": <number of claims>, "unsupported": [<claims not supported>]}',
+].join('\n');
+
+export interface GroundingResult {
+  /** Share of the answer's claims supported by the sources (0-1) */
+  score: number;
+  flagged: boolean;
+  unsupportedClaims: string[];
+}
+
+/**
+ * Post-generation check of how well an answer is grounded in the chunks
+ * retrieved for it, judged by an LLM. Used for analytics, so it never
+ * throws: a failed check returns null.
+ */
+@Injectable()
+export class GroundingService {
+  private readonly logger = new Logger(GroundingService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly aiService: AiService,
+  ) {}
+
+  /**
+   * Check a saved assistant message and store its score in
+   * `Message.grounded`. Meant to run after the response has been sent.
+   */
+  async checkMessage(
+    messageId: string,
+    answer: string,
+    contexts: RetrievedContext[],
+  ): Promise<void> {
+    const result = await this.check(answer, contexts);
+    if (!result) return;
+
+    if (result.flagged) {
+      this.logger.warn(
+        `Message ${messageId} may not be grounded (score ${result.score.toFixed(2)}): ${result.unsupportedClaims.slice(0, 3).join(' | ')}`,
+      );
+    }
+
+    await this.prisma.message
+      .update({ where: { id: messageId }, data: { grounded: result.score } })
+      .catch((err) =>
+        this.logger.warn(`Failed to store grounding for message ${messageId}: ${err.message}`),
+      );
+  }
+
+  /**
+   * Judge an answer against its sources. Null when there was nothing to
+   * check or the check failed.
+   */
+  async check(
+    answer: string,
+    contexts: RetrievedContext[],
+  ): Promise<GroundingResult | null> {
+    if (contexts.length === 0 || !answer.trim()) return null;
+
+    const sources = contexts
+      .map((ctx, i) => `[Source ${i + 1}] ${ctx.content.slice(0, MAX_SOURCE_CHARS)}`)
+      .join('\n\n');
+
+    try {
+      const { content } = await this.aiService.generateResponse({
+        modelName: this.configService.get<string>('GROUNDING_MODEL', DEFAULT_AI_MODEL),
+        systemPrompt: SYSTEM_PROMPT,
+        messages: [
+          {
+            role: 'user',
+            content: `Sources:\n\n${sources}\n\nAnswer:\n\n${answer}`,
+          },
+        ],
+        temperature: 0,
+      });
+
+      const match = /\{[\s\S]*\}/.exec(content);
+      const verdict = match
+        ? (JSON.parse(match[0]) as { supported?: unknown; total?: unknown; unsupported?: unknown })
+        : null;
+      const supported = Number(verdict?.supported);
+      const total = Number(verdict?.total);
+      if (!Number.isFinite(supported) || !Number.isFinite(total)) {
+        throw new Error(`unexpected reply: ${content.slice(0, 200)}`);
+      }
+
+      // An answer without factual claims has nothing to be ungrounded
+      const score = total > 0 ? Math.min(Math.max(supported / total, 0), 1) : 1;
+      const unsupportedClaims = Array.isArray(verdict?.unsupported)
+        ? verdict.unsupported.filter((c): c is string => typeof c === 'string')
+        : [];
+
+      return {
+        score,
+        flagged: score < GROUNDING_FLAG_THRESHOLD,
+        unsupportedClaims,
+      };
+    } catch (err) {
+      this.logger.warn(
+        `Grounding check failed: ${err instanceof Error ? err.message : err}`,
+      );
+      return null;
+    }
+  }
+}
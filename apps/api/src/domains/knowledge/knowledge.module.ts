@@ -1,33 +1,89 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { BullModule } from '@nestjs/bullmq';
 import { ChatbotModule } from '../chatbot/chatbot.module';
+import { AiModule } from '../ai/ai.module';
 import { CrawlController } from './crawl.controller';
 import { QnaController } from './qna.controller';
 import { TextTrainingController } from './text-training.controller';
+import { FileTrainingController } from './file-training.controller';
+import { EmbeddingController } from './embedding.controller';
+import { RetrainingController } from './retraining.controller';
+import { SourceController } from './source.controller';
+import { RetrievalController } from './retrieval.controller';
 import { CrawlService } from './crawl.service';
+import { CrawlProgressService } from './crawl-progress.service';
 import { QnaService } from './qna.service';
 import { TextTrainingService } from './text-training.service';
+import { FileTrainingService } from './file-training.service';
+import { TextExtractorService } from './text-extractor.service';
 import { EmbeddingService } from './embedding.service';
+import { EmbeddingMigrationService } from './embedding-migration.service';
+import {
+  OpenAiEmbeddingProvider,
+  GeminiEmbeddingProvider,
+  LocalEmbeddingProvider,
+} from './embedding-providers';
+import {
+  HttpCrawlProvider,
+  PlaywrightCrawlProvider,
+  FirecrawlCrawlProvider,
+} from './crawl-providers';
+import { CrossEncoderReranker, LlmReranker } from './rerankers';
 import { RagService } from './rag.service';
+import { QueryRewriterService } from './query-rewriter.service';
+import { GroundingService } from './grounding.service';
+import { RetrainingService } from './retraining.service';
+import { SourceService } from './source.service';
 import { CrawlWorker } from './crawl.worker';
 import { TrainingWorker } from './training.worker';
+import { RetrainingWorker } from './retraining.worker';
 
 @Module({
   imports: [
     BullModule.registerQueue({ name: 'crawl-queue' }),
     BullModule.registerQueue({ name: 'training-queue' }),
+    BullModule.registerQueue({ name: 'retraining-queue' }),
     ChatbotModule,
+    // Reranking, query rewriting and grounding checks call the model
+    // through AiService
+    forwardRef(() => AiModule),
+  ],
+  controllers: [
+    CrawlController,
+    QnaController,
+    TextTrainingController,
+    FileTrainingController,
+    EmbeddingController,
+    RetrainingController,
+    SourceController,
+    RetrievalController,
   ],
-  controllers: [CrawlController, QnaController, TextTrainingController],
   providers: [
     CrawlService,
+    CrawlProgressService,
     QnaService,
     TextTrainingService,
+    FileTrainingService,
+    TextExtractorService,
     EmbeddingService,
+    EmbeddingMigrationService,
+    OpenAiEmbeddingProvider,
+    GeminiEmbeddingProvider,
+    LocalEmbeddingProvider,
+    HttpCrawlProvider,
+    PlaywrightCrawlProvider,
+    FirecrawlCrawlProvider,
+    CrossEncoderReranker,
+    LlmReranker,
+    QueryRewriterService,
+    GroundingService,
     RagService,
+    RetrainingService,
+    SourceService,
     CrawlWorker,
     TrainingWorker,
+    RetrainingWorker,
   ],
-  exports: [RagService, EmbeddingService],
+  exports: [RagService, GroundingService, EmbeddingService],
 })
 export class KnowledgeModule {}
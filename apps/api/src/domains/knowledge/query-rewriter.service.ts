@@ -0,0 +1,145 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { QueryExpansion } from '../../generated/prisma';
+import { AiService } from '../ai/ai.service';
+import { DEFAULT_AI_MODEL } from '../ai/model-registry';
+
+/** Recent turns shown to the model when condensing a follow-up */
+const HISTORY_TURNS = 6;
+
+/** Long turns are cut so the condensing prompt stays small */
+const MAX_TURN_CHARS = 1000;
+
+/** Alternative phrasings generated for multi-query retrieval */
+const MULTI_QUERY_VARIANTS = 3;
+
+const CONDENSE_PROMPT = [
+  'Rewrite the user\'s latest message as a standalone search query for a knowledge base.',
+  'Resolve pronouns and references ("it", "that plan", "the second one") using the conversation.',
+  'Keep product names, codes and other exact terms. Do not answer the question.',
+  'If the message already stands on its own, return it unchanged.',
+  'Reply with only the query.',
+].join('\n');
+
+const MULTI_QUERY_PROMPT = [
+  `Write ${MULTI_QUERY_VARIANTS} alternative search queries for the question below,`,
+  'each phrased differently or covering a different aspect, to search a knowledge base.',
+  'Reply with only a JSON array of strings.',
+].join('\n');
+
+const HYDE_PROMPT = [
+  'Write a short passage (3-5 sentences) that could appear in a help article answering the question below.',
+  'It is used only to search for similar passages, so plausible details are fine.',
+  'Reply with only the passage.',
+].join('\n');
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Turns the latest chat message into the queries used for retrieval:
+ * follow-ups are condensed into a standalone question using the recent
+ * history, and can be expanded into several phrasings (multi-query) or a
+ * hypothetical answer (HyDE) whose results are merged. Every step falls
+ * back to the original message if the model call fails.
+ */
+@Injectable()
+export class QueryRewriterService {
+  private readonly logger = new Logger(QueryRewriterService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly aiService: AiService,
+  ) {}
+
+  /**
+   * The queries to retrieve with; the first is the standalone question.
+   */
+  async rewrite(
+    message: string,
+    history: ConversationTurn[],
+    options: { condense: boolean; expansion: QueryExpansion },
+  ): Promise<string[]> {
+    const query = options.condense
+      ? await this.condense(message, history)
+      : message;
+
+    switch (options.expansion) {
+      case QueryExpansion.MULTI_QUERY:
+        return [query, ...(await this.multiQuery(query))];
+      case QueryExpansion.HYDE:
+        return [query, ...(await this.hypotheticalAnswer(query))];
+      default:
+        return [query];
+    }
+  }
+
+  /**
+   * Rewrite a follow-up into a standalone question. The first message of
+   * a conversation is returned as-is.
+   */
+  async condense(message: string, history: ConversationTurn[]): Promise<string> {
+    const recent = history.slice(-HISTORY_TURNS);
+    if (recent.length === 0) return message;
+
+    const transcript = recent
+      .map((turn) => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content.slice(0, MAX_TURN_CHARS)}`)
+      .join('\n');
+
+    const rewritten = await this.complete(
+      CONDENSE_PROMPT,
+      `Conversation:\n${transcript}\n\nLatest message: ${message}`,
+    );
+    const query = rewritten?.trim().replace(/^["']|["']$/g, '');
+
+    if (query && query !== message) {
+      this.logger.debug(`Condensed "${message}" to "${query}"`);
+    }
+    return query || message;
+  }
+
+  private async multiQuery(query: string): Promise<string[]> {
+    const reply = await this.complete(MULTI_QUERY_PROMPT, query);
+    if (!reply) return [];
+
+    try {
+      const match = /\[[\s\S]*\]/.exec(reply);
+      const variants: unknown = match ? JSON.parse(match[0]) : [];
+      return Array.isArray(variants)
+        ? variants
+            .filter((v): v is string => typeof v === 'string' && v.trim() !== '')
+            .map((v) => v.trim())
+            .filter((v) => v !== query)
+            .slice(0, MULTI_QUERY_VARIANTS)
+        : [];
+    } catch {
+      this.logger.warn(`Could not parse query variants: ${reply.slice(0, 200)}`);
+      return [];
+    }
+  }
+
+  private async hypotheticalAnswer(query: string): Promise<string[]> {
+    const passage = (await this.complete(HYDE_PROMPT, query))?.trim();
+    return passage ? [passage] : [];
+  }
+
+  /** One low-temperature completion; null if the call fails */
+  private async complete(systemPrompt: string, content: string): Promise<string | null> {
+    try {
+      const { content: reply } = await this.aiService.generateResponse({
+        modelName: this.configService.get<string>('QUERY_REWRITE_MODEL', DEFAULT_AI_MODEL),
+        systemPrompt,
+        messages: [{ role: 'user', content }],
+        temperature: 0,
+      });
+      return reply;
+    } catch (err) {
+      this.logger.warn(
+        `Query rewriting failed, using the original message: ${err instanceof Error ? err.message : err}`,
+      );
+      return null;
+    }
+  }
+}
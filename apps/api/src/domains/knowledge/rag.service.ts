@@ -1,10 +1,99 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { EmbeddingService } from './embedding.service';
+import {
+  Chatbot,
+  QueryExpansion,
+  RerankerType,
+  RetrievalMode,
+  SourceType,
+} from '../../generated/prisma';
+import { ChatbotService } from '../chatbot/chatbot.service';
+import { EmbeddingService, EmbeddingSearchResult } from './embedding.service';
+import { SourceService } from './source.service';
+import { CrossEncoderReranker, LlmReranker, Reranker } from './rerankers';
+import { ConversationTurn, QueryRewriterService } from './query-rewriter.service';
+import { TestRetrievalDto } from './dto';
 
 export interface RetrievedContext {
+  id: string;
   content: string;
   score: number;
   metadata: any;
+  sourceType: SourceType;
+  sourceId: string | null;
+  /** Cosine similarity, when the chunk was found by vector search */
+  vectorScore?: number;
+  /** ts_rank_cd score, when the chunk was found by keyword search */
+  keywordScore?: number;
+  /** Relevance from the reranker (0-1), when one is configured */
+  rerankScore?: number;
+}
+
+export interface RetrievalSettings {
+  mode: RetrievalMode;
+  /** Minimum cosine similarity for a vector match to be kept */
+  minScore: number;
+  topK: number;
+  /** Reorders an over-fetched candidate pool before the top K are taken */
+  reranker: RerankerType;
+  /** Condense follow-ups into standalone questions using the history */
+  queryRewriting: boolean;
+  /** Extra queries whose results are merged with the question's */
+  queryExpansion: QueryExpansion;
+  /** Answer only from the knowledge base, never from general knowledge */
+  strict: boolean;
+}
+
+const DEFAULT_RETRIEVAL_SETTINGS: RetrievalSettings = {
+  mode: RetrievalMode.VECTOR,
+  minScore: 0.3,
+  topK: 5,
+  reranker: RerankerType.NONE,
+  queryRewriting: false,
+  queryExpansion: QueryExpansion.NONE,
+  strict: false,
+};
+
+/** Reciprocal rank fusion constant from Cormack et al. (2009) */
+const RRF_K = 60;
+
+/** How many candidates each retriever contributes per requested result */
+const HYBRID_CANDIDATE_MULTIPLIER = 4;
+
+/** Candidates retrieved for the reranker to choose the top K from */
+const RERANK_CANDIDATES = 30;
+
+/** How many vector candidates the retrieval playground shows per requested result */
+const PLAYGROUND_CANDIDATE_MULTIPLIER = 4;
+
+/** Length of the chunk excerpt shown with a citation */
+const CITATION_EXCERPT_LENGTH = 200;
+
+/** Fallback citation labels for chunks whose source record is gone */
+const SOURCE_TYPE_LABELS: Record<SourceType, string> = {
+  [SourceType.CRAWL]: 'Web page',
+  [SourceType.FILE]: 'File',
+  [SourceType.QNA]: 'Q&A',
+  [SourceType.TEXT]: 'Text',
+  [SourceType.MANUAL]: 'Knowledge base',
+};
+
+/**
+ * A retrieved chunk as shown to users, linked back to where it came
+ * from. Mirrors the shared `Citation` type.
+ */
+export interface Citation {
+  /** Matches the `[Source n]` block the chunk was given to the model as */
+  index: number;
+  content: string;
+  /** Page title, file name, Q&A question, ... */
+  source: string;
+  sourceUrl?: string;
+  sourceType: SourceType;
+  sourceId: string | null;
+  score: number;
+  rerankScore?: number;
+  /** The answer refers to this source with an inline `[n]` marker */
+  cited?: boolean;
 }
 
 export interface RagResult {
@@ -12,43 +101,432 @@ export interface RagResult {
   contexts: RetrievedContext[];
 }
 
+/** Why a candidate chunk was left out of the prompt */
+export type CandidateRejection = 'below_threshold' | 'beyond_top_k';
+
+export interface RetrievalCandidate extends RetrievedContext {
+  selected: boolean;
+  rejectedReason: CandidateRejection | null;
+}
+
+export interface PlaygroundCandidate extends RetrievalCandidate {
+  rank: number;
+  sourceTitle: string | null;
+  sourceUrl: string | null;
+}
+
 @Injectable()
 export class RagService {
   private readonly logger = new Logger(RagService.name);
+  private readonly rerankers: Record<Exclude<RerankerType, 'NONE'>, Reranker>;
+
+  constructor(
+    private readonly embeddingService: EmbeddingService,
+    private readonly chatbotService: ChatbotService,
+    private readonly sourceService: SourceService,
+    private readonly queryRewriter: QueryRewriterService,
+    crossEncoderReranker: CrossEncoderReranker,
+    llmReranker: LlmReranker,
+  ) {
+    this.rerankers = {
+      [RerankerType.CROSS_ENCODER]: crossEncoderReranker,
+      [RerankerType.LLM]: llmReranker,
+    };
+  }
 
-  constructor(private readonly embeddingService: EmbeddingService) {}
+  /**
+   * Resolve a chatbot's stored retrieval configuration.
+   */
+  settingsFor(
+    chatbot: Pick<
+      Chatbot,
+      | 'retrievalMode'
+      | 'retrievalMinScore'
+      | 'reranker'
+      | 'queryRewriting'
+      | 'queryExpansion'
+      | 'strictMode'
+    >,
+  ): RetrievalSettings {
+    return {
+      ...DEFAULT_RETRIEVAL_SETTINGS,
+      mode: chatbot.retrievalMode,
+      minScore: chatbot.retrievalMinScore,
+      reranker: chatbot.reranker,
+      queryRewriting: chatbot.queryRewriting,
+      queryExpansion: chatbot.queryExpansion,
+      strict: chatbot.strictMode,
+    };
+  }
 
   /**
-   * Retrieve the top-K most relevant knowledge chunks for a user query.
+   * Retrieve the top-K most relevant knowledge chunks for a user query,
+   * using either pure vector search or hybrid keyword + vector fusion.
+   * `history` holds the conversation's earlier turns, used to rewrite
+   * follow-up questions when query rewriting is enabled.
    */
   async retrieveContext(
     chatbotId: string,
     query: string,
-    topK = 5,
+    settings: Partial<RetrievalSettings> = {},
+    history: ConversationTurn[] = [],
   ): Promise<RetrievedContext[]> {
+    const resolved = { ...DEFAULT_RETRIEVAL_SETTINGS, ...settings };
+
+    const queries = await this.rewriteQuery(query, history, resolved);
+    const candidates = await this.rankCandidates(
+      chatbotId,
+      queries,
+      resolved,
+      resolved.topK,
+    );
+    const contexts = candidates
+      .filter((c) => c.selected)
+      .map(({ selected: _selected, rejectedReason: _reason, ...ctx }) => ctx);
+
+    // Hybrid search keeps keyword hits regardless of similarity, and a
+    // shared word isn't an answer: strict mode needs at least one chunk
+    // that clears the similarity threshold, or it falls back
+    if (
+      resolved.strict &&
+      !contexts.some((c) => (c.vectorScore ?? 0) > resolved.minScore)
+    ) {
+      this.logger.debug(
+        `RAG (${resolved.mode}): no chunk over the similarity threshold for chatbot ${chatbotId}, strict mode falls back`,
+      );
+      return [];
+    }
+
+    this.logger.debug(
+      `RAG (${resolved.mode}): retrieved ${contexts.length} relevant chunks for chatbot ${chatbotId}`,
+    );
+
+    return contexts;
+  }
+
+  /**
+   * Retrieval playground: run a query against a chatbot's index and
+   * return every candidate chunk, including the ones that were cut by
+   * the similarity threshold or top-K, together with the prompt the
+   * model would receive. Settings default to the chatbot's own.
+   */
+  async testRetrieval(orgId: string, dto: TestRetrievalDto) {
+    const chatbot = await this.chatbotService.validateOwnership(
+      dto.chatbotId,
+      orgId,
+    );
+
+    const settings: RetrievalSettings = {
+      ...this.settingsFor(chatbot),
+      ...(dto.mode && { mode: dto.mode }),
+      ...(dto.minScore !== undefined && { minScore: dto.minScore }),
+      ...(dto.topK !== undefined && { topK: dto.topK }),
+      ...(dto.reranker && { reranker: dto.reranker }),
+      ...(dto.queryExpansion && { queryExpansion: dto.queryExpansion }),
+    };
+
+    const startedAt = Date.now();
+    const queries = await this.rewriteQuery(dto.query, [], settings);
+    const candidates = await this.rankCandidates(
+      chatbot.id,
+      queries,
+      settings,
+      settings.topK * PLAYGROUND_CANDIDATE_MULTIPLIER,
+    );
+    const tookMs = Date.now() - startedAt;
+
+    const labels = await this.sourceService.resolveLabels(
+      candidates
+        .filter((c): c is RetrievalCandidate & { sourceId: string } => !!c.sourceId)
+        .map((c) => ({ sourceType: c.sourceType, sourceId: c.sourceId })),
+    );
+
+    const { augmentedPrompt, contexts } = this.buildAugmentedPrompt(
+      chatbot.systemPrompt,
+      candidates.filter((c) => c.selected),
+      settings.strict,
+    );
+
+    return {
+      settings,
+      defaults: this.settingsFor(chatbot),
+      queries,
+      tookMs,
+      candidates: candidates.map((c, i): PlaygroundCandidate => {
+        const label = c.sourceId
+          ? labels.get(`${c.sourceType}:${c.sourceId}`)
+          : undefined;
+        return {
+          ...c,
+          rank: i + 1,
+          sourceTitle: label?.title ?? null,
+          sourceUrl: label?.url ?? null,
+        };
+      }),
+      selectedCount: contexts.length,
+      augmentedPrompt,
+    };
+  }
+
+  /**
+   * Rank candidate chunks for a query and mark which of them make it into
+   * the prompt. The selected candidates come first, in the order they are
+   * passed to the model. `candidateLimit` bounds the vector search; hybrid
+   * search always fuses its own candidate pool. With a reranker, a larger
+   * pool is retrieved and the reranker picks the top K from it.
+   */
+  private async rankCandidates(
+    chatbotId: string,
+    queries: string[],
+    { mode, minScore, topK, reranker }: RetrievalSettings,
+    candidateLimit: number,
+  ): Promise<RetrievalCandidate[]> {
+    const poolSize =
+      reranker === RerankerType.NONE ? topK : Math.max(topK, RERANK_CANDIDATES);
+
+    const lists = await Promise.all(
+      queries.map((query) =>
+        mode === RetrievalMode.HYBRID
+          ? this.hybridSearch(chatbotId, query, poolSize, minScore)
+          : this.vectorSearch(chatbotId, query, poolSize, minScore, candidateLimit),
+      ),
+    );
+    const candidates =
+      lists.length === 1 ? lists[0] : this.mergeCandidates(lists, poolSize);
+
+    // The reranker judges against the question itself, not the variants
+    return reranker === RerankerType.NONE
+      ? candidates
+      : this.rerank(queries[0], candidates, topK, reranker);
+  }
+
+  private rewriteQuery(
+    query: string,
+    history: ConversationTurn[],
+    settings: RetrievalSettings,
+  ): Promise<string[]> {
+    return this.queryRewriter.rewrite(query, history, {
+      condense: settings.queryRewriting,
+      expansion: settings.queryExpansion,
+    });
+  }
+
+  /**
+   * Merge the candidates of several queries, keeping each chunk's best
+   * score. Chunks that cleared the threshold for any query compete for
+   * the `limit` selected places.
+   */
+  private mergeCandidates(
+    lists: RetrievalCandidate[][],
+    limit: number,
+  ): RetrievalCandidate[] {
+    const eligible = (c: RetrievalCandidate) => c.rejectedReason !== 'below_threshold';
+
+    const best = new Map<string, RetrievalCandidate>();
+    for (const candidate of lists.flat()) {
+      const existing = best.get(candidate.id);
+      const better =
+        !existing ||
+        (eligible(candidate) && !eligible(existing)) ||
+        (eligible(candidate) === eligible(existing) && candidate.score > existing.score);
+      if (better) best.set(candidate.id, candidate);
+    }
+
+    const merged = [...best.values()].sort((a, b) => b.score - a.score);
+    return [
+      ...merged.filter(eligible).map((c, i): RetrievalCandidate => ({
+        ...c,
+        selected: i < limit,
+        rejectedReason: i < limit ? null : 'beyond_top_k',
+      })),
+      ...merged.filter((c) => !eligible(c)),
+    ];
+  }
+
+  /**
+   * Reorder the selected candidates by reranker score and keep the top K.
+   * If the reranker fails, retrieval order is kept so answering still
+   * works.
+   */
+  private async rerank(
+    query: string,
+    candidates: RetrievalCandidate[],
+    topK: number,
+    type: Exclude<RerankerType, 'NONE'>,
+  ): Promise<RetrievalCandidate[]> {
+    const pool = candidates.filter((c) => c.selected);
+    const rest = candidates.filter((c) => !c.selected);
+
+    let ordered = pool;
+    try {
+      if (pool.length > 0) {
+        const scores = await this.rerankers[type].rerank(
+          query,
+          pool.map((c) => c.content),
+        );
+        ordered = pool
+          .map((c, i) => ({ ...c, rerankScore: scores[i] }))
+          .sort((a, b) => b.rerankScore - a.rerankScore);
+      }
+    } catch (err) {
+      this.logger.warn(
+        `Reranker ${type} failed, keeping retrieval order: ${err instanceof Error ? err.message : err}`,
+      );
+    }
+
+    return [
+      ...ordered.map((c, i): RetrievalCandidate => ({
+        ...c,
+        selected: i < topK,
+        rejectedReason: i < topK ? null : 'beyond_top_k',
+      })),
+      ...rest,
+    ];
+  }
+
+  private async vectorSearch(
+    chatbotId: string,
+    query: string,
+    topK: number,
+    minScore: number,
+    candidateLimit: number,
+  ): Promise<RetrievalCandidate[]> {
     const results = await this.embeddingService.search(
       chatbotId,
       query,
-      topK,
+      Math.max(topK, candidateLimit),
     );
 
-    // Filter out low-confidence results (below 0.3 cosine similarity)
-    const filtered = results.filter((r) => r.score > 0.3);
+    // Results come back best first, so everything over the configured
+    // similarity forms a prefix of which the first topK are used
+    let kept = 0;
+    return results.map((r) => {
+      let rejectedReason: CandidateRejection | null = null;
+      if (r.score <= minScore) {
+        rejectedReason = 'below_threshold';
+      } else if (kept >= topK) {
+        rejectedReason = 'beyond_top_k';
+      } else {
+        kept++;
+      }
+      return {
+        ...r,
+        vectorScore: r.score,
+        selected: rejectedReason === null,
+        rejectedReason,
+      };
+    });
+  }
 
-    this.logger.debug(
-      `RAG: retrieved ${filtered.length}/${results.length} relevant chunks for chatbot ${chatbotId}`,
+  /**
+   * Run vector and keyword search side by side and merge the two rankings
+   * with reciprocal rank fusion. Weak vector matches are dropped before
+   * fusion; keyword matches are always kept since they share query terms.
+   * The fused score is normalised to 0-1 (1 = ranked first by both).
+   * Dropped vector matches are returned last, with a fused score of 0.
+   */
+  private async hybridSearch(
+    chatbotId: string,
+    query: string,
+    topK: number,
+    minScore: number,
+  ): Promise<RetrievalCandidate[]> {
+    const candidates = topK * HYBRID_CANDIDATE_MULTIPLIER;
+
+    const [vectorResults, keywordResults] = await Promise.all([
+      this.embeddingService.search(chatbotId, query, candidates),
+      this.embeddingService.keywordSearch(chatbotId, query, candidates),
+    ]);
+
+    const fused = new Map<string, RetrievedContext>();
+    const addRanked = (
+      results: EmbeddingSearchResult[],
+      scoreKey: 'vectorScore' | 'keywordScore',
+    ) => {
+      results.forEach((r, rank) => {
+        const existing = fused.get(r.id) ?? {
+          id: r.id,
+          content: r.content,
+          metadata: r.metadata,
+          sourceType: r.sourceType,
+          sourceId: r.sourceId,
+          score: 0,
+        };
+        existing.score += 1 / (RRF_K + rank + 1);
+        existing[scoreKey] = r.score;
+        fused.set(r.id, existing);
+      });
+    };
+
+    addRanked(
+      vectorResults.filter((r) => r.score > minScore),
+      'vectorScore',
     );
+    addRanked(keywordResults, 'keywordScore');
 
-    return filtered;
+    const maxScore = 2 / (RRF_K + 1);
+    const ranked = [...fused.values()]
+      .sort((a, b) => b.score - a.score)
+      .map((ctx, i): RetrievalCandidate => ({
+        ...ctx,
+        score: ctx.score / maxScore,
+        selected: i < topK,
+        rejectedReason: i < topK ? null : 'beyond_top_k',
+      }));
+
+    const belowThreshold = vectorResults
+      .filter((r) => r.score <= minScore && !fused.has(r.id))
+      .map((r): RetrievalCandidate => ({
+        ...r,
+        score: 0,
+        vectorScore: r.score,
+        selected: false,
+        rejectedReason: 'below_threshold',
+      }));
+
+    return [...ranked, ...belowThreshold];
+  }
+
+  /**
+   * Resolve the contexts passed to the model into citations naming their
+   * origin: the crawled page's title and URL, the Q&A question or the
+   * uploaded file's name.
+   */
+  async buildCitations(contexts: RetrievedContext[]): Promise<Citation[]> {
+    if (contexts.length === 0) return [];
+
+    const labels = await this.sourceService.resolveLabels(
+      contexts
+        .filter((ctx): ctx is RetrievedContext & { sourceId: string } => !!ctx.sourceId)
+        .map((ctx) => ({ sourceType: ctx.sourceType, sourceId: ctx.sourceId })),
+    );
+
+    return contexts.map((ctx, i) => {
+      const label = ctx.sourceId
+        ? labels.get(`${ctx.sourceType}:${ctx.sourceId}`)
+        : undefined;
+      return {
+        index: i + 1,
+        content: ctx.content.substring(0, CITATION_EXCERPT_LENGTH),
+        source: label?.title || label?.url || SOURCE_TYPE_LABELS[ctx.sourceType],
+        ...(label?.url && { sourceUrl: label.url }),
+        sourceType: ctx.sourceType,
+        sourceId: ctx.sourceId,
+        score: ctx.score,
+        rerankScore: ctx.rerankScore,
+      };
+    });
   }
 
   /**
    * Build an augmented system prompt by prepending retrieved knowledge
-   * context to the original system prompt.
+   * context to the original system prompt. In strict mode the model is
+   * told to answer from the context only.
    */
   buildAugmentedPrompt(
     systemPrompt: string | null | undefined,
     contexts: RetrievedContext[],
+    strict = false,
   ): RagResult {
     if (contexts.length === 0) {
       return {
@@ -61,11 +539,23 @@ export class RagService {
       .map((ctx, i) => `[Source ${i + 1}] ${ctx.content}`)
       .join('\n\n');
 
+    const guidance = strict
+      ? [
+          'Answer the user\'s question using only the following knowledge base context.',
+          'If the context does not contain the answer, say that you don\'t have that information.',
+          'Never answer from general knowledge or make up details that are not in the context.',
+        ]
+      : [
+          'Use the following knowledge base context to answer the user\'s question.',
+          'If the context is relevant, incorporate it into your response.',
+          'If the context is not relevant to the question, rely on your general knowledge.',
+          'When using information from the context, be accurate and helpful.',
+        ];
+
     const ragPrefix = [
-      'Use the following knowledge base context to answer the user\'s question.',
-      'If the context is relevant, incorporate it into your response.',
-      'If the context is not relevant to the question, rely on your general knowledge.',
-      'When using information from the context, be accurate and helpful.',
+      ...guidance,
+      'Cite the sources you use inline by number, e.g. [1] or [1, 3], right after the statement they support.',
+      'Only cite the numbered sources below, and do not add citations to general knowledge.',
       '',
       '--- Knowledge Base Context ---',
       contextBlock,
@@ -89,9 +579,10 @@ export class RagService {
     chatbotId: string,
     query: string,
     systemPrompt?: string | null,
-    topK = 5,
+    settings: Partial<RetrievalSettings> = {},
+    history: ConversationTurn[] = [],
   ): Promise<RagResult> {
-    const contexts = await this.retrieveContext(chatbotId, query, topK);
-    return this.buildAugmentedPrompt(systemPrompt, contexts);
+    const contexts = await this.retrieveContext(chatbotId, query, settings, history);
+    return this.buildAugmentedPrompt(systemPrompt, contexts, settings.strict);
   }
 }
@@ -0,0 +1,89 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type {
+  PreTrainedModel,
+  PreTrainedTokenizer,
+  Tensor,
+} from '@huggingface/transformers';
+import { RerankerType } from '../../../generated/prisma';
+import { Reranker } from './reranker.interface';
+
+const DEFAULT_MODEL = 'Xenova/ms-marco-MiniLM-L-6-v2';
+
+/** Query/passage pairs scored per forward pass */
+const BATCH_SIZE = 16;
+
+interface CrossEncoder {
+  tokenizer: PreTrainedTokenizer;
+  model: PreTrainedModel;
+}
+
+/**
+ * Scores query/passage pairs with a cross-encoder (MS MARCO MiniLM by
+ * default) on the CPU via transformers.js. Slower than a bi-encoder but
+ * reads the query and passage together, so it ranks far more precisely.
+ * Weights share the local embedding model cache.
+ */
+@Injectable()
+export class CrossEncoderReranker implements Reranker {
+  readonly type = RerankerType.CROSS_ENCODER;
+  private readonly logger = new Logger(CrossEncoderReranker.name);
+  private loading: Promise<CrossEncoder> | null = null;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async rerank(query: string, documents: string[]): Promise<number[]> {
+    const { tokenizer, model } = await this.getModel();
+    const scores: number[] = [];
+
+    for (let i = 0; i < documents.length; i += BATCH_SIZE) {
+      const batch = documents.slice(i, i + BATCH_SIZE);
+      const inputs = tokenizer(new Array<string>(batch.length).fill(query), {
+        text_pair: batch,
+        padding: true,
+        truncation: true,
+      });
+      const { logits } = (await model(inputs)) as { logits: Tensor };
+      const batchScores = logits.sigmoid().tolist() as number[][];
+      scores.push(...batchScores.map(([score]) => score));
+    }
+
+    return scores;
+  }
+
+  /**
+   * Load the model once. A failed load is forgotten so the next call can
+   * retry.
+   */
+  private getModel(): Promise<CrossEncoder> {
+    if (!this.loading) {
+      this.loading = this.loadModel().catch((err) => {
+        this.loading = null;
+        throw err;
+      });
+    }
+    return this.loading;
+  }
+
+  private async loadModel(): Promise<CrossEncoder> {
+    const { AutoTokenizer, AutoModelForSequenceClassification, env } =
+      await import('@huggingface/transformers');
+
+    const cacheDir = this.configService.get<string>('LOCAL_EMBEDDING_CACHE_DIR');
+    if (cacheDir) {
+      env.cacheDir = cacheDir;
+    }
+
+    const modelName = this.configService.get<string>(
+      'RERANKER_CROSS_ENCODER_MODEL',
+      DEFAULT_MODEL,
+    );
+    this.logger.log(`Loading cross-encoder ${modelName}`);
+
+    const [tokenizer, model] = await Promise.all([
+      AutoTokenizer.from_pretrained(modelName),
+      AutoModelForSequenceClassification.from_pretrained(modelName),
+    ]);
+    return { tokenizer, model };
+  }
+}
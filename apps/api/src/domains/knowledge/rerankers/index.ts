@@ -0,0 +1,3 @@
+export { Reranker } from './reranker.interface';
+export { CrossEncoderReranker } from './cross-encoder.reranker';
+export { LlmReranker } from './llm.reranker';
@@ -0,0 +1,68 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RerankerType } from '../../../generated/prisma';
+import { AiService } from '../../ai/ai.service';
+import { DEFAULT_AI_MODEL } from '../../ai/model-registry';
+import { Reranker } from './reranker.interface';
+
+/** Passages are cut to this length to keep the scoring prompt small */
+const MAX_PASSAGE_CHARS = 1200;
+
+const SYSTEM_PROMPT = [
+  'You rate how well passages answer a search query.',
+  'Score each passage from 0 (irrelevant) to 10 (fully answers the query).',
+  'Reply with only a JSON array of numbers, one per passage, in the given order.',
+].join('\n');
+
+/**
+ * Scores passages with a single LLM call. No local model needed, at the
+ * cost of one extra round trip per retrieval.
+ */
+@Injectable()
+export class LlmReranker implements Reranker {
+  readonly type = RerankerType.LLM;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly aiService: AiService,
+  ) {}
+
+  async rerank(query: string, documents: string[]): Promise<number[]> {
+    const passages = documents
+      .map((doc, i) => `[${i + 1}] ${doc.slice(0, MAX_PASSAGE_CHARS)}`)
+      .join('\n\n');
+
+    const { content } = await this.aiService.generateResponse({
+      modelName: this.configService.get<string>('RERANKER_LLM_MODEL', DEFAULT_AI_MODEL),
+      systemPrompt: SYSTEM_PROMPT,
+      messages: [
+        {
+          role: 'user',
+          content: `Query: ${query}\n\nPassages:\n\n${passages}`,
+        },
+      ],
+      temperature: 0,
+    });
+
+    return parseScores(content, documents.length);
+  }
+}
+
+/**
+ * Pull the score array out of the model's reply (which may be wrapped in
+ * a code fence) and normalise it to 0-1.
+ */
+function parseScores(reply: string, expected: number): number[] {
+  const match = /\[[\s\S]*\]/.exec(reply);
+  const scores: unknown = match ? JSON.parse(match[0]) : null;
+
+  if (
+    !Array.isArray(scores) ||
+    scores.length !== expected ||
+    !scores.every((s) => typeof s === 'number')
+  ) {
+    throw new Error(`LLM reranker returned an unexpected reply: ${reply.slice(0, 200)}`);
+  }
+
+  return (scores as number[]).map((s) => Math.min(Math.max(s / 10, 0), 1));
+}
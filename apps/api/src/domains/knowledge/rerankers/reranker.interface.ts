@@ -0,0 +1,10 @@
+import { RerankerType } from '../../../generated/prisma';
+
+export interface Reranker {
+  readonly type: Exclude<RerankerType, 'NONE'>;
+  /**
+   * Score how well each document answers the query, from 0 (irrelevant)
+   * to 1. Returns one score per document, in input order.
+   */
+  rerank(query: string, documents: string[]): Promise<number[]>;
+}
@@ -0,0 +1,65 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+} from '@nestjs/common';
+import { CurrentUser } from '../../core/common/decorators';
+import { RetrainingService } from './retraining.service';
+import {
+  CreateRetrainingScheduleDto,
+  UpdateRetrainingScheduleDto,
+} from './dto';
+
+@Controller('knowledge')
+export class RetrainingController {
+  constructor(private readonly retrainingService: RetrainingService) {}
+
+  @Post('retraining')
+  async create(
+    @CurrentUser('orgId') orgId: string,
+    @Body() dto: CreateRetrainingScheduleDto,
+  ) {
+    const schedule = await this.retrainingService.create(orgId, dto);
+    return { schedule };
+  }
+
+  @Get('retraining/:chatbotId')
+  async findAll(@Param('chatbotId') chatbotId: string) {
+    return this.retrainingService.findAllByBot(chatbotId);
+  }
+
+  @Patch('retraining/:scheduleId')
+  async update(
+    @Param('scheduleId') scheduleId: string,
+    @CurrentUser('orgId') orgId: string,
+    @Body() dto: UpdateRetrainingScheduleDto,
+  ) {
+    const schedule = await this.retrainingService.update(scheduleId, orgId, dto);
+    return { schedule };
+  }
+
+  @Delete('retraining/:scheduleId')
+  async remove(
+    @Param('scheduleId') scheduleId: string,
+    @CurrentUser('orgId') orgId: string,
+  ) {
+    return this.retrainingService.delete(scheduleId, orgId);
+  }
+
+  @Get('retraining/:scheduleId/runs')
+  async getRuns(@Param('scheduleId') scheduleId: string) {
+    return this.retrainingService.getRuns(scheduleId);
+  }
+
+  @Post('retraining/:scheduleId/run')
+  async runNow(
+    @Param('scheduleId') scheduleId: string,
+    @CurrentUser('orgId') orgId: string,
+  ) {
+    return this.retrainingService.runNow(scheduleId, orgId);
+  }
+}
@@ -0,0 +1,408 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { parseExpression } from 'cron-parser';
+import { PrismaService } from '../../core/database/prisma.service';
+import {
+  CrawlStatus,
+  RetrainingRunStatus,
+  TrainingStatus,
+} from '../../generated/prisma';
+import { ChatbotService } from '../chatbot/chatbot.service';
+import { CrawlService } from './crawl.service';
+import { qnaTrainingText, trainingContentHash } from './training-content';
+import {
+  CreateRetrainingScheduleDto,
+  UpdateRetrainingScheduleDto,
+} from './dto';
+
+/** Schedules are evaluated in UTC, both here and by the BullMQ scheduler */
+const SCHEDULE_TIMEZONE = 'UTC';
+
+const TRAINING_JOB_OPTIONS = {
+  attempts: 3,
+  backoff: { type: 'exponential', delay: 3000 },
+  removeOnComplete: 100,
+  removeOnFail: 50,
+};
+
+@Injectable()
+export class RetrainingService implements OnModuleInit {
+  private readonly logger = new Logger(RetrainingService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly chatbotService: ChatbotService,
+    private readonly crawlService: CrawlService,
+    @InjectQueue('retraining-queue') private readonly retrainingQueue: Queue,
+    @InjectQueue('training-queue') private readonly trainingQueue: Queue,
+  ) {}
+
+  /**
+   * Re-register a repeatable job for every active schedule so the cron
+   * survives a Redis flush. Upserting is idempotent.
+   */
+  async onModuleInit(): Promise<void> {
+    try {
+      const schedules = await this.prisma.scheduledRetraining.findMany({
+        where: { isActive: true },
+      });
+      for (const schedule of schedules) {
+        await this.syncScheduler(schedule.id, schedule.cronExpression, true);
+      }
+      if (schedules.length > 0) {
+        this.logger.log(`Synced ${schedules.length} retraining schedule(s)`);
+      }
+    } catch (err) {
+      this.logger.warn(
+        `Retraining scheduler sync skipped: ${err instanceof Error ? err.message : err}`,
+      );
+    }
+  }
+
+  /**
+   * Create a retraining schedule for a chatbot and register its cron.
+   */
+  async create(orgId: string, dto: CreateRetrainingScheduleDto) {
+    await this.chatbotService.validateOwnership(dto.chatbotId, orgId);
+
+    const isActive = dto.isActive ?? true;
+    const nextRunAt = this.computeNextRun(dto.cronExpression);
+    this.assertHourlyAtMost(dto.cronExpression);
+
+    const schedule = await this.prisma.scheduledRetraining.create({
+      data: {
+        chatbotId: dto.chatbotId,
+        cronExpression: dto.cronExpression.trim(),
+        isActive,
+        nextRunAt: isActive ? nextRunAt : null,
+      },
+    });
+
+    await this.syncScheduler(schedule.id, schedule.cronExpression, isActive);
+
+    this.logger.log(
+      `Retraining schedule ${schedule.id} created for chatbot ${dto.chatbotId} (${schedule.cronExpression})`,
+    );
+    return schedule;
+  }
+
+  /**
+   * List a chatbot's retraining schedules with their most recent run.
+   */
+  async findAllByBot(chatbotId: string) {
+    const schedules = await this.prisma.scheduledRetraining.findMany({
+      where: { chatbotId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        runs: { orderBy: { startedAt: 'desc' }, take: 1 },
+      },
+    });
+
+    return { schedules };
+  }
+
+  /**
+   * Change a schedule's cron expression or pause/resume it.
+   */
+  async update(
+    scheduleId: string,
+    orgId: string,
+    dto: UpdateRetrainingScheduleDto,
+  ) {
+    const schedule = await this.findOwned(scheduleId, orgId);
+
+    const cronExpression = dto.cronExpression?.trim() ?? schedule.cronExpression;
+    const isActive = dto.isActive ?? schedule.isActive;
+    const nextRunAt = this.computeNextRun(cronExpression);
+    if (dto.cronExpression !== undefined) this.assertHourlyAtMost(cronExpression);
+
+    const updated = await this.prisma.scheduledRetraining.update({
+      where: { id: scheduleId },
+      data: {
+        cronExpression,
+        isActive,
+        nextRunAt: isActive ? nextRunAt : null,
+      },
+    });
+
+    await this.syncScheduler(scheduleId, cronExpression, isActive);
+    return updated;
+  }
+
+  /**
+   * Delete a schedule and its repeatable job. Run history is cascaded.
+   */
+  async delete(scheduleId: string, orgId: string) {
+    await this.findOwned(scheduleId, orgId);
+
+    await this.retrainingQueue.removeJobScheduler(this.schedulerId(scheduleId));
+    await this.prisma.scheduledRetraining.delete({ where: { id: scheduleId } });
+
+    this.logger.log(`Retraining schedule ${scheduleId} deleted`);
+    return { deleted: true };
+  }
+
+  /**
+   * Run history for a schedule, newest first.
+   */
+  async getRuns(scheduleId: string) {
+    const runs = await this.prisma.retrainingRun.findMany({
+      where: { scheduleId },
+      orderBy: { startedAt: 'desc' },
+      take: 20,
+    });
+
+    return { runs };
+  }
+
+  /**
+   * Trigger a schedule immediately, outside of its cron.
+   */
+  async runNow(scheduleId: string, orgId: string) {
+    await this.findOwned(scheduleId, orgId);
+
+    await this.retrainingQueue.add(
+      'retrain',
+      { scheduleId },
+      { removeOnComplete: 100, removeOnFail: 50 },
+    );
+
+    return { queued: true };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internal: called by the RetrainingWorker
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Execute one scheduled retraining: enqueue a refresh for every
+   * completed crawl job (only changed pages get re-embedded) and re-embed
+   * the chatbot's text and active QnA sources whose content changed since
+   * they were last trained. Records a run entry and advances the
+   * schedule's lastRunAt/nextRunAt.
+   */
+  async processRun(scheduleId: string): Promise<void> {
+    const schedule = await this.prisma.scheduledRetraining.findUnique({
+      where: { id: scheduleId },
+    });
+
+    if (!schedule) {
+      // Deleted between the cron firing and the job running
+      this.logger.warn(`Retraining schedule ${scheduleId} not found, removing scheduler`);
+      await this.retrainingQueue.removeJobScheduler(this.schedulerId(scheduleId));
+      return;
+    }
+
+    const run = await this.prisma.retrainingRun.create({
+      data: { scheduleId, status: RetrainingRunStatus.RUNNING },
+    });
+    const { chatbotId } = schedule;
+
+    try {
+      const crawlJobs = await this.prisma.crawlJob.findMany({
+        where: { chatbotId, status: CrawlStatus.COMPLETED },
+        select: { id: true },
+      });
+
+      let crawlRefreshes = 0;
+      for (const job of crawlJobs) {
+        const refresh = await this.crawlService.queueRefresh(job.id);
+        if (refresh) crawlRefreshes++;
+      }
+
+      const [allTextTrainings, allQnaPairs] = await Promise.all([
+        this.prisma.textTraining.findMany({
+          where: { chatbotId },
+          select: { id: true, content: true, trainingStatus: true, contentHash: true },
+        }),
+        this.prisma.qnaPair.findMany({
+          where: { chatbotId, isActive: true },
+          select: {
+            id: true,
+            question: true,
+            answer: true,
+            trainingStatus: true,
+            contentHash: true,
+          },
+        }),
+      ]);
+
+      const textTrainings = allTextTrainings.filter((t) =>
+        this.needsTraining(t, t.content),
+      );
+      const qnaPairs = allQnaPairs.filter((q) =>
+        this.needsTraining(q, qnaTrainingText(q)),
+      );
+
+      await this.enqueueTraining('text', chatbotId, textTrainings.map((t) => t.id));
+      await this.enqueueTraining('qna', chatbotId, qnaPairs.map((q) => q.id));
+
+      const now = new Date();
+      await this.prisma.$transaction([
+        this.prisma.retrainingRun.update({
+          where: { id: run.id },
+          data: {
+            status: RetrainingRunStatus.COMPLETED,
+            crawlRefreshes,
+            textSources: textTrainings.length,
+            qnaSources: qnaPairs.length,
+            completedAt: now,
+          },
+        }),
+        this.prisma.scheduledRetraining.update({
+          where: { id: scheduleId },
+          data: {
+            lastRunAt: now,
+            nextRunAt: schedule.isActive
+              ? this.computeNextRun(schedule.cronExpression, now)
+              : null,
+          },
+        }),
+      ]);
+
+      this.logger.log(
+        `Retraining run ${run.id} queued ${crawlRefreshes} crawl refresh(es), ${textTrainings.length} text and ${qnaPairs.length} QnA source(s)`,
+      );
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : 'Unknown error';
+
+      await this.prisma.retrainingRun.update({
+        where: { id: run.id },
+        data: {
+          status: RetrainingRunStatus.FAILED,
+          errorMessage,
+          completedAt: new Date(),
+        },
+      });
+
+      this.logger.error(`Retraining run ${run.id} failed: ${errorMessage}`);
+      throw err;
+    }
+  }
+
+  /**
+   * Next fire time of a cron expression after `from`. Throws a
+   * BadRequestException for expressions cron-parser can't read.
+   */
+  private computeNextRun(cronExpression: string, from = new Date()): Date {
+    try {
+      return parseExpression(cronExpression.trim(), {
+        currentDate: from,
+        tz: SCHEDULE_TIMEZONE,
+      })
+        .next()
+        .toDate();
+    } catch {
+      throw new BadRequestException(
+        `Invalid cron expression: "${cronExpression}"`,
+      );
+    }
+  }
+
+  /**
+   * Reject crons that fire more than once an hour: every run refreshes
+   * all of the chatbot's crawls. A single minute (and second) value is
+   * exactly what limits a cron to one run per hour.
+   */
+  private assertHourlyAtMost(cronExpression: string): void {
+    const { second, minute } = parseExpression(cronExpression.trim(), {
+      tz: SCHEDULE_TIMEZONE,
+    }).fields;
+
+    if (second.length > 1 || minute.length > 1) {
+      throw new BadRequestException('Retraining can run at most once an hour');
+    }
+  }
+
+  /** Whether a source's content changed since it was last embedded */
+  private needsTraining(
+    source: { trainingStatus: TrainingStatus; contentHash: string | null },
+    text: string,
+  ): boolean {
+    return (
+      source.trainingStatus !== TrainingStatus.TRAINED ||
+      source.contentHash !== trainingContentHash(text)
+    );
+  }
+
+  /**
+   * Register (or update) the BullMQ repeatable job for a schedule, or
+   * remove it when the schedule is paused.
+   */
+  private async syncScheduler(
+    scheduleId: string,
+    cronExpression: string,
+    isActive: boolean,
+  ): Promise<void> {
+    const schedulerId = this.schedulerId(scheduleId);
+
+    if (!isActive) {
+      await this.retrainingQueue.removeJobScheduler(schedulerId);
+      return;
+    }
+
+    await this.retrainingQueue.upsertJobScheduler(
+      schedulerId,
+      { pattern: cronExpression, tz: SCHEDULE_TIMEZONE },
+      {
+        name: 'retrain',
+        data: { scheduleId },
+        opts: { removeOnComplete: 100, removeOnFail: 50 },
+      },
+    );
+  }
+
+  private schedulerId(scheduleId: string): string {
+    return `retraining:${scheduleId}`;
+  }
+
+  private async enqueueTraining(
+    type: 'text' | 'qna',
+    chatbotId: string,
+    sourceIds: string[],
+  ): Promise<void> {
+    if (sourceIds.length === 0) return;
+
+    const where = { id: { in: sourceIds } };
+    const data = { trainingStatus: TrainingStatus.PENDING };
+    if (type === 'text') {
+      await this.prisma.textTraining.updateMany({ where, data });
+    } else {
+      await this.prisma.qnaPair.updateMany({ where, data });
+    }
+
+    await this.trainingQueue.addBulk(
+      sourceIds.map((sourceId) => ({
+        name: 'train',
+        data: { type, chatbotId, sourceId },
+        opts: TRAINING_JOB_OPTIONS,
+      })),
+    );
+  }
+
+  private async findOwned(scheduleId: string, orgId: string) {
+    const schedule = await this.prisma.scheduledRetraining.findUnique({
+      where: { id: scheduleId },
+      include: { chatbot: { select: { orgId: true } } },
+    });
+
+    if (!schedule) {
+      throw new NotFoundException('Retraining schedule not found');
+    }
+
+    if (schedule.chatbot.orgId !== orgId) {
+      throw new ForbiddenException('Access denied');
+    }
+
+    return schedule;
+  }
+}
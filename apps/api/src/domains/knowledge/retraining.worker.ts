@@ -0,0 +1,25 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bullmq';
+import { RetrainingService } from './retraining.service';
+
+@Processor('retraining-queue')
+export class RetrainingWorker extends WorkerHost {
+  private readonly logger = new Logger(RetrainingWorker.name);
+
+  constructor(private readonly retrainingService: RetrainingService) {
+    super();
+  }
+
+  async process(job: Job<{ scheduleId: string }>): Promise<void> {
+    this.logger.log(`Running retraining schedule ${job.data.scheduleId}`);
+
+    try {
+      await this.retrainingService.processRun(job.data.scheduleId);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      this.logger.error(`Retraining schedule ${job.data.scheduleId} failed: ${message}`);
+      throw err;
+    }
+  }
+}
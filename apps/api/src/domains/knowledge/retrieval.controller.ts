@@ -0,0 +1,18 @@
+import { Controller, Post, Body, HttpCode } from '@nestjs/common';
+import { CurrentUser } from '../../core/common/decorators';
+import { RagService } from './rag.service';
+import { TestRetrievalDto } from './dto';
+
+@Controller('knowledge')
+export class RetrievalController {
+  constructor(private readonly ragService: RagService) {}
+
+  @Post('retrieval/test')
+  @HttpCode(200)
+  async test(
+    @CurrentUser('orgId') orgId: string,
+    @Body() dto: TestRetrievalDto,
+  ) {
+    return this.ragService.testRetrieval(orgId, dto);
+  }
+}
@@ -0,0 +1,63 @@
+import {
+  Controller,
+  Get,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  ParseIntPipe,
+  ParseEnumPipe,
+  DefaultValuePipe,
+} from '@nestjs/common';
+import { CurrentUser } from '../../core/common/decorators';
+import { SourceType } from '../../generated/prisma';
+import { SourceService } from './source.service';
+import { UpdateChunkDto } from './dto';
+
+@Controller('knowledge')
+export class SourceController {
+  constructor(private readonly sourceService: SourceService) {}
+
+  @Get('sources/:chatbotId')
+  async findAll(
+    @Param('chatbotId') chatbotId: string,
+    @CurrentUser('orgId') orgId: string,
+    @Query('sourceType', new ParseEnumPipe(SourceType, { optional: true }))
+    sourceType: SourceType | undefined,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+  ) {
+    return this.sourceService.findAllByBot(chatbotId, orgId, sourceType, page, limit);
+  }
+
+  @Get('sources/:chatbotId/:sourceType/:sourceId/chunks')
+  async getChunks(
+    @Param('chatbotId') chatbotId: string,
+    @Param('sourceType', new ParseEnumPipe(SourceType)) sourceType: SourceType,
+    @Param('sourceId') sourceId: string,
+    @CurrentUser('orgId') orgId: string,
+  ) {
+    return this.sourceService.getChunks(chatbotId, orgId, sourceType, sourceId);
+  }
+
+  @Delete('sources/:chatbotId/:sourceType/:sourceId')
+  async deleteSource(
+    @Param('chatbotId') chatbotId: string,
+    @Param('sourceType', new ParseEnumPipe(SourceType)) sourceType: SourceType,
+    @Param('sourceId') sourceId: string,
+    @CurrentUser('orgId') orgId: string,
+  ) {
+    return this.sourceService.deleteSource(chatbotId, orgId, sourceType, sourceId);
+  }
+
+  @Patch('sources/chunks/:chunkId')
+  async updateChunk(
+    @Param('chunkId') chunkId: string,
+    @CurrentUser('orgId') orgId: string,
+    @Body() dto: UpdateChunkDto,
+  ) {
+    const chunk = await this.sourceService.updateChunk(chunkId, orgId, dto);
+    return { chunk };
+  }
+}
@@ -0,0 +1,357 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { PrismaService } from '../../core/database/prisma.service';
+import {
+  EmbeddingMigrationStatus,
+  Prisma,
+  SourceType,
+} from '../../generated/prisma';
+import { ChatbotService } from '../chatbot/chatbot.service';
+import { EmbeddingService } from './embedding.service';
+import { QnaService } from './qna.service';
+import { TextTrainingService } from './text-training.service';
+import { FileTrainingService } from './file-training.service';
+import { UpdateChunkDto } from './dto';
+
+export interface KnowledgeSource {
+  sourceType: SourceType;
+  sourceId: string;
+  /** Page title, file name, question, ... */
+  title: string | null;
+  url: string | null;
+  chunkCount: number;
+  disabledChunkCount: number;
+  tokenCount: number;
+  lastTrainedAt: Date | null;
+  /** The record the chunks came from no longer exists */
+  orphaned: boolean;
+}
+
+/**
+ * Inventory of what is in a chatbot's vector index, grouped by the
+ * source each chunk was trained from. Only the active embedding model's
+ * chunks are counted, so a model migration in flight doesn't double them.
+ */
+@Injectable()
+export class SourceService {
+  private readonly logger = new Logger(SourceService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly chatbotService: ChatbotService,
+    private readonly embeddingService: EmbeddingService,
+    private readonly qnaService: QnaService,
+    private readonly textTrainingService: TextTrainingService,
+    private readonly fileTrainingService: FileTrainingService,
+  ) {}
+
+  /**
+   * List a chatbot's knowledge sources with chunk and token counts,
+   * most recently trained first.
+   */
+  async findAllByBot(
+    chatbotId: string,
+    orgId: string,
+    sourceType?: SourceType,
+    page = 1,
+    limit = 20,
+  ) {
+    await this.chatbotService.validateOwnership(chatbotId, orgId);
+
+    const skip = (page - 1) * limit;
+    const where = await this.activeModelWhere(chatbotId, sourceType);
+
+    const [groups, allGroups, totals] = await Promise.all([
+      this.prisma.embedding.groupBy({
+        by: ['sourceType', 'sourceId'],
+        where,
+        _count: { _all: true },
+        _sum: { tokenCount: true },
+        _max: { createdAt: true },
+        orderBy: [{ _max: { createdAt: 'desc' } }, { sourceId: 'asc' }],
+        skip,
+        take: limit,
+      }),
+      this.prisma.embedding.groupBy({
+        by: ['sourceType', 'sourceId'],
+        where,
+      }),
+      this.prisma.embedding.aggregate({
+        where,
+        _count: { _all: true },
+        _sum: { tokenCount: true },
+      }),
+    ]);
+
+    const disabled = groups.length
+      ? await this.prisma.embedding.groupBy({
+          by: ['sourceType', 'sourceId'],
+          where: {
+            ...where,
+            isActive: false,
+            sourceId: { in: groups.map((g) => g.sourceId!) },
+          },
+          _count: { _all: true },
+        })
+      : [];
+    const disabledCounts = new Map(
+      disabled.map((g) => [`${g.sourceType}:${g.sourceId}`, g._count._all]),
+    );
+
+    const labels = await this.resolveLabels(
+      groups.map((g) => ({ sourceType: g.sourceType, sourceId: g.sourceId! })),
+    );
+
+    const sources: KnowledgeSource[] = groups.map((g) => {
+      const key = `${g.sourceType}:${g.sourceId}`;
+      const label = labels.get(key);
+      return {
+        sourceType: g.sourceType,
+        sourceId: g.sourceId!,
+        title: label?.title ?? null,
+        url: label?.url ?? null,
+        chunkCount: g._count._all,
+        disabledChunkCount: disabledCounts.get(key) ?? 0,
+        tokenCount: g._sum.tokenCount ?? 0,
+        lastTrainedAt: g._max.createdAt,
+        orphaned: !label,
+      };
+    });
+
+    const total = allGroups.length;
+    return {
+      sources,
+      totals: {
+        sources: total,
+        chunks: totals._count._all,
+        tokens: totals._sum.tokenCount ?? 0,
+      },
+      totalDocs: total,
+      totalPages: Math.ceil(total / limit),
+      currentPage: page,
+      limit,
+      hasNextPage: page < Math.ceil(total / limit),
+      hasPrevPage: page > 1,
+    };
+  }
+
+  /**
+   * The chunks of one source, in document order.
+   */
+  async getChunks(
+    chatbotId: string,
+    orgId: string,
+    sourceType: SourceType,
+    sourceId: string,
+  ) {
+    await this.chatbotService.validateOwnership(chatbotId, orgId);
+
+    const where = await this.activeModelWhere(chatbotId, sourceType);
+    const chunks = await this.prisma.embedding.findMany({
+      where: { ...where, sourceId },
+      select: {
+        id: true,
+        content: true,
+        tokenCount: true,
+        isActive: true,
+        metadata: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (chunks.length === 0) {
+      throw new NotFoundException('Source not found');
+    }
+
+    const chunkIndex = (metadata: Prisma.JsonValue) =>
+      Number((metadata as { chunkIndex?: number } | null)?.chunkIndex ?? 0);
+    chunks.sort((a, b) => chunkIndex(a.metadata) - chunkIndex(b.metadata));
+
+    return { chunks };
+  }
+
+  /**
+   * Edit a chunk's text (re-embedding it) and/or enable or disable it.
+   */
+  async updateChunk(chunkId: string, orgId: string, dto: UpdateChunkDto) {
+    const chunk = await this.prisma.embedding.findUnique({
+      where: { id: chunkId },
+      select: {
+        id: true,
+        chatbotId: true,
+        sourceType: true,
+        sourceId: true,
+        content: true,
+        chatbot: { select: { orgId: true } },
+      },
+    });
+
+    if (!chunk) {
+      throw new NotFoundException('Chunk not found');
+    }
+
+    if (chunk.chatbot.orgId !== orgId) {
+      throw new ForbiddenException('Access denied');
+    }
+
+    if (dto.content !== undefined && dto.content !== chunk.content) {
+      // The migration copies chunks as they were; an edit made now would
+      // be lost when it switches over
+      const migrating = await this.prisma.embeddingMigration.count({
+        where: {
+          chatbotId: chunk.chatbotId,
+          status: {
+            in: [
+              EmbeddingMigrationStatus.PENDING,
+              EmbeddingMigrationStatus.PROCESSING,
+            ],
+          },
+        },
+      });
+      if (migrating > 0) {
+        throw new BadRequestException(
+          'Chunks cannot be edited while the embedding model is being changed',
+        );
+      }
+
+      await this.embeddingService.updateChunkContent(chunkId, dto.content);
+    }
+
+    if (dto.isActive !== undefined) {
+      // Also covers this chunk's copy for an in-flight model migration
+      await this.prisma.embedding.updateMany({
+        where: {
+          chatbotId: chunk.chatbotId,
+          sourceType: chunk.sourceType,
+          sourceId: chunk.sourceId,
+          content: dto.content ?? chunk.content,
+        },
+        data: { isActive: dto.isActive },
+      });
+    }
+
+    const updated = await this.prisma.embedding.findUniqueOrThrow({
+      where: { id: chunkId },
+      select: {
+        id: true,
+        content: true,
+        tokenCount: true,
+        isActive: true,
+        metadata: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    });
+
+    this.logger.log(`Chunk ${chunkId} updated`);
+    return updated;
+  }
+
+  /**
+   * Remove a source from the knowledge base. Q&A pairs, text and files
+   * are deleted outright; crawled pages keep their crawl record but are
+   * deselected; chunks whose record is already gone are just dropped.
+   */
+  async deleteSource(
+    chatbotId: string,
+    orgId: string,
+    sourceType: SourceType,
+    sourceId: string,
+  ) {
+    await this.chatbotService.validateOwnership(chatbotId, orgId);
+
+    switch (sourceType) {
+      case SourceType.QNA:
+        if (await this.prisma.qnaPair.count({ where: { id: sourceId, chatbotId } })) {
+          return this.qnaService.delete(sourceId, orgId);
+        }
+        break;
+      case SourceType.TEXT:
+        if (await this.prisma.textTraining.count({ where: { id: sourceId, chatbotId } })) {
+          return this.textTrainingService.delete(chatbotId, orgId);
+        }
+        break;
+      case SourceType.FILE:
+        if (await this.prisma.fileTraining.count({ where: { id: sourceId, chatbotId } })) {
+          return this.fileTrainingService.delete(sourceId, orgId);
+        }
+        break;
+      case SourceType.CRAWL:
+        await this.prisma.crawledPage.updateMany({
+          where: { id: sourceId, job: { chatbotId } },
+          data: { isSelected: false, trainingStatus: null },
+        });
+        break;
+    }
+
+    const deleted = await this.embeddingService.deleteBySource(
+      chatbotId,
+      sourceType,
+      sourceId,
+    );
+    if (deleted === 0) {
+      throw new NotFoundException('Source not found');
+    }
+
+    this.logger.log(`Removed ${deleted} chunks of source ${sourceType}/${sourceId}`);
+    return { deleted: true };
+  }
+
+  /**
+   * Human-readable titles (and URLs, for crawled pages) of the records
+   * the sources came from, keyed by `sourceType:sourceId`.
+   */
+  async resolveLabels(
+    sources: { sourceType: SourceType; sourceId: string }[],
+  ): Promise<Map<string, { title: string | null; url: string | null }>> {
+    const idsOf = (type: SourceType) =>
+      sources.filter((s) => s.sourceType === type).map((s) => s.sourceId);
+
+    const [pages, qnas, texts, files] = await Promise.all([
+      this.prisma.crawledPage.findMany({
+        where: { id: { in: idsOf(SourceType.CRAWL) } },
+        select: { id: true, url: true, title: true },
+      }),
+      this.prisma.qnaPair.findMany({
+        where: { id: { in: idsOf(SourceType.QNA) } },
+        select: { id: true, question: true },
+      }),
+      this.prisma.textTraining.findMany({
+        where: { id: { in: idsOf(SourceType.TEXT) } },
+        select: { id: true },
+      }),
+      this.prisma.fileTraining.findMany({
+        where: { id: { in: idsOf(SourceType.FILE) } },
+        select: { id: true, fileName: true },
+      }),
+    ]);
+
+    const labels = new Map<string, { title: string | null; url: string | null }>();
+    pages.forEach((p) => labels.set(`${SourceType.CRAWL}:${p.id}`, { title: p.title, url: p.url }));
+    qnas.forEach((q) => labels.set(`${SourceType.QNA}:${q.id}`, { title: q.question, url: null }));
+    texts.forEach((t) => labels.set(`${SourceType.TEXT}:${t.id}`, { title: 'Text training', url: null }));
+    files.forEach((f) => labels.set(`${SourceType.FILE}:${f.id}`, { title: f.fileName, url: null }));
+    return labels;
+  }
+
+  private async activeModelWhere(
+    chatbotId: string,
+    sourceType?: SourceType,
+  ): Promise<Prisma.EmbeddingWhereInput> {
+    const config = await this.embeddingService.getActiveModel(chatbotId);
+    return {
+      chatbotId,
+      provider: config.provider,
+      model: config.model,
+      sourceId: { not: null },
+      ...(sourceType && { sourceType }),
+    };
+  }
+}
@@ -0,0 +1,127 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PDFParse } from 'pdf-parse';
+import * as mammoth from 'mammoth';
+import * as XLSX from 'xlsx';
+import { PageType } from '../../generated/prisma';
+
+/**
+ * File extensions and MIME types accepted for each extractable format.
+ */
+const FORMATS: { pageType: PageType; extensions: string[]; mimeTypes: string[] }[] = [
+  {
+    pageType: PageType.PDF,
+    extensions: ['.pdf'],
+    mimeTypes: ['application/pdf'],
+  },
+  {
+    pageType: PageType.DOCX,
+    extensions: ['.docx'],
+    mimeTypes: [
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    ],
+  },
+  {
+    pageType: PageType.XLSX,
+    extensions: ['.xlsx', '.xls'],
+    mimeTypes: [
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-excel',
+    ],
+  },
+  {
+    pageType: PageType.CSV,
+    extensions: ['.csv'],
+    mimeTypes: ['text/csv', 'application/csv'],
+  },
+  {
+    pageType: PageType.TXT,
+    extensions: ['.txt', '.md', '.markdown'],
+    mimeTypes: ['text/plain', 'text/markdown'],
+  },
+];
+
+@Injectable()
+export class TextExtractorService {
+  private readonly logger = new Logger(TextExtractorService.name);
+
+  /**
+   * Work out which extractor applies to a file, preferring the MIME type
+   * and falling back to the file extension. Returns null for unsupported
+   * formats.
+   */
+  detectPageType(fileName: string, mimeType?: string | null): PageType | null {
+    const normalizedMime = (mimeType || '').split(';')[0].trim().toLowerCase();
+    const byMime = FORMATS.find((f) => f.mimeTypes.includes(normalizedMime));
+    if (byMime) return byMime.pageType;
+
+    const lowerName = fileName.toLowerCase();
+    const byExtension = FORMATS.find((f) =>
+      f.extensions.some((ext) => lowerName.endsWith(ext)),
+    );
+    return byExtension?.pageType ?? null;
+  }
+
+  /**
+   * Extract plain text from a document buffer. Spreadsheets are rendered
+   * sheet-by-sheet as CSV so row/column relationships survive chunking.
+   */
+  async extract(buffer: Buffer, pageType: PageType): Promise<string> {
+    switch (pageType) {
+      case PageType.PDF:
+        return this.extractPdf(buffer);
+      case PageType.DOCX: {
+        const result = await mammoth.extractRawText({ buffer });
+        return this.normalize(result.value);
+      }
+      case PageType.XLSX:
+      case PageType.CSV:
+        return this.extractSpreadsheet(buffer, pageType);
+      case PageType.TXT:
+        return this.normalize(buffer.toString('utf8'));
+      default:
+        throw new Error(`Unsupported document type: ${pageType}`);
+    }
+  }
+
+  private async extractPdf(buffer: Buffer): Promise<string> {
+    const parser = new PDFParse({ data: buffer });
+    try {
+      const result = await parser.getText();
+      return this.normalize(result.text);
+    } finally {
+      await parser.destroy();
+    }
+  }
+
+  private extractSpreadsheet(buffer: Buffer, pageType: PageType): string {
+    const workbook =
+      pageType === PageType.CSV
+        ? XLSX.read(buffer.toString('utf8'), { type: 'string' })
+        : XLSX.read(buffer, { type: 'buffer' });
+
+    const sections = workbook.SheetNames.map((sheetName) => {
+      const csv = XLSX.utils.sheet_to_csv(workbook.Sheets[sheetName], {
+        blankrows: false,
+      });
+      // A lone CSV file has a single synthetic "Sheet1"; skip the heading
+      return pageType === PageType.CSV ? csv : `## ${sheetName}\n${csv}`;
+    });
+
+    this.logger.debug(
+      `Extracted ${workbook.SheetNames.length} sheet(s) from ${pageType} document`,
+    );
+    return this.normalize(sections.join('\n\n'));
+  }
+
+  /**
+   * Collapse runs of blank lines and trailing whitespace while keeping
+   * paragraph breaks, which the chunker relies on.
+   */
+  private normalize(text: string): string {
+    return text
+      .replace(/\r\n?/g, '\n')
+      .replace(/[ \t]+\n/g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+}
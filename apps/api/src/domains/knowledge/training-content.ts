@@ -0,0 +1,14 @@
+import { createHash } from 'crypto';
+
+/** The text a QnA pair is embedded as */
+export function qnaTrainingText(qna: { question: string; answer: string }): string {
+  return `Question: ${qna.question}\nAnswer: ${qna.answer}`;
+}
+
+/**
+ * Hash of the text a source was embedded from, stored once it is trained
+ * so scheduled retraining can skip sources that haven't changed
+ */
+export function trainingContentHash(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
@@ -2,11 +2,15 @@ import { Processor, WorkerHost } from '@nestjs/bullmq';
 import { Logger } from '@nestjs/common';
 import { Job } from 'bullmq';
 import { PrismaService } from '../../core/database/prisma.service';
+import { StorageService } from '../../core/storage/storage.service';
 import { TrainingStatus, SourceType } from '../../generated/prisma';
 import { EmbeddingService } from './embedding.service';
+import { TextExtractorService } from './text-extractor.service';
+import { qnaTrainingText, trainingContentHash } from './training-content';
+import { EmbeddingMigrationService } from './embedding-migration.service';
 
 interface TrainingJobData {
-  type: 'qna' | 'text' | 'crawl-page';
+  type: 'qna' | 'text' | 'crawl-page' | 'file' | 'reembed';
   chatbotId: string;
   sourceId: string;
 }
@@ -18,6 +22,9 @@ export class TrainingWorker extends WorkerHost {
   constructor(
     private readonly prisma: PrismaService,
     private readonly embeddingService: EmbeddingService,
+    private readonly storageService: StorageService,
+    private readonly textExtractor: TextExtractorService,
+    private readonly embeddingMigrationService: EmbeddingMigrationService,
   ) {
     super();
   }
@@ -39,6 +46,13 @@ export class TrainingWorker extends WorkerHost {
         case 'crawl-page':
           await this.processCrawlPage(chatbotId, sourceId);
           break;
+        case 'file':
+          await this.processFile(chatbotId, sourceId);
+          break;
+        case 'reembed':
+          // sourceId is the EmbeddingMigration id
+          await this.embeddingMigrationService.runMigration(sourceId);
+          break;
         default:
           this.logger.warn(`Unknown training job type: ${type}`);
           return;
@@ -48,7 +62,7 @@ export class TrainingWorker extends WorkerHost {
       this.logger.error(
         `Training job failed (${type}/${sourceId}): ${message}`,
       );
-      await this.markFailed(type, sourceId);
+      await this.markFailed(type, sourceId, message);
       throw err; // Re-throw so BullMQ can retry
     }
   }
@@ -73,8 +87,14 @@ export class TrainingWorker extends WorkerHost {
       data: { trainingStatus: TrainingStatus.PROCESSING },
     });
 
-    const combinedText = `Question: ${qna.question}\nAnswer: ${qna.answer}`;
+    const combinedText = qnaTrainingText(qna);
 
+    // Replace any existing chunks so retraining never duplicates them
+    await this.embeddingService.deleteBySource(
+      chatbotId,
+      SourceType.QNA,
+      qnaId,
+    );
     await this.embeddingService.storeEmbeddings(
       chatbotId,
       SourceType.QNA,
@@ -84,7 +104,10 @@ export class TrainingWorker extends WorkerHost {
 
     await this.prisma.qnaPair.update({
       where: { id: qnaId },
-      data: { trainingStatus: TrainingStatus.TRAINED },
+      data: {
+        trainingStatus: TrainingStatus.TRAINED,
+        contentHash: trainingContentHash(combinedText),
+      },
     });
 
     this.logger.log(`QnA pair ${qnaId} trained successfully`);
@@ -114,6 +137,12 @@ export class TrainingWorker extends WorkerHost {
       data: { trainingStatus: TrainingStatus.PROCESSING },
     });
 
+    // Replace any existing chunks so retraining never duplicates them
+    await this.embeddingService.deleteBySource(
+      chatbotId,
+      SourceType.TEXT,
+      textTrainingId,
+    );
     await this.embeddingService.storeEmbeddings(
       chatbotId,
       SourceType.TEXT,
@@ -123,7 +152,10 @@ export class TrainingWorker extends WorkerHost {
 
     await this.prisma.textTraining.update({
       where: { id: textTrainingId },
-      data: { trainingStatus: TrainingStatus.TRAINED },
+      data: {
+        trainingStatus: TrainingStatus.TRAINED,
+        contentHash: trainingContentHash(textTraining.content),
+      },
     });
 
     this.logger.log(
@@ -155,6 +187,17 @@ export class TrainingWorker extends WorkerHost {
       return;
     }
 
+    await this.prisma.crawledPage.update({
+      where: { id: pageId },
+      data: { trainingStatus: TrainingStatus.PROCESSING },
+    });
+
+    // Replace any existing chunks so retraining never duplicates them
+    await this.embeddingService.deleteBySource(
+      chatbotId,
+      SourceType.CRAWL,
+      pageId,
+    );
     await this.embeddingService.storeEmbeddings(
       chatbotId,
       SourceType.CRAWL,
@@ -162,15 +205,70 @@ export class TrainingWorker extends WorkerHost {
       [content],
     );
 
+    await this.prisma.crawledPage.update({
+      where: { id: pageId },
+      data: { trainingStatus: TrainingStatus.TRAINED },
+    });
+
     this.logger.log(`Crawled page ${pageId} trained successfully`);
   }
 
+  /**
+   * Process an uploaded file: read it back from storage, extract its
+   * text, then chunk, embed and store it.
+   */
+  private async processFile(
+    chatbotId: string,
+    fileId: string,
+  ): Promise<void> {
+    const file = await this.prisma.fileTraining.findUnique({
+      where: { id: fileId },
+    });
+
+    if (!file) {
+      this.logger.warn(`File ${fileId} not found, skipping`);
+      return;
+    }
+
+    await this.prisma.fileTraining.update({
+      where: { id: fileId },
+      data: { trainingStatus: TrainingStatus.PROCESSING, errorMessage: null },
+    });
+
+    const buffer = await this.storageService.read(file.storagePath);
+    const text = await this.textExtractor.extract(buffer, file.pageType);
+    if (!text) {
+      throw new Error('No extractable text found in file');
+    }
+
+    // Clear chunks from a previous partial attempt before re-embedding
+    await this.embeddingService.deleteBySource(
+      chatbotId,
+      SourceType.FILE,
+      fileId,
+    );
+    await this.embeddingService.storeEmbeddings(
+      chatbotId,
+      SourceType.FILE,
+      fileId,
+      [text],
+    );
+
+    await this.prisma.fileTraining.update({
+      where: { id: fileId },
+      data: { trainingStatus: TrainingStatus.TRAINED },
+    });
+
+    this.logger.log(`File ${fileId} trained successfully`);
+  }
+
   /**
    * Mark a training source as FAILED based on its type.
    */
   private async markFailed(
     type: string,
     sourceId: string,
+    errorMessage: string,
   ): Promise<void> {
     try {
       switch (type) {
@@ -186,7 +284,24 @@ export class TrainingWorker extends WorkerHost {
             data: { trainingStatus: TrainingStatus.FAILED },
           });
           break;
-        // crawl-page doesn't have a trainingStatus field
+        case 'file':
+          await this.prisma.fileTraining.update({
+            where: { id: sourceId },
+            data: { trainingStatus: TrainingStatus.FAILED, errorMessage },
+          });
+          break;
+        case 'crawl-page':
+          await this.prisma.crawledPage.update({
+            where: { id: sourceId },
+            data: { trainingStatus: TrainingStatus.FAILED },
+          });
+          break;
+        case 'reembed':
+          await this.embeddingMigrationService.markFailed(
+            sourceId,
+            errorMessage,
+          );
+          break;
       }
     } catch (err) {
       this.logger.warn(
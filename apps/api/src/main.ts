@@ -1,4 +1,5 @@
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { ValidationPipe } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
@@ -10,9 +11,13 @@ import { HttpExceptionFilter } from './core/common/filters/http-exception.filter
 import { ResponseInterceptor } from './core/common/interceptors/response.interceptor';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
   const configService = app.get(ConfigService);
 
+  // Behind a load balancer, take the client IP (used for rate limits) from
+  // X-Forwarded-For as set by the trusted proxies
+  app.set('trust proxy', parseTrustProxy(configService.get<string>('TRUST_PROXY')));
+
   // Security
   app.use(helmet());
   app.use(compression());
@@ -59,4 +64,16 @@ async function bootstrap() {
   console.log(`CoBuild API running on port ${port}`);
 }
 
+/**
+ * `TRUST_PROXY` as Express expects it: a hop count, true/false, or a list
+ * of trusted addresses and subnets. Defaults to proxies on private networks.
+ */
+function parseTrustProxy(setting?: string): boolean | number | string {
+  const value = setting || 'loopback, linklocal, uniquelocal';
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (/^\d+$/.test(value)) return Number(value);
+  return value;
+}
+
 bootstrap();
@@ -1,7 +1,7 @@
 import type { NextConfig } from 'next';
 
 const nextConfig: NextConfig = {
-  transpilePackages: ['@cobuild/ui', '@cobuild/shared'],
+  transpilePackages: ['@cobuild/ui', '@cobuild/shared', '@cobuild/widget'],
 };
 
 export default nextConfig;
@@ -3,19 +3,31 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
-import { useQuery } from '@tanstack/react-query';
-import { api } from '@/lib/api';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import type { Citation, FormBlock, MessageBlock } from '@cobuild/shared';
+import { api, ApiError } from '@/lib/api';
+
+/** Sent by strict mode when the knowledge base had no answer */
+interface StrictFallback {
+  action: 'HANDOFF' | 'LEAD_CAPTURE';
+  handoffRequestId?: string;
+}
 
 interface Message {
   id: string;
   content: string;
   role: 'USER' | 'ASSISTANT' | 'SYSTEM';
+  citations?: Citation[] | null;
+  blocks?: MessageBlock[] | null;
+  fallback?: StrictFallback;
   createdAt: string;
 }
 
 interface Conversation {
   id: string;
   title: string;
+  visitorId: string | null;
   isPinned: boolean;
   updatedAt: string;
   messages: { content: string; role: string; createdAt: string }[];
@@ -35,6 +47,8 @@ export default function ChatPage() {
   const { id: chatbotId } = useParams<{ id: string }>();
 
   const [conversationId, setConversationId] = useState<string | null>(null);
+  // Widget conversations belong to anonymous visitors and are read-only here
+  const [source, setSource] = useState<'mine' | 'widget'>('mine');
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isStreaming, setIsStreaming] = useState(false);
@@ -50,10 +64,10 @@ export default function ChatPage() {
 
   // Fetch conversations list
   const { data: convsData, refetch: refetchConvs } = useQuery({
-    queryKey: ['conversations', chatbotId],
+    queryKey: ['conversations', chatbotId, source],
     queryFn: () =>
       api.get<{ conversations: Conversation[] }>(
-        `/conversation/bot/${chatbotId}?limit=50`,
+        `/conversation/bot/${chatbotId}?limit=50&source=${source}`,
       ),
   });
 
@@ -139,13 +153,16 @@ export default function ChatPage() {
                 }
 
                 if (data.isComplete) {
-                  // Finalize
+                  // Finalize; the server may send back corrected text
                   setMessages((prev) => [
                     ...prev,
                     {
                       id: `ai-${Date.now()}`,
-                      content: fullContent,
+                      content: data.content ?? fullContent,
                       role: 'ASSISTANT',
+                      citations: data.citations,
+                      blocks: data.blocks,
+                      fallback: data.fallback,
                       createdAt: new Date().toISOString(),
                     },
                   ]);
@@ -197,6 +214,7 @@ export default function ChatPage() {
   }
 
   function startNewChat() {
+    setSource('mine');
     setConversationId(null);
     setMessages([]);
     setStreamingContent('');
@@ -221,6 +239,25 @@ export default function ChatPage() {
             + New
           </button>
         </div>
+        <div className="flex gap-1 border-b border-border p-2">
+          {(['mine', 'widget'] as const).map((s) => (
+            <button
+              key={s}
+              onClick={() => {
+                setSource(s);
+                setConversationId(null);
+                setMessages([]);
+              }}
+              className={`flex-1 rounded-md px-2 py-1 text-xs font-medium ${
+                source === s
+                  ? 'bg-primary/10 text-foreground'
+                  : 'text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              {s === 'mine' ? 'My chats' : 'Widget visitors'}
+            </button>
+          ))}
+        </div>
         <div className="flex-1 overflow-y-auto p-2 space-y-1">
           {conversations.map((conv) => (
             <button
@@ -283,7 +320,27 @@ export default function ChatPage() {
                     : 'bg-muted text-foreground'
                 }`}
               >
-                <p className="whitespace-pre-wrap">{msg.content}</p>
+                <p className="whitespace-pre-wrap">
+                  {msg.citations?.length ? withCitationMarkers(msg.content, msg.citations) : msg.content}
+                </p>
+                {msg.blocks && msg.blocks.length > 0 && (
+                  <MessageBlocks
+                    blocks={msg.blocks}
+                    onReply={sendMessage}
+                    disabled={isStreaming || source === 'widget'}
+                  />
+                )}
+                {msg.citations && msg.citations.length > 0 && (
+                  <MessageCitations citations={msg.citations} />
+                )}
+                {msg.fallback?.action === 'HANDOFF' && (
+                  <p className="mt-3 border-t border-border pt-2 text-xs text-muted-foreground">
+                    A member of the team has been notified and will follow up here.
+                  </p>
+                )}
+                {msg.fallback?.action === 'LEAD_CAPTURE' && conversationId && (
+                  <LeadForm conversationId={conversationId} />
+                )}
               </div>
             </div>
           ))}
@@ -315,31 +372,354 @@ export default function ChatPage() {
         </div>
 
         {/* Input area */}
-        <div className="border-t border-border bg-card p-4">
-          <div className="flex gap-3">
-            <textarea
-              ref={inputRef}
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              onKeyDown={handleKeyDown}
-              placeholder="Type your message..."
-              rows={1}
-              disabled={isStreaming}
-              className="min-h-[44px] max-h-32 flex-1 resize-none rounded-xl border border-input bg-background px-4 py-3 text-sm outline-none ring-ring focus:ring-2 disabled:opacity-50"
-            />
-            <button
-              onClick={() => sendMessage(input)}
-              disabled={!input.trim() || isStreaming}
-              className="h-[44px] rounded-xl bg-primary px-5 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
-            >
-              Send
-            </button>
+        {source === 'widget' ? (
+          <div className="border-t border-border bg-card p-4 text-center text-xs text-muted-foreground">
+            Conversations from the website widget are read-only.
           </div>
-          <p className="mt-2 text-center text-xs text-muted-foreground">
-            Powered by CoBuild AI
-          </p>
-        </div>
+        ) : (
+          <div className="border-t border-border bg-card p-4">
+            <div className="flex gap-3">
+              <textarea
+                ref={inputRef}
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                onKeyDown={handleKeyDown}
+                placeholder="Type your message..."
+                rows={1}
+                disabled={isStreaming}
+                className="min-h-[44px] max-h-32 flex-1 resize-none rounded-xl border border-input bg-background px-4 py-3 text-sm outline-none ring-ring focus:ring-2 disabled:opacity-50"
+              />
+              <button
+                onClick={() => sendMessage(input)}
+                disabled={!input.trim() || isStreaming}
+                className="h-[44px] rounded-xl bg-primary px-5 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+              >
+                Send
+              </button>
+            </div>
+            <p className="mt-2 text-center text-xs text-muted-foreground">
+              Powered by CoBuild AI
+            </p>
+          </div>
+        )}
       </div>
     </div>
   );
 }
+
+/**
+ * Render inline `[n]` citation markers as superscript links to their
+ * sources.
+ */
+function withCitationMarkers(content: string, citations: Citation[]): React.ReactNode[] {
+  return content.split(/(\[\d+(?:,\s*\d+)*\])/g).map((part, i) => {
+    const marker = /^\[([\d,\s]+)\]$/.exec(part);
+    if (!marker) return part;
+
+    return (
+      <sup key={i} className="mx-0.5 text-[0.7em]">
+        {marker[1].split(',').map((n, j) => {
+          const citation = citations.find((c) => c.index === Number(n));
+          return (
+            <a
+              key={j}
+              href={citation?.sourceUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              title={citation?.source}
+              className="ml-0.5 font-medium text-primary hover:underline"
+            >
+              [{n.trim()}]
+            </a>
+          );
+        })}
+      </sup>
+    );
+  });
+}
+
+function MessageCitations({ citations }: { citations: Citation[] }) {
+  const anyCited = citations.some((c) => c.cited);
+
+  return (
+    <div className="mt-3 border-t border-border pt-2">
+      <p className="mb-1.5 text-xs font-medium text-muted-foreground">Sources</p>
+      <ol className="space-y-1">
+        {citations.map((citation) => (
+          <li
+            key={citation.index}
+            className={`flex gap-1.5 text-xs ${anyCited && !citation.cited ? 'opacity-60' : ''}`}
+            title={citation.content}
+          >
+            <span className="shrink-0 text-muted-foreground">[{citation.index}]</span>
+            {citation.sourceUrl ? (
+              <a
+                href={citation.sourceUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="truncate text-primary hover:underline"
+              >
+                {citation.source}
+              </a>
+            ) : (
+              <span className="truncate text-foreground">{citation.source}</span>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+/**
+ * Buttons, cards, carousels and forms the bot attached to its answer.
+ * Quick replies and form answers are sent as the user's next message.
+ */
+function MessageBlocks({
+  blocks,
+  onReply,
+  disabled,
+}: {
+  blocks: MessageBlock[];
+  onReply: (content: string) => void;
+  disabled: boolean;
+}) {
+  return (
+    <div className="mt-3 space-y-3">
+      {blocks.map((block, i) => {
+        switch (block.type) {
+          case 'buttons':
+            return (
+              <div key={i} className="flex flex-wrap gap-2">
+                {block.buttons.map((button, j) =>
+                  button.url ? (
+                    <a
+                      key={j}
+                      href={button.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="rounded-full border border-primary/40 bg-background px-3 py-1 text-xs font-medium text-primary hover:bg-primary/10"
+                    >
+                      {button.label}
+                    </a>
+                  ) : (
+                    <button
+                      key={j}
+                      type="button"
+                      disabled={disabled}
+                      onClick={() => onReply(button.value ?? button.label)}
+                      className="rounded-full border border-primary/40 bg-background px-3 py-1 text-xs font-medium text-primary hover:bg-primary/10 disabled:opacity-50"
+                    >
+                      {button.label}
+                    </button>
+                  ),
+                )}
+              </div>
+            );
+          case 'card':
+            return (
+              <a
+                key={i}
+                href={block.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block overflow-hidden rounded-lg border border-border bg-background hover:bg-accent"
+              >
+                {block.imageUrl && (
+                  <img src={block.imageUrl} alt="" className="h-32 w-full object-cover" />
+                )}
+                <div className="p-3">
+                  <p className="font-medium text-foreground">{block.title}</p>
+                  {block.description && (
+                    <p className="mt-0.5 line-clamp-2 text-xs text-muted-foreground">
+                      {block.description}
+                    </p>
+                  )}
+                  <p className="mt-2 text-xs font-medium text-primary">
+                    {block.buttonLabel ?? 'Open'} →
+                  </p>
+                </div>
+              </a>
+            );
+          case 'carousel':
+            return (
+              <div key={i} className="flex snap-x gap-2 overflow-x-auto pb-1">
+                {block.items.map((item, j) => {
+                  const content = (
+                    <>
+                      <img src={item.imageUrl} alt="" className="h-24 w-full object-cover" />
+                      <div className="p-2">
+                        <p className="truncate text-xs font-medium text-foreground">{item.title}</p>
+                        {item.description && (
+                          <p className="line-clamp-2 text-xs text-muted-foreground">
+                            {item.description}
+                          </p>
+                        )}
+                      </div>
+                    </>
+                  );
+                  const className =
+                    'block w-40 shrink-0 snap-start overflow-hidden rounded-lg border border-border bg-background';
+                  return item.url ? (
+                    <a
+                      key={j}
+                      href={item.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className={`${className} hover:bg-accent`}
+                    >
+                      {content}
+                    </a>
+                  ) : (
+                    <div key={j} className={className}>
+                      {content}
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          case 'form':
+            return <BlockForm key={i} form={block} onReply={onReply} disabled={disabled} />;
+        }
+      })}
+    </div>
+  );
+}
+
+/** Form answers as a message, one `Label: answer` line per field */
+function formAnswers(form: FormBlock, values: Record<string, string>): string {
+  return form.fields
+    .filter((field) => values[field.name]?.trim())
+    .map((field) => `${field.label}: ${values[field.name].trim()}`)
+    .join('\n');
+}
+
+function BlockForm({
+  form,
+  onReply,
+  disabled,
+}: {
+  form: FormBlock;
+  onReply: (content: string) => void;
+  disabled: boolean;
+}) {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [submitted, setSubmitted] = useState(false);
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    const answers = formAnswers(form, values);
+    if (!answers) return;
+    onReply(answers);
+    setSubmitted(true);
+  }
+
+  const inputClass =
+    'w-full rounded-md border border-input bg-background px-2 text-xs outline-none ring-ring focus:ring-2';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2 rounded-lg border border-border bg-background p-3">
+      {form.title && <p className="text-xs font-medium text-foreground">{form.title}</p>}
+      {form.fields.map((field) => {
+        const props = {
+          value: values[field.name] ?? '',
+          required: field.required,
+          disabled: submitted,
+          placeholder: field.label,
+          'aria-label': field.label,
+        };
+        const onChange = (
+          e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>,
+        ) => setValues((prev) => ({ ...prev, [field.name]: e.target.value }));
+
+        if (field.type === 'textarea') {
+          return (
+            <textarea key={field.name} {...props} onChange={onChange} rows={3} className={`${inputClass} py-1.5`} />
+          );
+        }
+        if (field.type === 'select') {
+          return (
+            <select key={field.name} {...props} onChange={onChange} className={`${inputClass} h-8`}>
+              <option value="">{field.label}</option>
+              {field.options?.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          );
+        }
+        return (
+          <input key={field.name} {...props} type={field.type} onChange={onChange} className={`${inputClass} h-8`} />
+        );
+      })}
+      <button
+        type="submit"
+        disabled={disabled || submitted}
+        className="rounded-md bg-primary px-3 py-1.5 text-xs font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+      >
+        {submitted ? 'Sent' : (form.submitLabel ?? 'Send')}
+      </button>
+    </form>
+  );
+}
+
+function LeadForm({ conversationId }: { conversationId: string }) {
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+
+  const captureMutation = useMutation({
+    mutationFn: () =>
+      api.post(`/conversation/${conversationId}/lead`, {
+        email,
+        name: name || undefined,
+      }),
+    onSuccess: () => toast.success('Thanks, we\'ll be in touch'),
+    onError: (err) => {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to send details');
+    },
+  });
+
+  if (captureMutation.isSuccess) {
+    return (
+      <p className="mt-3 border-t border-border pt-2 text-xs text-muted-foreground">
+        Thanks! We&apos;ll get back to you at {email}.
+      </p>
+    );
+  }
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    captureMutation.mutate();
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 space-y-2 border-t border-border pt-2">
+      <p className="text-xs text-muted-foreground">
+        Leave your details and we&apos;ll get back to you.
+      </p>
+      <input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Name"
+        maxLength={200}
+        className="h-8 w-full rounded-md border border-input bg-background px-2 text-xs outline-none ring-ring focus:ring-2"
+      />
+      <input
+        type="email"
+        required
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder="Email"
+        className="h-8 w-full rounded-md border border-input bg-background px-2 text-xs outline-none ring-ring focus:ring-2"
+      />
+      <button
+        type="submit"
+        disabled={!email || captureMutation.isPending}
+        className="rounded-md bg-primary px-3 py-1.5 text-xs font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+      >
+        {captureMutation.isPending ? 'Sending...' : 'Send'}
+      </button>
+    </form>
+  );
+}
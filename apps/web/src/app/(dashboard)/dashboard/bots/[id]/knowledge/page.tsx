@@ -3,7 +3,7 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import { toast } from 'sonner';
 import { api, ApiError } from '@/lib/api';
 
@@ -19,17 +19,67 @@ interface CrawlJob {
   confirmedLimit: number;
   pagesFound: number;
   pagesCrawled: number;
-  provider: string;
+  pagesSkipped: number;
+  provider: CrawlProvider;
+  pageType: string;
+  refreshes?: CrawlRefresh[];
   createdAt: string;
   updatedAt: string;
 }
 
+interface CrawlRefresh {
+  id: string;
+  status: 'QUEUED' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+  pagesAdded: number;
+  pagesChanged: number;
+  pagesRemoved: number;
+  pagesUnchanged: number;
+  pagesFailed: number;
+  errorMessage: string | null;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+interface CrawlProgress {
+  pagesFound: number;
+  pagesCrawled: number;
+  pagesFailed: number;
+  pagesSkipped: number;
+  pagesQueued: number;
+  limit: number;
+  etaSeconds: number | null;
+}
+
+interface CrawlProgressEvent {
+  type:
+    | 'snapshot'
+    | 'started'
+    | 'discovered'
+    | 'fetched'
+    | 'skipped'
+    | 'failed'
+    | 'completed'
+    | 'cancelled'
+    | 'error';
+  jobId: string;
+  url?: string;
+  title?: string | null;
+  reason?: string;
+  count?: number;
+  status?: string;
+  progress: CrawlProgress;
+  at: string;
+}
+
 interface CrawlPage {
   id: string;
   url: string;
   title: string;
   status: string;
   pageType: string;
+  errorMessage: string | null;
+  skipReason: string | null;
+  trainingStatus: 'PENDING' | 'PROCESSING' | 'TRAINED' | 'FAILED' | null;
   contentLength: number;
   createdAt: string;
 }
@@ -52,6 +102,105 @@ interface TextTraining {
   updatedAt: string;
 }
 
+interface FileTraining {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  pageType: string;
+  trainingStatus: 'PENDING' | 'PROCESSING' | 'TRAINED' | 'FAILED';
+  errorMessage: string | null;
+  createdAt: string;
+}
+
+type KnowledgeSourceType = 'CRAWL' | 'FILE' | 'QNA' | 'TEXT' | 'MANUAL';
+
+interface KnowledgeSource {
+  sourceType: KnowledgeSourceType;
+  sourceId: string;
+  title: string | null;
+  url: string | null;
+  chunkCount: number;
+  disabledChunkCount: number;
+  tokenCount: number;
+  lastTrainedAt: string | null;
+  orphaned: boolean;
+}
+
+interface KnowledgeChunk {
+  id: string;
+  content: string;
+  tokenCount: number;
+  isActive: boolean;
+  metadata: { chunkIndex?: number; heading?: string | null } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+type RetrievalMode = 'VECTOR' | 'HYBRID';
+
+type RerankerType = 'NONE' | 'CROSS_ENCODER' | 'LLM';
+
+type QueryExpansion = 'NONE' | 'MULTI_QUERY' | 'HYDE';
+
+interface RetrievalSettings {
+  mode: RetrievalMode;
+  minScore: number;
+  topK: number;
+  reranker: RerankerType;
+  queryRewriting: boolean;
+  queryExpansion: QueryExpansion;
+}
+
+interface RetrievalCandidate {
+  id: string;
+  content: string;
+  score: number;
+  vectorScore?: number;
+  keywordScore?: number;
+  rerankScore?: number;
+  metadata: { heading?: string | null } | null;
+  sourceType: KnowledgeSourceType;
+  sourceId: string | null;
+  sourceTitle: string | null;
+  sourceUrl: string | null;
+  rank: number;
+  selected: boolean;
+  rejectedReason: 'below_threshold' | 'beyond_top_k' | null;
+}
+
+interface RetrievalTestResponse {
+  settings: RetrievalSettings;
+  defaults: RetrievalSettings;
+  /** The question followed by any expansion queries */
+  queries: string[];
+  tookMs: number;
+  candidates: RetrievalCandidate[];
+  selectedCount: number;
+  augmentedPrompt: string;
+}
+
+interface RetrainingRun {
+  id: string;
+  status: 'RUNNING' | 'COMPLETED' | 'FAILED';
+  crawlRefreshes: number;
+  textSources: number;
+  qnaSources: number;
+  errorMessage: string | null;
+  startedAt: string;
+  completedAt: string | null;
+}
+
+interface RetrainingSchedule {
+  id: string;
+  cronExpression: string;
+  isActive: boolean;
+  lastRunAt: string | null;
+  nextRunAt: string | null;
+  runs: RetrainingRun[];
+  createdAt: string;
+}
+
 interface PaginationMeta {
   totalDocs: number;
   totalPages: number;
@@ -73,7 +222,18 @@ interface QnaPairsResponse extends PaginationMeta {
   qnaPairs: QnaPair[];
 }
 
-type KnowledgeTab = 'web-sources' | 'qna' | 'text' | 'files';
+interface SourcesResponse extends PaginationMeta {
+  sources: KnowledgeSource[];
+  totals: { sources: number; chunks: number; tokens: number };
+}
+
+interface FilesResponse extends PaginationMeta {
+  files: FileTraining[];
+}
+
+type CrawlProvider = 'CHEERIO' | 'PLAYWRIGHT' | 'FIRECRAWL';
+
+type KnowledgeTab = 'web-sources' | 'qna' | 'text' | 'files' | 'schedule' | 'sources' | 'playground';
 
 // ---------------------------------------------------------------------------
 // Status badge helper
@@ -86,18 +246,33 @@ function statusColor(status: string): string {
       return 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400';
     case 'PROCESSING':
     case 'QUEUED':
+    case 'RUNNING':
       return 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400';
     case 'PENDING':
       return 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400';
     case 'FAILED':
       return 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400';
     case 'CANCELLED':
+    case 'SKIPPED':
       return 'bg-gray-100 text-gray-700 dark:bg-gray-900/30 dark:text-gray-400';
     default:
       return 'bg-gray-100 text-gray-700 dark:bg-gray-900/30 dark:text-gray-400';
   }
 }
 
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function splitList(value: string, separator: RegExp = /[\n,]/): string[] {
+  return value
+    .split(separator)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
 function formatDate(iso: string): string {
   return new Date(iso).toLocaleDateString('en-US', {
     month: 'short',
@@ -129,6 +304,9 @@ export default function KnowledgeBasePage() {
     { key: 'qna', label: 'Q&A Pairs' },
     { key: 'text', label: 'Text Training' },
     { key: 'files', label: 'Files' },
+    { key: 'schedule', label: 'Schedule' },
+    { key: 'sources', label: 'Index' },
+    { key: 'playground', label: 'Playground' },
   ];
 
   return (
@@ -178,7 +356,10 @@ export default function KnowledgeBasePage() {
         {tab === 'web-sources' && <WebSourcesTab chatbotId={chatbotId} />}
         {tab === 'qna' && <QnaTab chatbotId={chatbotId} />}
         {tab === 'text' && <TextTrainingTab chatbotId={chatbotId} />}
-        {tab === 'files' && <FilesTab />}
+        {tab === 'files' && <FilesTab chatbotId={chatbotId} />}
+        {tab === 'schedule' && <ScheduleTab chatbotId={chatbotId} />}
+        {tab === 'sources' && <SourcesTab chatbotId={chatbotId} />}
+        {tab === 'playground' && <PlaygroundTab chatbotId={chatbotId} />}
       </div>
     </div>
   );
@@ -199,6 +380,15 @@ function WebSourcesTab({ chatbotId }: { chatbotId: string }) {
   const [crawlUrl, setCrawlUrl] = useState('');
   const [maxDepth, setMaxDepth] = useState(-1);
   const [pageLimit, setPageLimit] = useState(50);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [extractionMode, setExtractionMode] = useState<'READABILITY' | 'FULL_TEXT'>('READABILITY');
+  const [crawlProvider, setCrawlProvider] = useState<CrawlProvider>('CHEERIO');
+  const [waitForSelector, setWaitForSelector] = useState('');
+  const [includePatterns, setIncludePatterns] = useState('');
+  const [excludePatterns, setExcludePatterns] = useState('');
+  const [stripParams, setStripParams] = useState('');
+  const [maxConcurrency, setMaxConcurrency] = useState(2);
+  const [requestDelayMs, setRequestDelayMs] = useState(0);
 
   const { data, isLoading } = useQuery({
     queryKey: ['crawlJobs', chatbotId, page],
@@ -206,17 +396,41 @@ function WebSourcesTab({ chatbotId }: { chatbotId: string }) {
       api.get<CrawlJobsResponse>(
         `/knowledge/crawl/${chatbotId}?page=${page}&limit=10`,
       ),
+    // Keep polling while a refresh is running so its diff shows up
+    refetchInterval: (query) =>
+      query.state.data?.data?.jobs.some((job) => isRefreshing(job)) ? 3000 : false,
   });
 
   const startCrawlMutation = useMutation({
-    mutationFn: (body: { chatbotId: string; url: string; maxDepth: number; confirmedLimit: number }) =>
-      api.post('/knowledge/crawl', body),
+    mutationFn: (body: {
+      chatbotId: string;
+      url: string;
+      maxDepth: number;
+      confirmedLimit: number;
+      extractionMode: 'READABILITY' | 'FULL_TEXT';
+      provider: CrawlProvider;
+      waitForSelector?: string;
+      includePatterns: string[];
+      excludePatterns: string[];
+      stripQueryParams: string[];
+      maxConcurrency: number;
+      requestDelayMs: number;
+    }) => api.post('/knowledge/crawl', body),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['crawlJobs', chatbotId] });
       setShowAddDialog(false);
       setCrawlUrl('');
       setMaxDepth(-1);
       setPageLimit(50);
+      setShowAdvanced(false);
+      setExtractionMode('READABILITY');
+      setCrawlProvider('CHEERIO');
+      setWaitForSelector('');
+      setIncludePatterns('');
+      setExcludePatterns('');
+      setStripParams('');
+      setMaxConcurrency(2);
+      setRequestDelayMs(0);
       toast.success('Crawl job started');
     },
     onError: (err) => {
@@ -235,6 +449,17 @@ function WebSourcesTab({ chatbotId }: { chatbotId: string }) {
     },
   });
 
+  const refreshCrawlMutation = useMutation({
+    mutationFn: (jobId: string) => api.post(`/knowledge/crawl/job/${jobId}/refresh`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['crawlJobs', chatbotId] });
+      toast.success('Refresh started');
+    },
+    onError: (err) => {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to start refresh');
+    },
+  });
+
   function handleStartCrawl(e: React.FormEvent) {
     e.preventDefault();
     if (!crawlUrl.trim()) return;
@@ -243,6 +468,16 @@ function WebSourcesTab({ chatbotId }: { chatbotId: string }) {
       url: crawlUrl.trim(),
       maxDepth,
       confirmedLimit: pageLimit,
+      extractionMode,
+      provider: crawlProvider,
+      waitForSelector:
+        crawlProvider !== 'CHEERIO' && waitForSelector.trim() ? waitForSelector.trim() : undefined,
+      // One pattern per line; regexes may contain commas
+      includePatterns: splitList(includePatterns, /\n/),
+      excludePatterns: splitList(excludePatterns, /\n/),
+      stripQueryParams: splitList(stripParams),
+      maxConcurrency,
+      requestDelayMs,
     });
   }
 
@@ -285,6 +520,9 @@ function WebSourcesTab({ chatbotId }: { chatbotId: string }) {
                   required
                   className="h-10 w-full rounded-lg border border-input bg-background px-3 text-sm outline-none ring-ring focus:ring-2"
                 />
+                <p className="mt-1 text-xs text-muted-foreground">
+                  A website or a sitemap.xml URL. The site&apos;s sitemap and robots.txt are used automatically.
+                </p>
               </div>
               <div className="grid gap-4 sm:grid-cols-2">
                 <div>
@@ -325,6 +563,145 @@ function WebSourcesTab({ chatbotId }: { chatbotId: string }) {
                   </p>
                 </div>
               </div>
+              <button
+                type="button"
+                onClick={() => setShowAdvanced((v) => !v)}
+                className="text-sm font-medium text-primary hover:underline"
+              >
+                {showAdvanced ? 'Hide advanced options' : 'Advanced options'}
+              </button>
+              {showAdvanced && (
+                <div className="space-y-4">
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <div>
+                      <label className="mb-1.5 block text-sm font-medium text-foreground">
+                        Page Rendering
+                      </label>
+                      <select
+                        value={crawlProvider}
+                        onChange={(e) => setCrawlProvider(e.target.value as CrawlProvider)}
+                        className="h-10 w-full rounded-lg border border-input bg-background px-3 text-sm outline-none ring-ring focus:ring-2"
+                      >
+                        <option value="CHEERIO">Static HTML (fastest)</option>
+                        <option value="PLAYWRIGHT">Headless browser</option>
+                        <option value="FIRECRAWL">Firecrawl</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="mb-1.5 block text-sm font-medium text-foreground">
+                        Wait for Selector
+                      </label>
+                      <input
+                        type="text"
+                        value={waitForSelector}
+                        onChange={(e) => setWaitForSelector(e.target.value)}
+                        disabled={crawlProvider === 'CHEERIO'}
+                        placeholder="#app main"
+                        className="h-10 w-full rounded-lg border border-input bg-background px-3 font-mono text-xs outline-none ring-ring focus:ring-2 disabled:opacity-50"
+                      />
+                    </div>
+                  </div>
+                  <p className="-mt-2 text-xs text-muted-foreground">
+                    Use a headless browser for sites that render their content with JavaScript.
+                    Rendering is slower; optionally wait for an element before capturing the page.
+                  </p>
+                  <div>
+                    <label className="mb-1.5 block text-sm font-medium text-foreground">
+                      Content Extraction
+                    </label>
+                    <select
+                      value={extractionMode}
+                      onChange={(e) => setExtractionMode(e.target.value as 'READABILITY' | 'FULL_TEXT')}
+                      className="h-10 w-full rounded-lg border border-input bg-background px-3 text-sm outline-none ring-ring focus:ring-2"
+                    >
+                      <option value="READABILITY">Main content only (recommended)</option>
+                      <option value="FULL_TEXT">Full page text</option>
+                    </select>
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      Main content keeps headings, lists and tables as markdown and drops
+                      banners, sidebars and text repeated across pages.
+                    </p>
+                  </div>
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <div>
+                      <label className="mb-1.5 block text-sm font-medium text-foreground">
+                        Include Patterns
+                      </label>
+                      <textarea
+                        value={includePatterns}
+                        onChange={(e) => setIncludePatterns(e.target.value)}
+                        rows={3}
+                        placeholder="/docs/**"
+                        className="w-full rounded-lg border border-input bg-background px-3 py-2 font-mono text-xs outline-none ring-ring focus:ring-2"
+                      />
+                    </div>
+                    <div>
+                      <label className="mb-1.5 block text-sm font-medium text-foreground">
+                        Exclude Patterns
+                      </label>
+                      <textarea
+                        value={excludePatterns}
+                        onChange={(e) => setExcludePatterns(e.target.value)}
+                        rows={3}
+                        placeholder="/blog/**"
+                        className="w-full rounded-lg border border-input bg-background px-3 py-2 font-mono text-xs outline-none ring-ring focus:ring-2"
+                      />
+                    </div>
+                  </div>
+                  <p className="-mt-2 text-xs text-muted-foreground">
+                    One per line. Globs match the URL path; prefix with <code>regex:</code> to match
+                    the full URL with a regular expression.
+                  </p>
+                  <div>
+                    <label className="mb-1.5 block text-sm font-medium text-foreground">
+                      Strip Query Parameters
+                    </label>
+                    <input
+                      type="text"
+                      value={stripParams}
+                      onChange={(e) => setStripParams(e.target.value)}
+                      placeholder="utm_*, ref, sessionid"
+                      className="h-10 w-full rounded-lg border border-input bg-background px-3 text-sm outline-none ring-ring focus:ring-2"
+                    />
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      Comma separated. Use <code>*</code> to ignore all query strings.
+                    </p>
+                  </div>
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <div>
+                      <label className="mb-1.5 block text-sm font-medium text-foreground">
+                        Concurrency
+                      </label>
+                      <input
+                        type="number"
+                        value={maxConcurrency}
+                        onChange={(e) => setMaxConcurrency(Math.min(10, Math.max(1, parseInt(e.target.value) || 1)))}
+                        min={1}
+                        max={10}
+                        className="h-10 w-full rounded-lg border border-input bg-background px-3 text-sm outline-none ring-ring focus:ring-2"
+                      />
+                      <p className="mt-1 text-xs text-muted-foreground">Pages fetched in parallel.</p>
+                    </div>
+                    <div>
+                      <label className="mb-1.5 block text-sm font-medium text-foreground">
+                        Request Delay (ms)
+                      </label>
+                      <input
+                        type="number"
+                        value={requestDelayMs}
+                        onChange={(e) => setRequestDelayMs(Math.min(60000, Math.max(0, parseInt(e.target.value) || 0)))}
+                        min={0}
+                        max={60000}
+                        step={100}
+                        className="h-10 w-full rounded-lg border border-input bg-background px-3 text-sm outline-none ring-ring focus:ring-2"
+                      />
+                      <p className="mt-1 text-xs text-muted-foreground">
+                        Minimum gap between requests to the same host.
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              )}
               <div className="flex justify-end gap-3 pt-2">
                 <button
                   type="button"
@@ -403,6 +780,7 @@ function WebSourcesTab({ chatbotId }: { chatbotId: string }) {
                   onStartSelecting={() => setSelectingJobId(job.id)}
                   onStopSelecting={() => setSelectingJobId(null)}
                   onCancel={() => cancelCrawlMutation.mutate(job.id)}
+                  onRefresh={() => refreshCrawlMutation.mutate(job.id)}
                   chatbotId={chatbotId}
                 />
               ))}
@@ -451,6 +829,7 @@ function CrawlJobRow({
   onStartSelecting,
   onStopSelecting,
   onCancel,
+  onRefresh,
   chatbotId,
 }: {
   job: CrawlJob;
@@ -460,8 +839,18 @@ function CrawlJobRow({
   onStartSelecting: () => void;
   onStopSelecting: () => void;
   onCancel: () => void;
+  onRefresh: () => void;
   chatbotId: string;
 }) {
+  const queryClient = useQueryClient();
+  const latestRefresh = job.refreshes?.[0];
+  const refreshing = isRefreshing(job);
+  const running = isCrawling(job);
+  const { progress, log } = useCrawlProgress(job.id, running, () => {
+    queryClient.invalidateQueries({ queryKey: ['crawlJobs', chatbotId] });
+    queryClient.invalidateQueries({ queryKey: ['crawlPages', job.id] });
+  });
+
   return (
     <>
       <tr
@@ -482,6 +871,14 @@ function CrawlJobRow({
             <span className="max-w-xs truncate text-sm font-medium text-foreground">
               {job.url}
             </span>
+            {job.pageType === 'SITEMAP' && (
+              <span className="rounded bg-muted px-1.5 py-0.5 text-xs text-muted-foreground">Sitemap</span>
+            )}
+            {job.provider !== 'CHEERIO' && (
+              <span className="rounded bg-muted px-1.5 py-0.5 text-xs text-muted-foreground">
+                {job.provider === 'PLAYWRIGHT' ? 'Browser' : 'Firecrawl'}
+              </span>
+            )}
           </div>
         </td>
         <td className="px-4 py-3">
@@ -490,14 +887,21 @@ function CrawlJobRow({
           </span>
         </td>
         <td className="px-4 py-3 text-sm text-muted-foreground">
-          {job.pagesCrawled} / {job.pagesFound || job.confirmedLimit}
+          {progress?.pagesCrawled ?? job.pagesCrawled} /{' '}
+          {(progress?.pagesFound ?? job.pagesFound) || job.confirmedLimit}
+          {(progress?.pagesSkipped ?? job.pagesSkipped) > 0 && (
+            <span className="ml-1 text-xs" title="Skipped (robots.txt or unsupported content)">
+              ({progress?.pagesSkipped ?? job.pagesSkipped} skipped)
+            </span>
+          )}
+          {latestRefresh && <RefreshSummary refresh={latestRefresh} />}
         </td>
         <td className="px-4 py-3 text-sm text-muted-foreground">
           {formatDate(job.createdAt)}
         </td>
         <td className="px-4 py-3 text-right">
           <div className="flex items-center justify-end gap-2" onClick={(e) => e.stopPropagation()}>
-            {(job.status === 'PENDING' || job.status === 'QUEUED' || job.status === 'PROCESSING') && (
+            {running && (
               <button
                 onClick={onCancel}
                 className="rounded-md border border-border px-2.5 py-1 text-xs font-medium text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20"
@@ -505,6 +909,16 @@ function CrawlJobRow({
                 Cancel
               </button>
             )}
+            {job.status === 'COMPLETED' && (
+              <button
+                onClick={onRefresh}
+                disabled={refreshing}
+                title="Re-fetch known pages and re-train only what changed"
+                className="rounded-md border border-border px-2.5 py-1 text-xs font-medium text-foreground hover:bg-accent disabled:opacity-50"
+              >
+                {refreshing ? 'Refreshing...' : 'Refresh'}
+              </button>
+            )}
             {job.status === 'COMPLETED' && (
               <button
                 onClick={onStartSelecting}
@@ -517,6 +931,15 @@ function CrawlJobRow({
         </td>
       </tr>
 
+      {/* Running: live progress and log */}
+      {running && (
+        <tr>
+          <td colSpan={5} className="border-t border-border/50 px-4 pb-4 pt-2">
+            <CrawlLiveProgress progress={progress} log={log} />
+          </td>
+        </tr>
+      )}
+
       {/* Expanded: show crawled pages */}
       {isExpanded && (
         <tr>
@@ -534,6 +957,183 @@ function CrawlJobRow({
   );
 }
 
+function isCrawling(job: CrawlJob): boolean {
+  return job.status === 'PENDING' || job.status === 'QUEUED' || job.status === 'PROCESSING';
+}
+
+function isRefreshing(job: CrawlJob): boolean {
+  const status = job.refreshes?.[0]?.status;
+  return status === 'QUEUED' || status === 'PROCESSING';
+}
+
+function RefreshSummary({ refresh }: { refresh: CrawlRefresh }) {
+  if (refresh.status === 'QUEUED' || refresh.status === 'PROCESSING') {
+    return <p className="mt-0.5 text-xs text-blue-500">Refreshing...</p>;
+  }
+
+  if (refresh.status === 'FAILED') {
+    return (
+      <p className="mt-0.5 text-xs text-red-500" title={refresh.errorMessage ?? undefined}>
+        Last refresh failed
+      </p>
+    );
+  }
+
+  return (
+    <p
+      className="mt-0.5 text-xs text-muted-foreground"
+      title={refresh.completedAt ? `Refreshed ${formatDate(refresh.completedAt)}` : undefined}
+    >
+      +{refresh.pagesAdded} added · {refresh.pagesChanged} changed · {refresh.pagesRemoved} removed ·{' '}
+      {refresh.pagesUnchanged} unchanged
+      {refresh.pagesFailed > 0 && <span className="text-red-500"> · {refresh.pagesFailed} failed</span>}
+    </p>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Live crawl progress (server-sent events)
+// ---------------------------------------------------------------------------
+
+const MAX_LOG_LINES = 200;
+
+function useCrawlProgress(jobId: string, enabled: boolean, onFinished: () => void) {
+  const [progress, setProgress] = useState<CrawlProgress | null>(null);
+  const [log, setLog] = useState<CrawlProgressEvent[]>([]);
+  const onFinishedRef = useRef(onFinished);
+
+  useEffect(() => {
+    onFinishedRef.current = onFinished;
+  }, [onFinished]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const controller = new AbortController();
+    setLog([]);
+
+    api
+      .stream<CrawlProgressEvent>(
+        `/knowledge/crawl/job/${jobId}/events`,
+        (event) => {
+          setProgress(event.progress);
+          if (event.type !== 'snapshot') {
+            setLog((prev) => [...prev, event].slice(-MAX_LOG_LINES));
+          }
+        },
+        { signal: controller.signal },
+      )
+      // The stream ends when the crawl does (or the connection drops);
+      // either way reload the job from the API
+      .catch((err) => {
+        if (!controller.signal.aborted) console.warn('Crawl progress stream failed', err);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) onFinishedRef.current();
+      });
+
+    return () => controller.abort();
+  }, [jobId, enabled]);
+
+  return { progress: enabled ? progress : null, log };
+}
+
+function formatEta(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function describeEvent(event: CrawlProgressEvent): { text: string; className: string } {
+  switch (event.type) {
+    case 'started':
+      return { text: `Started crawling ${event.url}`, className: 'text-foreground' };
+    case 'discovered':
+      return {
+        text: `Discovered ${event.count} new URL${event.count === 1 ? '' : 's'} on ${event.url}`,
+        className: 'text-muted-foreground',
+      };
+    case 'fetched':
+      return {
+        text: `Fetched ${event.url}${event.title ? ` — ${event.title}` : ''}`,
+        className: 'text-green-600 dark:text-green-400',
+      };
+    case 'skipped':
+      return {
+        text: `Skipped ${event.url}: ${event.reason}`,
+        className: 'text-yellow-600 dark:text-yellow-400',
+      };
+    case 'failed':
+      return { text: `Failed ${event.url}: ${event.reason}`, className: 'text-red-500' };
+    case 'completed':
+      return { text: 'Crawl completed', className: 'text-foreground' };
+    case 'cancelled':
+      return { text: 'Crawl cancelled', className: 'text-muted-foreground' };
+    case 'error':
+      return { text: `Crawl failed: ${event.reason}`, className: 'text-red-500' };
+    default:
+      return { text: event.type, className: 'text-muted-foreground' };
+  }
+}
+
+function CrawlLiveProgress({
+  progress,
+  log,
+}: {
+  progress: CrawlProgress | null;
+  log: CrawlProgressEvent[];
+}) {
+  const logRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    logRef.current?.scrollTo({ top: logRef.current.scrollHeight });
+  }, [log]);
+
+  if (!progress) {
+    return <p className="text-xs text-muted-foreground">Waiting for the crawler...</p>;
+  }
+
+  const processed = progress.pagesCrawled + progress.pagesFailed + progress.pagesSkipped;
+  const remaining = Math.min(progress.pagesQueued, Math.max(progress.limit - progress.pagesCrawled, 0));
+  const percent = processed + remaining > 0 ? Math.round((processed / (processed + remaining)) * 100) : 0;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          {progress.pagesCrawled} fetched · {progress.pagesFailed} failed · {progress.pagesSkipped} skipped ·{' '}
+          {progress.pagesQueued} queued
+        </span>
+        {progress.etaSeconds !== null && <span>~{formatEta(progress.etaSeconds)} left</span>}
+      </div>
+      <div className="h-1.5 w-full overflow-hidden rounded-full bg-muted">
+        <div
+          className="h-full rounded-full bg-primary transition-all"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      {log.length > 0 && (
+        <div
+          ref={logRef}
+          className="max-h-40 overflow-y-auto rounded-md border border-border bg-background p-2 font-mono text-xs"
+        >
+          {log.map((event, i) => {
+            const { text, className } = describeEvent(event);
+            return (
+              <p key={i} className={`truncate ${className}`} title={text}>
+                <span className="mr-2 text-muted-foreground">
+                  {new Date(event.at).toLocaleTimeString('en-US', { hour12: false })}
+                </span>
+                {text}
+              </p>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Crawled Pages List (within expanded job row)
 // ---------------------------------------------------------------------------
@@ -702,11 +1302,26 @@ function CrawledPagesList({
                   <p className="max-w-sm truncate text-xs text-muted-foreground">
                     {crawlPage.url}
                   </p>
+                  {(crawlPage.skipReason || crawlPage.errorMessage) && (
+                    <p
+                      className={`max-w-sm truncate text-xs ${crawlPage.status === 'FAILED' ? 'text-red-500' : 'text-muted-foreground'}`}
+                    >
+                      {crawlPage.skipReason || crawlPage.errorMessage}
+                    </p>
+                  )}
                 </td>
                 <td className="px-3 py-2">
                   <span className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${statusColor(crawlPage.status)}`}>
                     {crawlPage.status}
                   </span>
+                  {crawlPage.trainingStatus && (
+                    <span
+                      className={`ml-1 inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${statusColor(crawlPage.trainingStatus)}`}
+                      title="Training status"
+                    >
+                      {crawlPage.trainingStatus}
+                    </span>
+                  )}
                 </td>
                 <td className="px-3 py-2 text-xs text-muted-foreground">
                   {crawlPage.pageType || 'HTML'}
@@ -1393,35 +2008,1141 @@ function TextTrainingTab({ chatbotId }: { chatbotId: string }) {
 }
 
 // ===========================================================================
-// Tab 4: Files (Placeholder)
+// Tab 4: Files
 // ===========================================================================
 
-function FilesTab() {
+const ACCEPTED_FILE_TYPES = '.pdf,.docx,.xlsx,.xls,.csv,.txt,.md';
+const MAX_FILE_SIZE_MB = 20;
+
+function FilesTab({ chatbotId }: { chatbotId: string }) {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [page, setPage] = useState(1);
+  const [deletingFile, setDeletingFile] = useState<FileTraining | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['trainingFiles', chatbotId, page],
+    queryFn: () =>
+      api.get<FilesResponse>(`/knowledge/files/${chatbotId}?page=${page}&limit=10`),
+    // Keep polling while any file is still being extracted/embedded
+    refetchInterval: (query) =>
+      query.state.data?.data?.files.some(
+        (f) => f.trainingStatus === 'PENDING' || f.trainingStatus === 'PROCESSING',
+      )
+        ? 3000
+        : false,
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: (file: File) => {
+      const formData = new FormData();
+      formData.append('chatbotId', chatbotId);
+      formData.append('file', file);
+      return api.upload('/knowledge/files', formData);
+    },
+    onSuccess: (_data, file) => {
+      queryClient.invalidateQueries({ queryKey: ['trainingFiles', chatbotId] });
+      toast.success(`${file.name} uploaded`);
+    },
+    onError: (err, file) => {
+      toast.error(err instanceof ApiError ? err.message : `Failed to upload ${file.name}`);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (fileId: string) => api.delete(`/knowledge/files/${fileId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['trainingFiles', chatbotId] });
+      setDeletingFile(null);
+      toast.success('File deleted');
+    },
+    onError: (err) => {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to delete file');
+    },
+  });
+
+  function handleFilesSelected(e: React.ChangeEvent<HTMLInputElement>) {
+    const selected = Array.from(e.target.files ?? []);
+    e.target.value = '';
+
+    for (const file of selected) {
+      if (file.size > MAX_FILE_SIZE_MB * 1024 * 1024) {
+        toast.error(`${file.name} is larger than ${MAX_FILE_SIZE_MB} MB`);
+        continue;
+      }
+      uploadMutation.mutate(file);
+    }
+  }
+
+  const files = data?.data?.files ?? [];
+  const pagination = data?.data;
+
   return (
     <div className="space-y-6">
-      <div>
-        <h2 className="text-lg font-semibold text-foreground">File Upload</h2>
-        <p className="text-sm text-muted-foreground">
-          Upload documents to train your chatbot with file content.
-        </p>
-      </div>
-
-      <div className="flex flex-col items-center justify-center rounded-xl border-2 border-dashed border-border bg-muted/30 py-20">
-        <svg className="mb-4 h-12 w-12 text-muted-foreground/30" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
-          <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 0 0-3.375-3.375h-1.5A1.125 1.125 0 0 1 13.5 7.125v-1.5a3.375 3.375 0 0 0-3.375-3.375H8.25m6.75 12-3-3m0 0-3 3m3-3v6m-1.5-15H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 0 0-9-9Z" />
-        </svg>
-        <p className="mb-2 text-base font-medium text-foreground">Coming Soon</p>
-        <p className="max-w-sm text-center text-sm text-muted-foreground">
-          File upload training is coming in a future update. You will be able to upload PDF, DOCX,
-          TXT, and other document formats to train your chatbot.
-        </p>
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-foreground">File Upload</h2>
+          <p className="text-sm text-muted-foreground">
+            Upload documents to train your chatbot with file content.
+          </p>
+        </div>
         <button
-          disabled
-          className="mt-6 h-10 rounded-lg bg-primary px-4 text-sm font-medium text-primary-foreground opacity-50 cursor-not-allowed"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploadMutation.isPending}
+          className="rounded-lg bg-primary px-4 py-2.5 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
         >
-          Upload Files
+          {uploadMutation.isPending ? 'Uploading...' : '+ Upload Files'}
         </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={ACCEPTED_FILE_TYPES}
+          onChange={handleFilesSelected}
+          className="hidden"
+        />
       </div>
+
+      {/* Loading */}
+      {isLoading && (
+        <div className="animate-pulse space-y-3">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="h-16 rounded-lg bg-muted" />
+          ))}
+        </div>
+      )}
+
+      {/* Empty state */}
+      {!isLoading && files.length === 0 && (
+        <div className="flex flex-col items-center justify-center rounded-xl border-2 border-dashed border-border bg-muted/30 py-20">
+          <svg className="mb-4 h-12 w-12 text-muted-foreground/30" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 0 0-3.375-3.375h-1.5A1.125 1.125 0 0 1 13.5 7.125v-1.5a3.375 3.375 0 0 0-3.375-3.375H8.25m6.75 12-3-3m0 0-3 3m3-3v6m-1.5-15H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 0 0-9-9Z" />
+          </svg>
+          <p className="mb-1 text-sm font-medium text-foreground">No files uploaded yet</p>
+          <p className="mb-4 max-w-sm text-center text-xs text-muted-foreground">
+            Upload PDF, DOCX, XLSX, CSV or TXT documents (up to {MAX_FILE_SIZE_MB} MB each) to
+            train your chatbot.
+          </p>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploadMutation.isPending}
+            className="rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+          >
+            Upload Files
+          </button>
+        </div>
+      )}
+
+      {/* Files table */}
+      {!isLoading && files.length > 0 && (
+        <div className="rounded-xl border border-border bg-card">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">File</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">Type</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">Size</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">Status</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">Uploaded</th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wider text-muted-foreground">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {files.map((file) => (
+                <tr key={file.id}>
+                  <td className="max-w-xs px-4 py-3">
+                    <p className="truncate text-sm font-medium text-foreground" title={file.fileName}>
+                      {file.fileName}
+                    </p>
+                    {file.trainingStatus === 'FAILED' && file.errorMessage && (
+                      <p className="truncate text-xs text-red-500" title={file.errorMessage}>
+                        {file.errorMessage}
+                      </p>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">{file.pageType}</td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">{formatFileSize(file.fileSize)}</td>
+                  <td className="px-4 py-3">
+                    <span className={`inline-flex rounded-full px-2.5 py-0.5 text-xs font-medium ${statusColor(file.trainingStatus)}`}>
+                      {file.trainingStatus}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">{formatDate(file.createdAt)}</td>
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      onClick={() => setDeletingFile(file)}
+                      className="rounded-lg px-2.5 py-1.5 text-xs font-medium text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {/* Pagination */}
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between border-t border-border px-4 py-3">
+              <p className="text-sm text-muted-foreground">
+                Page {pagination.currentPage} of {pagination.totalPages} ({pagination.totalDocs} total)
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPage((p) => Math.max(1, p - 1))}
+                  disabled={!pagination.hasPrevPage}
+                  className="rounded-lg border border-border px-3 py-1.5 text-sm text-foreground hover:bg-accent disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage((p) => p + 1)}
+                  disabled={!pagination.hasNextPage}
+                  className="rounded-lg border border-border px-3 py-1.5 text-sm text-foreground hover:bg-accent disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Delete confirmation dialog */}
+      {deletingFile && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+          <div className="w-full max-w-sm rounded-xl border border-border bg-card p-6 shadow-lg">
+            <h3 className="mb-2 text-lg font-semibold text-foreground">Delete File</h3>
+            <p className="mb-4 text-sm text-muted-foreground">
+              Delete <span className="font-medium text-foreground">{deletingFile.fileName}</span>?
+              The chatbot will no longer use its content for responses.
+            </p>
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setDeletingFile(null)}
+                className="h-10 rounded-lg border border-border px-4 text-sm font-medium text-foreground hover:bg-accent"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => deleteMutation.mutate(deletingFile.id)}
+                disabled={deleteMutation.isPending}
+                className="h-10 rounded-lg bg-red-500 px-4 text-sm font-medium text-white hover:bg-red-600 disabled:opacity-50"
+              >
+                {deleteMutation.isPending ? 'Deleting...' : 'Delete'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ===========================================================================
+// Tab 5: Scheduled Retraining
+// ===========================================================================
+
+const CRON_PRESETS: { label: string; value: string }[] = [
+  { label: 'Every day at 03:00', value: '0 3 * * *' },
+  { label: 'Every Monday at 03:00', value: '0 3 * * 1' },
+  { label: 'First of every month at 03:00', value: '0 3 1 * *' },
+  { label: 'Every 6 hours', value: '0 */6 * * *' },
+];
+
+function ScheduleTab({ chatbotId }: { chatbotId: string }) {
+  const queryClient = useQueryClient();
+  const [cronExpression, setCronExpression] = useState(CRON_PRESETS[0].value);
+  const [historyScheduleId, setHistoryScheduleId] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['retrainingSchedules', chatbotId],
+    queryFn: () =>
+      api.get<{ schedules: RetrainingSchedule[] }>(`/knowledge/retraining/${chatbotId}`),
+  });
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: ['retrainingSchedules', chatbotId] });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      api.post('/knowledge/retraining', { chatbotId, cronExpression: cronExpression.trim() }),
+    onSuccess: () => {
+      invalidate();
+      toast.success('Retraining schedule created');
+    },
+    onError: (err) => {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to create schedule');
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (schedule: RetrainingSchedule) =>
+      api.patch(`/knowledge/retraining/${schedule.id}`, { isActive: !schedule.isActive }),
+    onSuccess: () => invalidate(),
+    onError: (err) => {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to update schedule');
+    },
+  });
+
+  const runNowMutation = useMutation({
+    mutationFn: (scheduleId: string) => api.post(`/knowledge/retraining/${scheduleId}/run`),
+    onSuccess: (_data, scheduleId) => {
+      toast.success('Retraining started');
+      // The run record is written by the worker; pick it up shortly after
+      setTimeout(() => {
+        invalidate();
+        queryClient.invalidateQueries({ queryKey: ['retrainingRuns', scheduleId] });
+      }, 2000);
+    },
+    onError: (err) => {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to start retraining');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (scheduleId: string) => api.delete(`/knowledge/retraining/${scheduleId}`),
+    onSuccess: () => {
+      invalidate();
+      toast.success('Schedule deleted');
+    },
+    onError: (err) => {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to delete schedule');
+    },
+  });
+
+  const schedules = data?.data?.schedules ?? [];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-lg font-semibold text-foreground">Scheduled Retraining</h2>
+        <p className="text-sm text-muted-foreground">
+          Periodically refresh crawled websites (only changed pages are re-embedded) and re-embed
+          text and Q&amp;A sources. Schedules run in UTC.
+        </p>
+      </div>
+
+      {/* New schedule */}
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (cronExpression.trim()) createMutation.mutate();
+        }}
+        className="flex flex-wrap items-end gap-3 rounded-xl border border-border bg-card p-4"
+      >
+        <div>
+          <label className="mb-1.5 block text-sm font-medium text-foreground">Preset</label>
+          <select
+            value={CRON_PRESETS.some((p) => p.value === cronExpression) ? cronExpression : ''}
+            onChange={(e) => e.target.value && setCronExpression(e.target.value)}
+            className="h-10 rounded-lg border border-input bg-background px-3 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20"
+          >
+            {CRON_PRESETS.map((preset) => (
+              <option key={preset.value} value={preset.value}>
+                {preset.label}
+              </option>
+            ))}
+            <option value="">Custom</option>
+          </select>
+        </div>
+        <div className="flex-1">
+          <label className="mb-1.5 block text-sm font-medium text-foreground">Cron expression</label>
+          <input
+            type="text"
+            value={cronExpression}
+            onChange={(e) => setCronExpression(e.target.value)}
+            placeholder="0 3 * * *"
+            className="h-10 w-full rounded-lg border border-input bg-background px-3 font-mono text-sm text-foreground placeholder:text-muted-foreground focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={createMutation.isPending || !cronExpression.trim()}
+          className="h-10 rounded-lg bg-primary px-4 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+        >
+          {createMutation.isPending ? 'Adding...' : '+ Add Schedule'}
+        </button>
+      </form>
+
+      {/* Loading */}
+      {isLoading && (
+        <div className="animate-pulse space-y-3">
+          {[1, 2].map((i) => (
+            <div key={i} className="h-16 rounded-lg bg-muted" />
+          ))}
+        </div>
+      )}
+
+      {/* Empty state */}
+      {!isLoading && schedules.length === 0 && (
+        <div className="rounded-xl border-2 border-dashed border-border bg-muted/30 py-12 text-center">
+          <p className="mb-1 text-sm font-medium text-foreground">No retraining schedules</p>
+          <p className="text-xs text-muted-foreground">
+            Add a schedule to keep the knowledge base in sync with your sources.
+          </p>
+        </div>
+      )}
+
+      {/* Schedules */}
+      {!isLoading && schedules.length > 0 && (
+        <div className="divide-y divide-border rounded-xl border border-border bg-card">
+          {schedules.map((schedule) => {
+            const lastRun = schedule.runs[0];
+            const showHistory = historyScheduleId === schedule.id;
+
+            return (
+              <div key={schedule.id} className="px-4 py-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <code className="text-sm font-medium text-foreground">{schedule.cronExpression}</code>
+                      <span
+                        className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${
+                          schedule.isActive
+                            ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+                            : 'bg-gray-100 text-gray-700 dark:bg-gray-900/30 dark:text-gray-400'
+                        }`}
+                      >
+                        {schedule.isActive ? 'Active' : 'Paused'}
+                      </span>
+                      {lastRun && (
+                        <span className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${statusColor(lastRun.status)}`}>
+                          Last run {lastRun.status.toLowerCase()}
+                        </span>
+                      )}
+                    </div>
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      Next run: {schedule.nextRunAt ? formatDate(schedule.nextRunAt) : '—'} · Last run:{' '}
+                      {schedule.lastRunAt ? formatDate(schedule.lastRunAt) : 'never'}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    <button
+                      onClick={() => setHistoryScheduleId(showHistory ? null : schedule.id)}
+                      className="rounded-md border border-border px-2.5 py-1 text-xs font-medium text-foreground hover:bg-accent"
+                    >
+                      {showHistory ? 'Hide History' : 'History'}
+                    </button>
+                    <button
+                      onClick={() => runNowMutation.mutate(schedule.id)}
+                      disabled={runNowMutation.isPending}
+                      className="rounded-md border border-border px-2.5 py-1 text-xs font-medium text-foreground hover:bg-accent disabled:opacity-50"
+                    >
+                      Run Now
+                    </button>
+                    <button
+                      onClick={() => toggleMutation.mutate(schedule)}
+                      disabled={toggleMutation.isPending}
+                      className="rounded-md bg-primary/10 px-2.5 py-1 text-xs font-medium text-primary hover:bg-primary/20 disabled:opacity-50"
+                    >
+                      {schedule.isActive ? 'Pause' : 'Resume'}
+                    </button>
+                    <button
+                      onClick={() => deleteMutation.mutate(schedule.id)}
+                      disabled={deleteMutation.isPending}
+                      className="rounded-md px-2.5 py-1 text-xs font-medium text-red-500 hover:bg-red-50 disabled:opacity-50 dark:hover:bg-red-900/20"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                {showHistory && <RetrainingRunHistory scheduleId={schedule.id} />}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function RetrainingRunHistory({ scheduleId }: { scheduleId: string }) {
+  const { data, isLoading } = useQuery({
+    queryKey: ['retrainingRuns', scheduleId],
+    queryFn: () =>
+      api.get<{ runs: RetrainingRun[] }>(`/knowledge/retraining/${scheduleId}/runs`),
+  });
+
+  const runs = data?.data?.runs ?? [];
+
+  if (isLoading) {
+    return <div className="mt-3 h-12 animate-pulse rounded-lg bg-muted" />;
+  }
+
+  if (runs.length === 0) {
+    return <p className="mt-3 text-xs text-muted-foreground">This schedule hasn&apos;t run yet.</p>;
+  }
+
+  return (
+    <table className="mt-3 w-full rounded-lg bg-muted/30">
+      <thead>
+        <tr className="border-b border-border">
+          <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Started</th>
+          <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Status</th>
+          <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Crawl refreshes</th>
+          <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Text</th>
+          <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground">Q&amp;A</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-border">
+        {runs.map((run) => (
+          <tr key={run.id}>
+            <td className="px-3 py-2 text-xs text-muted-foreground">{formatDate(run.startedAt)}</td>
+            <td className="px-3 py-2">
+              <span
+                className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${statusColor(run.status)}`}
+                title={run.errorMessage ?? undefined}
+              >
+                {run.status}
+              </span>
+            </td>
+            <td className="px-3 py-2 text-xs text-muted-foreground">{run.crawlRefreshes}</td>
+            <td className="px-3 py-2 text-xs text-muted-foreground">{run.textSources}</td>
+            <td className="px-3 py-2 text-xs text-muted-foreground">{run.qnaSources}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// ===========================================================================
+// Tab 6: Index (knowledge sources and their chunks)
+// ===========================================================================
+
+const SOURCE_TYPE_LABELS: Record<KnowledgeSourceType, string> = {
+  CRAWL: 'Web page',
+  FILE: 'File',
+  QNA: 'Q&A',
+  TEXT: 'Text',
+  MANUAL: 'Manual',
+};
+
+function sourceKey(source: KnowledgeSource): string {
+  return `${source.sourceType}/${source.sourceId}`;
+}
+
+function SourcesTab({ chatbotId }: { chatbotId: string }) {
+  const queryClient = useQueryClient();
+  const [page, setPage] = useState(1);
+  const [typeFilter, setTypeFilter] = useState<KnowledgeSourceType | ''>('');
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [deletingSource, setDeletingSource] = useState<KnowledgeSource | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['knowledgeSources', chatbotId, page, typeFilter],
+    queryFn: () =>
+      api.get<SourcesResponse>(
+        `/knowledge/sources/${chatbotId}?page=${page}&limit=20${typeFilter ? `&sourceType=${typeFilter}` : ''}`,
+      ),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (source: KnowledgeSource) =>
+      api.delete(`/knowledge/sources/${chatbotId}/${source.sourceType}/${source.sourceId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['knowledgeSources', chatbotId] });
+      setDeletingSource(null);
+      toast.success('Source removed');
+    },
+    onError: (err) => {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to remove source');
+    },
+  });
+
+  const sources = data?.data?.sources ?? [];
+  const totals = data?.data?.totals;
+  const pagination = data?.data;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-foreground">Index</h2>
+          <p className="text-sm text-muted-foreground">
+            {totals
+              ? `${totals.sources} sources · ${totals.chunks} chunks · ${totals.tokens.toLocaleString()} tokens`
+              : 'Everything your chatbot can currently retrieve.'}
+          </p>
+        </div>
+        <select
+          value={typeFilter}
+          onChange={(e) => {
+            setTypeFilter(e.target.value as KnowledgeSourceType | '');
+            setPage(1);
+          }}
+          className="h-10 rounded-lg border border-input bg-background px-3 text-sm outline-none ring-ring focus:ring-2"
+        >
+          <option value="">All sources</option>
+          {(['CRAWL', 'FILE', 'QNA', 'TEXT'] as const).map((type) => (
+            <option key={type} value={type}>
+              {SOURCE_TYPE_LABELS[type]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Loading */}
+      {isLoading && (
+        <div className="animate-pulse space-y-3">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="h-16 rounded-lg bg-muted" />
+          ))}
+        </div>
+      )}
+
+      {/* Empty state */}
+      {!isLoading && sources.length === 0 && (
+        <div className="flex flex-col items-center justify-center rounded-xl border-2 border-dashed border-border bg-muted/30 py-20">
+          <p className="mb-1 text-sm font-medium text-foreground">Nothing indexed yet</p>
+          <p className="max-w-sm text-center text-xs text-muted-foreground">
+            Train web pages, files, Q&amp;A pairs or text and they will show up here.
+          </p>
+        </div>
+      )}
+
+      {/* Sources table */}
+      {!isLoading && sources.length > 0 && (
+        <div className="rounded-xl border border-border bg-card">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">Source</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">Chunks</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">Tokens</th>
+                <th className="px-4 py-3 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">Last Trained</th>
+                <th className="px-4 py-3 text-right text-xs font-medium uppercase tracking-wider text-muted-foreground">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {sources.map((source) => {
+                const key = sourceKey(source);
+                const isExpanded = expandedKey === key;
+                return (
+                  <SourceRow
+                    key={key}
+                    chatbotId={chatbotId}
+                    source={source}
+                    isExpanded={isExpanded}
+                    onToggleExpand={() => setExpandedKey(isExpanded ? null : key)}
+                    onDelete={() => setDeletingSource(source)}
+                  />
+                );
+              })}
+            </tbody>
+          </table>
+
+          {/* Pagination */}
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between border-t border-border px-4 py-3">
+              <p className="text-sm text-muted-foreground">
+                Page {pagination.currentPage} of {pagination.totalPages} ({pagination.totalDocs} total)
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPage((p) => Math.max(1, p - 1))}
+                  disabled={!pagination.hasPrevPage}
+                  className="rounded-lg border border-border px-3 py-1.5 text-sm text-foreground hover:bg-accent disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage((p) => p + 1)}
+                  disabled={!pagination.hasNextPage}
+                  className="rounded-lg border border-border px-3 py-1.5 text-sm text-foreground hover:bg-accent disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Delete confirmation dialog */}
+      {deletingSource && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+          <div className="w-full max-w-sm rounded-xl border border-border bg-card p-6 shadow-lg">
+            <h3 className="mb-2 text-lg font-semibold text-foreground">Remove Source</h3>
+            <p className="mb-4 text-sm text-muted-foreground">
+              Remove{' '}
+              <span className="font-medium text-foreground">
+                {deletingSource.title || deletingSource.url || SOURCE_TYPE_LABELS[deletingSource.sourceType]}
+              </span>{' '}
+              and its {deletingSource.chunkCount} chunks?{' '}
+              {deletingSource.sourceType === 'CRAWL'
+                ? 'The page stays in its crawl job and can be selected again.'
+                : 'The source itself is deleted too.'}
+            </p>
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setDeletingSource(null)}
+                className="h-10 rounded-lg border border-border px-4 text-sm font-medium text-foreground hover:bg-accent"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => deleteMutation.mutate(deletingSource)}
+                disabled={deleteMutation.isPending}
+                className="h-10 rounded-lg bg-red-500 px-4 text-sm font-medium text-white hover:bg-red-600 disabled:opacity-50"
+              >
+                {deleteMutation.isPending ? 'Removing...' : 'Remove'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SourceRow({
+  chatbotId,
+  source,
+  isExpanded,
+  onToggleExpand,
+  onDelete,
+}: {
+  chatbotId: string;
+  source: KnowledgeSource;
+  isExpanded: boolean;
+  onToggleExpand: () => void;
+  onDelete: () => void;
+}) {
+  return (
+    <>
+      <tr className="cursor-pointer transition-colors hover:bg-muted/50" onClick={onToggleExpand}>
+        <td className="max-w-sm px-4 py-3">
+          <div className="flex items-center gap-2">
+            <span className="shrink-0 rounded bg-muted px-1.5 py-0.5 text-xs text-muted-foreground">
+              {SOURCE_TYPE_LABELS[source.sourceType]}
+            </span>
+            <span className="truncate text-sm font-medium text-foreground" title={source.title ?? undefined}>
+              {source.title || source.url || source.sourceId}
+            </span>
+          </div>
+          {source.url && source.title && (
+            <p className="truncate text-xs text-muted-foreground">{source.url}</p>
+          )}
+          {source.orphaned && (
+            <p className="text-xs text-yellow-600 dark:text-yellow-400">Original source no longer exists</p>
+          )}
+        </td>
+        <td className="px-4 py-3 text-sm text-muted-foreground">
+          {source.chunkCount}
+          {source.disabledChunkCount > 0 && (
+            <span className="ml-1 text-xs">({source.disabledChunkCount} disabled)</span>
+          )}
+        </td>
+        <td className="px-4 py-3 text-sm text-muted-foreground">{source.tokenCount.toLocaleString()}</td>
+        <td className="px-4 py-3 text-sm text-muted-foreground">
+          {source.lastTrainedAt ? formatDate(source.lastTrainedAt) : '-'}
+        </td>
+        <td className="px-4 py-3 text-right" onClick={(e) => e.stopPropagation()}>
+          <button
+            onClick={onDelete}
+            className="rounded-lg px-2.5 py-1.5 text-xs font-medium text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20"
+          >
+            Remove
+          </button>
+        </td>
+      </tr>
+      {isExpanded && (
+        <tr>
+          <td colSpan={5} className="bg-muted/30 px-4 py-4">
+            <SourceChunksList chatbotId={chatbotId} source={source} />
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
+
+function SourceChunksList({ chatbotId, source }: { chatbotId: string; source: KnowledgeSource }) {
+  const queryClient = useQueryClient();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const chunksKey = ['sourceChunks', chatbotId, source.sourceType, source.sourceId];
+
+  const { data, isLoading } = useQuery({
+    queryKey: chunksKey,
+    queryFn: () =>
+      api.get<{ chunks: KnowledgeChunk[] }>(
+        `/knowledge/sources/${chatbotId}/${source.sourceType}/${source.sourceId}/chunks`,
+      ),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ chunkId, body }: { chunkId: string; body: { content?: string; isActive?: boolean } }) =>
+      api.patch(`/knowledge/sources/chunks/${chunkId}`, body),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: chunksKey });
+      queryClient.invalidateQueries({ queryKey: ['knowledgeSources', chatbotId] });
+      setEditingId(null);
+    },
+    onError: (err) => {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to update chunk');
+    },
+  });
+
+  if (isLoading) {
+    return <div className="h-20 animate-pulse rounded-lg bg-muted" />;
+  }
+
+  const chunks = data?.data?.chunks ?? [];
+
+  return (
+    <div className="space-y-3">
+      {chunks.map((chunk, i) => (
+        <div
+          key={chunk.id}
+          className={`rounded-lg border border-border bg-card p-3 ${chunk.isActive ? '' : 'opacity-60'}`}
+        >
+          <div className="mb-2 flex items-center justify-between text-xs text-muted-foreground">
+            <span>
+              #{(chunk.metadata?.chunkIndex ?? i) + 1}
+              {chunk.metadata?.heading && ` · ${chunk.metadata.heading}`} · {chunk.tokenCount} tokens
+              {!chunk.isActive && ' · disabled'}
+            </span>
+            <div className="flex gap-2">
+              {editingId !== chunk.id && (
+                <button
+                  onClick={() => {
+                    setEditingId(chunk.id);
+                    setDraft(chunk.content);
+                  }}
+                  className="font-medium text-primary hover:underline"
+                >
+                  Edit
+                </button>
+              )}
+              <button
+                onClick={() => updateMutation.mutate({ chunkId: chunk.id, body: { isActive: !chunk.isActive } })}
+                disabled={updateMutation.isPending}
+                className="font-medium text-foreground hover:underline disabled:opacity-50"
+              >
+                {chunk.isActive ? 'Disable' : 'Enable'}
+              </button>
+            </div>
+          </div>
+          {editingId === chunk.id ? (
+            <div className="space-y-2">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={6}
+                className="w-full rounded-lg border border-input bg-background px-3 py-2 font-mono text-xs outline-none ring-ring focus:ring-2"
+              />
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setEditingId(null)}
+                  className="rounded-md border border-border px-2.5 py-1 text-xs font-medium text-foreground hover:bg-accent"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => updateMutation.mutate({ chunkId: chunk.id, body: { content: draft.trim() } })}
+                  disabled={updateMutation.isPending || !draft.trim()}
+                  className="rounded-md bg-primary px-2.5 py-1 text-xs font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+                >
+                  {updateMutation.isPending ? 'Saving...' : 'Save & re-embed'}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <p className="whitespace-pre-wrap text-xs text-foreground">{chunk.content}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ===========================================================================
+// Tab 7: Retrieval Playground
+// ===========================================================================
+
+const REJECTION_LABELS: Record<NonNullable<RetrievalCandidate['rejectedReason']>, string> = {
+  below_threshold: 'Below threshold',
+  beyond_top_k: 'Beyond top K',
+};
+
+function PlaygroundTab({ chatbotId }: { chatbotId: string }) {
+  const [draft, setDraft] = useState('');
+  const [query, setQuery] = useState('');
+  // Only settings the user changed are sent; the rest come from the chatbot
+  const [overrides, setOverrides] = useState<Partial<RetrievalSettings>>({});
+  const [debouncedOverrides, setDebouncedOverrides] = useState<Partial<RetrievalSettings>>({});
+  const [showPrompt, setShowPrompt] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedOverrides(overrides), 300);
+    return () => clearTimeout(timer);
+  }, [overrides]);
+
+  const { data, isFetching, error } = useQuery({
+    queryKey: ['retrievalTest', chatbotId, query, debouncedOverrides],
+    queryFn: () =>
+      api.post<RetrievalTestResponse>('/knowledge/retrieval/test', {
+        chatbotId,
+        query,
+        ...debouncedOverrides,
+      }),
+    enabled: !!query,
+    placeholderData: keepPreviousData,
+    retry: false,
+  });
+
+  const result = data?.data;
+  const settings = result ? { ...result.settings, ...overrides } : null;
+  const isCustomized = Object.keys(overrides).length > 0;
+
+  function handleRun(e: React.FormEvent) {
+    e.preventDefault();
+    setQuery(draft.trim());
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-lg font-semibold text-foreground">Retrieval Playground</h2>
+        <p className="text-sm text-muted-foreground">
+          See which chunks a question retrieves, why others were left out, and the exact prompt the model receives.
+        </p>
+      </div>
+
+      {/* Query */}
+      <form onSubmit={handleRun} className="flex gap-3">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Ask something your users would ask..."
+          className="h-10 flex-1 rounded-lg border border-input bg-background px-3 text-sm outline-none ring-ring focus:ring-2"
+        />
+        <button
+          type="submit"
+          disabled={!draft.trim() || isFetching}
+          className="h-10 rounded-lg bg-primary px-4 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+        >
+          {isFetching ? 'Searching...' : 'Test Retrieval'}
+        </button>
+      </form>
+
+      {error && (
+        <p className="text-sm text-red-500">
+          {error instanceof ApiError ? error.message : 'Retrieval test failed'}
+        </p>
+      )}
+
+      {/* Settings */}
+      {settings && (
+        <div className="grid gap-4 rounded-xl border border-border bg-card p-4 sm:grid-cols-5">
+          <div>
+            <label className="mb-1.5 block text-sm font-medium text-foreground">Mode</label>
+            <select
+              value={settings.mode}
+              onChange={(e) => setOverrides((o) => ({ ...o, mode: e.target.value as RetrievalMode }))}
+              className="h-10 w-full rounded-lg border border-input bg-background px-3 text-sm outline-none ring-ring focus:ring-2"
+            >
+              <option value="VECTOR">Semantic (vector)</option>
+              <option value="HYBRID">Hybrid (keyword + vector)</option>
+            </select>
+          </div>
+          <div>
+            <label className="mb-1.5 block text-sm font-medium text-foreground">Reranking</label>
+            <select
+              value={settings.reranker}
+              onChange={(e) => setOverrides((o) => ({ ...o, reranker: e.target.value as RerankerType }))}
+              className="h-10 w-full rounded-lg border border-input bg-background px-3 text-sm outline-none ring-ring focus:ring-2"
+            >
+              <option value="NONE">Off</option>
+              <option value="CROSS_ENCODER">Cross-encoder</option>
+              <option value="LLM">LLM scoring</option>
+            </select>
+          </div>
+          <div>
+            <label className="mb-1.5 block text-sm font-medium text-foreground">Expansion</label>
+            <select
+              value={settings.queryExpansion}
+              onChange={(e) => setOverrides((o) => ({ ...o, queryExpansion: e.target.value as QueryExpansion }))}
+              className="h-10 w-full rounded-lg border border-input bg-background px-3 text-sm outline-none ring-ring focus:ring-2"
+            >
+              <option value="NONE">Off</option>
+              <option value="MULTI_QUERY">Multi-query</option>
+              <option value="HYDE">HyDE</option>
+            </select>
+          </div>
+          <div>
+            <label className="mb-1.5 block text-sm font-medium text-foreground">
+              Minimum Similarity: {settings.minScore.toFixed(2)}
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={settings.minScore}
+              onChange={(e) => setOverrides((o) => ({ ...o, minScore: parseFloat(e.target.value) }))}
+              className="w-full"
+            />
+          </div>
+          <div>
+            <label className="mb-1.5 block text-sm font-medium text-foreground">Top K: {settings.topK}</label>
+            <input
+              type="range"
+              min="1"
+              max="20"
+              step="1"
+              value={settings.topK}
+              onChange={(e) => setOverrides((o) => ({ ...o, topK: parseInt(e.target.value, 10) }))}
+              className="w-full"
+            />
+          </div>
+          {result && result.queries.length > 1 && (
+            <div className="space-y-1 text-xs sm:col-span-5">
+              <p className="font-medium text-foreground">Searched with</p>
+              <ol className="list-decimal space-y-0.5 pl-5 text-muted-foreground">
+                {result.queries.map((q, i) => (
+                  <li key={i} className="whitespace-pre-wrap">{q}</li>
+                ))}
+              </ol>
+            </div>
+          )}
+          <div className="flex items-center justify-between text-xs text-muted-foreground sm:col-span-5">
+            <span>
+              {result && `${result.selectedCount} of ${result.candidates.length} candidates used · ${result.tookMs} ms`}
+            </span>
+            {isCustomized && (
+              <button
+                onClick={() => setOverrides({})}
+                className="font-medium text-primary hover:underline"
+              >
+                Reset to chatbot settings
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Empty state */}
+      {!query && (
+        <div className="flex flex-col items-center justify-center rounded-xl border-2 border-dashed border-border bg-muted/30 py-20">
+          <p className="mb-1 text-sm font-medium text-foreground">Run a test query</p>
+          <p className="max-w-sm text-center text-xs text-muted-foreground">
+            Nothing is sent to the model and no conversation is recorded.
+          </p>
+        </div>
+      )}
+
+      {result && result.candidates.length === 0 && (
+        <p className="rounded-lg border border-border bg-card p-4 text-sm text-muted-foreground">
+          No chunks matched. Check that the knowledge base has been trained.
+        </p>
+      )}
+
+      {/* Candidates */}
+      {result && result.candidates.length > 0 && (
+        <div className={`space-y-3 ${isFetching ? 'opacity-60' : ''}`}>
+          {result.candidates.map((candidate) => (
+            <RetrievalCandidateCard key={candidate.id} candidate={candidate} mode={result.settings.mode} />
+          ))}
+        </div>
+      )}
+
+      {/* Augmented prompt */}
+      {result && (
+        <div className="rounded-xl border border-border bg-card">
+          <button
+            onClick={() => setShowPrompt((v) => !v)}
+            className="flex w-full items-center justify-between px-4 py-3 text-sm font-medium text-foreground"
+          >
+            <span>Final system prompt</span>
+            <span className="text-xs text-muted-foreground">{showPrompt ? 'Hide' : 'Show'}</span>
+          </button>
+          {showPrompt && (
+            <pre className="max-h-96 overflow-auto whitespace-pre-wrap border-t border-border px-4 py-3 font-mono text-xs text-foreground">
+              {result.augmentedPrompt || '(empty)'}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function RetrievalCandidateCard({ candidate, mode }: { candidate: RetrievalCandidate; mode: RetrievalMode }) {
+  const label = candidate.sourceTitle || candidate.sourceUrl || SOURCE_TYPE_LABELS[candidate.sourceType];
+
+  return (
+    <div className={`rounded-lg border bg-card p-3 ${candidate.selected ? 'border-primary/50' : 'border-border opacity-70'}`}>
+      <div className="mb-2 flex flex-wrap items-center gap-2 text-xs">
+        <span className="font-mono text-muted-foreground">#{candidate.rank}</span>
+        <span
+          className={`rounded-full px-2 py-0.5 font-medium ${
+            candidate.selected
+              ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+              : 'bg-muted text-muted-foreground'
+          }`}
+        >
+          {candidate.rejectedReason ? REJECTION_LABELS[candidate.rejectedReason] : 'Used'}
+        </span>
+        <span className="shrink-0 rounded bg-muted px-1.5 py-0.5 text-muted-foreground">
+          {SOURCE_TYPE_LABELS[candidate.sourceType]}
+        </span>
+        {candidate.sourceUrl ? (
+          <a
+            href={candidate.sourceUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="truncate font-medium text-primary hover:underline"
+            title={candidate.sourceUrl}
+          >
+            {label}
+          </a>
+        ) : (
+          <span className="truncate font-medium text-foreground">{label}</span>
+        )}
+        {candidate.metadata?.heading && (
+          <span className="truncate text-muted-foreground">· {candidate.metadata.heading}</span>
+        )}
+      </div>
+
+      <div className="mb-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+        <span>
+          {mode === 'HYBRID' ? 'Fused' : 'Similarity'}:{' '}
+          <span className="font-mono text-foreground">{candidate.score.toFixed(3)}</span>
+        </span>
+        {mode === 'HYBRID' && candidate.vectorScore !== undefined && (
+          <span>
+            Vector: <span className="font-mono">{candidate.vectorScore.toFixed(3)}</span>
+          </span>
+        )}
+        {candidate.keywordScore !== undefined && (
+          <span>
+            Keyword: <span className="font-mono">{candidate.keywordScore.toFixed(3)}</span>
+          </span>
+        )}
+        {candidate.rerankScore !== undefined && (
+          <span>
+            Reranker: <span className="font-mono text-foreground">{candidate.rerankScore.toFixed(3)}</span>
+          </span>
+        )}
+      </div>
+      <div className="mb-2 h-1.5 w-full overflow-hidden rounded-full bg-muted">
+        <div
+          className={`h-full rounded-full ${candidate.selected ? 'bg-primary' : 'bg-muted-foreground/40'}`}
+          style={{ width: `${Math.max(0, Math.min(1, candidate.rerankScore ?? candidate.score)) * 100}%` }}
+        />
+      </div>
+
+      <p className="max-h-40 overflow-auto whitespace-pre-wrap text-xs text-foreground">{candidate.content}</p>
     </div>
   );
 }
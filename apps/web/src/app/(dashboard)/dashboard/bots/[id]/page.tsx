@@ -5,6 +5,8 @@ import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
+import { CHUNK_OVERLAP, CHUNK_SIZE, DEFAULT_CHUNKING_STRATEGY } from '@cobuild/shared';
+import type { AiModelInfo, ChunkingStrategy } from '@cobuild/shared';
 import { api, ApiError } from '@/lib/api';
 
 interface Chatbot {
@@ -21,6 +23,19 @@ interface Chatbot {
   voiceInputEnabled: boolean;
   voiceOutputEnabled: boolean;
   showCitations: boolean;
+  retrievalMode: 'VECTOR' | 'HYBRID';
+  retrievalMinScore: number;
+  reranker: 'NONE' | 'CROSS_ENCODER' | 'LLM';
+  queryRewriting: boolean;
+  groundingCheck: boolean;
+  queryExpansion: 'NONE' | 'MULTI_QUERY' | 'HYDE';
+  strictMode: boolean;
+  strictFallbackMessage: string | null;
+  strictFallbackAction: 'NONE' | 'HANDOFF' | 'LEAD_CAPTURE';
+  richMessages: boolean;
+  chunkingStrategy: ChunkingStrategy;
+  chunkSize: number;
+  chunkOverlap: number;
   rateLimitEnabled: boolean;
   rateLimitMessages: number | null;
   rateLimitWindowMinutes: number | null;
@@ -28,6 +43,30 @@ interface Chatbot {
   _count: { conversations: number; qnaPairs: number; crawlJobs: number };
 }
 
+interface EmbeddingModelOption {
+  provider: 'OPENAI' | 'GEMINI' | 'LOCAL';
+  model: string;
+  label: string;
+  dimensions: number;
+}
+
+interface EmbeddingMigration {
+  id: string;
+  toProvider: string;
+  toModel: string;
+  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+  totalChunks: number;
+  processedChunks: number;
+  errorMessage: string | null;
+  completedAt: string | null;
+}
+
+interface EmbeddingStatus {
+  active: { provider: string; model: string };
+  models: { provider: string; model: string; dimensions: number; chunks: number }[];
+  migration: EmbeddingMigration | null;
+}
+
 interface EmbedAppearance {
   theme: 'light' | 'dark';
   headerColor: string;
@@ -42,7 +81,9 @@ interface EmbedSettings {
   appearance: EmbedAppearance | null;
   embedAllowedDomains: string[];
   isPublic: boolean;
-  hasPassword: boolean;
+  passwordProtected: boolean;
+  /** Set when widget visitor identity verification is on */
+  identitySecret: string | null;
 }
 
 type Tab = 'general' | 'ai' | 'appearance' | 'rate-limit' | 'embed' | 'deployment';
@@ -174,7 +215,10 @@ export default function BotDetailPage() {
           <GeneralTab bot={bot} onSave={(d) => updateMutation.mutate(d)} saving={updateMutation.isPending} />
         )}
         {tab === 'ai' && (
-          <AiTab bot={bot} onSave={(d) => updateMutation.mutate(d)} saving={updateMutation.isPending} />
+          <div className="space-y-8">
+            <AiTab bot={bot} onSave={(d) => updateMutation.mutate(d)} saving={updateMutation.isPending} />
+            <EmbeddingModelSettings chatbotId={id} />
+          </div>
         )}
         {tab === 'appearance' && (
           <div className="text-center py-12 text-muted-foreground">
@@ -268,13 +312,39 @@ function AiTab({
   const [aiModel, setAiModel] = useState(bot.aiModel);
   const [temperature, setTemperature] = useState(bot.temperature);
   const [systemPrompt, setSystemPrompt] = useState(bot.systemPrompt ?? '');
+  const [retrievalMode, setRetrievalMode] = useState(bot.retrievalMode);
+  const [retrievalMinScore, setRetrievalMinScore] = useState(bot.retrievalMinScore);
+  const [reranker, setReranker] = useState(bot.reranker);
+  const [queryRewriting, setQueryRewriting] = useState(bot.queryRewriting);
+  const [groundingCheck, setGroundingCheck] = useState(bot.groundingCheck);
+  const [queryExpansion, setQueryExpansion] = useState(bot.queryExpansion);
+  const [strictMode, setStrictMode] = useState(bot.strictMode);
+  const [strictFallbackMessage, setStrictFallbackMessage] = useState(
+    bot.strictFallbackMessage ?? '',
+  );
+  const [strictFallbackAction, setStrictFallbackAction] = useState(bot.strictFallbackAction);
+  const [richMessages, setRichMessages] = useState(bot.richMessages);
+  const [chunkingStrategy, setChunkingStrategy] = useState(bot.chunkingStrategy);
+  const [chunkSize, setChunkSize] = useState(bot.chunkSize);
+  const [chunkOverlap, setChunkOverlap] = useState(bot.chunkOverlap);
 
-  const models = [
-    { value: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash (Fast)' },
-    { value: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro (Advanced)' },
-    { value: 'claude-3-5-haiku-latest', label: 'Claude 3.5 Haiku (Backup)' },
+  const chunkingStrategies: { value: ChunkingStrategy; label: string }[] = [
+    { value: 'MARKDOWN', label: 'Heading-aware (keeps sections, tables and code together)' },
+    { value: 'SENTENCE', label: 'Sentence boundaries' },
+    { value: 'TOKEN', label: 'Token count' },
+    { value: 'FIXED', label: 'Fixed word window' },
   ];
 
+  const { data: modelsData } = useQuery({
+    queryKey: ['ai-models'],
+    queryFn: () => api.get<{ models: AiModelInfo[] }>('/ai/models'),
+    staleTime: Infinity,
+  });
+  const models = modelsData?.data?.models ?? [];
+  const selectedModel = models.find(
+    (m) => m.id === aiModel || m.aliases?.includes(aiModel),
+  );
+
   return (
     <form
       onSubmit={(e) => {
@@ -283,6 +353,19 @@ function AiTab({
           aiModel,
           temperature,
           systemPrompt: systemPrompt || null,
+          retrievalMode,
+          retrievalMinScore,
+          reranker,
+          queryRewriting,
+          groundingCheck,
+          queryExpansion,
+          strictMode,
+          strictFallbackMessage: strictFallbackMessage || null,
+          strictFallbackAction,
+          richMessages,
+          chunkingStrategy,
+          chunkSize,
+          chunkOverlap,
         });
       }}
       className="space-y-4"
@@ -292,16 +375,25 @@ function AiTab({
           AI Model
         </label>
         <select
-          value={aiModel}
+          value={selectedModel?.id ?? aiModel}
           onChange={(e) => setAiModel(e.target.value)}
           className="h-10 w-full rounded-lg border border-input bg-background px-3 text-sm outline-none ring-ring focus:ring-2"
         >
+          {!selectedModel && <option value={aiModel}>{aiModel}</option>}
           {models.map((m) => (
-            <option key={m.value} value={m.value}>
-              {m.label}
+            <option key={m.id} value={m.id} disabled={!m.available && m !== selectedModel}>
+              {m.name}
+              {m.available ? '' : ' (no API key)'}
             </option>
           ))}
         </select>
+        {selectedModel && (
+          <p className="mt-1 text-xs text-muted-foreground">
+            {Math.round(selectedModel.contextWindow / 1000)}K context &middot; $
+            {selectedModel.pricing.input} / ${selectedModel.pricing.output} per 1M tokens
+            (in / out) &middot; {selectedModel.capabilities.join(', ')}
+          </p>
+        )}
       </div>
       <div>
         <label className="mb-1.5 block text-sm font-medium text-foreground">
@@ -333,6 +425,239 @@ function AiTab({
           className="w-full rounded-lg border border-input bg-background px-3 py-2 text-sm outline-none ring-ring focus:ring-2"
         />
       </div>
+      <div className="space-y-4 border-t border-border pt-4">
+        <h3 className="text-sm font-semibold text-foreground">Knowledge Retrieval</h3>
+        <div>
+          <label className="mb-1.5 block text-sm font-medium text-foreground">
+            Retrieval Mode
+          </label>
+          <select
+            value={retrievalMode}
+            onChange={(e) => setRetrievalMode(e.target.value as Chatbot['retrievalMode'])}
+            className="h-10 w-full rounded-lg border border-input bg-background px-3 text-sm outline-none ring-ring focus:ring-2"
+          >
+            <option value="VECTOR">Semantic (vector search)</option>
+            <option value="HYBRID">Hybrid (keyword + vector)</option>
+          </select>
+          <p className="mt-1 text-xs text-muted-foreground">
+            Hybrid also matches exact terms such as product codes, SKUs and error messages.
+          </p>
+        </div>
+        <div>
+          <label className="mb-1.5 block text-sm font-medium text-foreground">
+            Minimum Similarity: {retrievalMinScore.toFixed(2)}
+          </label>
+          <input
+            type="range"
+            min="0"
+            max="1"
+            step="0.05"
+            value={retrievalMinScore}
+            onChange={(e) => setRetrievalMinScore(parseFloat(e.target.value))}
+            className="w-full"
+          />
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>More results (0)</span>
+            <span>Stricter matches (1)</span>
+          </div>
+        </div>
+        <div>
+          <label className="mb-1.5 block text-sm font-medium text-foreground">
+            Reranking
+          </label>
+          <select
+            value={reranker}
+            onChange={(e) => setReranker(e.target.value as Chatbot['reranker'])}
+            className="h-10 w-full rounded-lg border border-input bg-background px-3 text-sm outline-none ring-ring focus:ring-2"
+          >
+            <option value="NONE">Off</option>
+            <option value="CROSS_ENCODER">Cross-encoder (local model)</option>
+            <option value="LLM">LLM scoring</option>
+          </select>
+          <p className="mt-1 text-xs text-muted-foreground">
+            Retrieves 30 candidates and reorders them by relevance before the best are used. Slower, but more precise.
+          </p>
+        </div>
+        <div>
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="queryRewriting"
+              checked={queryRewriting}
+              onChange={(e) => setQueryRewriting(e.target.checked)}
+              className="h-4 w-4 rounded border-input"
+            />
+            <label htmlFor="queryRewriting" className="text-sm font-medium text-foreground">
+              Rewrite follow-up questions
+            </label>
+          </div>
+          <p className="mt-1 text-xs text-muted-foreground">
+            Turns questions like &ldquo;how much does it cost?&rdquo; into a standalone search using the conversation so far.
+          </p>
+        </div>
+        <div>
+          <label className="mb-1.5 block text-sm font-medium text-foreground">
+            Query Expansion
+          </label>
+          <select
+            value={queryExpansion}
+            onChange={(e) => setQueryExpansion(e.target.value as Chatbot['queryExpansion'])}
+            className="h-10 w-full rounded-lg border border-input bg-background px-3 text-sm outline-none ring-ring focus:ring-2"
+          >
+            <option value="NONE">Off</option>
+            <option value="MULTI_QUERY">Multi-query (search several phrasings)</option>
+            <option value="HYDE">HyDE (search with a hypothetical answer)</option>
+          </select>
+          <p className="mt-1 text-xs text-muted-foreground">
+            Results for every query are merged before the best chunks are chosen.
+          </p>
+        </div>
+        <div>
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="groundingCheck"
+              checked={groundingCheck}
+              onChange={(e) => setGroundingCheck(e.target.checked)}
+              className="h-4 w-4 rounded border-input"
+            />
+            <label htmlFor="groundingCheck" className="text-sm font-medium text-foreground">
+              Check answers against sources
+            </label>
+          </div>
+          <p className="mt-1 text-xs text-muted-foreground">
+            After each answer, scores how much of it the retrieved knowledge supports, for analytics.
+          </p>
+        </div>
+        <div>
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="strictMode"
+              checked={strictMode}
+              onChange={(e) => setStrictMode(e.target.checked)}
+              className="h-4 w-4 rounded border-input"
+            />
+            <label htmlFor="strictMode" className="text-sm font-medium text-foreground">
+              Strict mode
+            </label>
+          </div>
+          <p className="mt-1 text-xs text-muted-foreground">
+            Only answers from the knowledge base. When nothing passes the minimum similarity, replies with the fallback message instead of the AI model.
+          </p>
+        </div>
+        {strictMode && (
+          <>
+            <div>
+              <label className="mb-1.5 block text-sm font-medium text-foreground">
+                Fallback Message
+              </label>
+              <textarea
+                value={strictFallbackMessage}
+                onChange={(e) => setStrictFallbackMessage(e.target.value)}
+                placeholder="Sorry, I couldn't find an answer to that in our knowledge base."
+                rows={3}
+                maxLength={1000}
+                className="w-full rounded-lg border border-input bg-background px-3 py-2 text-sm outline-none ring-ring focus:ring-2"
+              />
+            </div>
+            <div>
+              <label className="mb-1.5 block text-sm font-medium text-foreground">
+                When There&apos;s No Answer
+              </label>
+              <select
+                value={strictFallbackAction}
+                onChange={(e) =>
+                  setStrictFallbackAction(e.target.value as Chatbot['strictFallbackAction'])
+                }
+                className="h-10 w-full rounded-lg border border-input bg-background px-3 text-sm outline-none ring-ring focus:ring-2"
+              >
+                <option value="NONE">Show the fallback message only</option>
+                <option value="HANDOFF">Offer a human handoff</option>
+                <option value="LEAD_CAPTURE">Ask for contact details</option>
+              </select>
+            </div>
+          </>
+        )}
+        <div>
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="richMessages"
+              checked={richMessages}
+              onChange={(e) => setRichMessages(e.target.checked)}
+              className="h-4 w-4 rounded border-input"
+            />
+            <label htmlFor="richMessages" className="text-sm font-medium text-foreground">
+              Rich messages
+            </label>
+          </div>
+          <p className="mt-1 text-xs text-muted-foreground">
+            Lets the AI add quick reply buttons, link cards, image carousels and forms to its answers.
+          </p>
+        </div>
+        <div>
+          <div className="mb-1.5 flex items-center justify-between">
+            <label className="block text-sm font-medium text-foreground">
+              Chunking Strategy
+            </label>
+            <button
+              type="button"
+              onClick={() => {
+                setChunkingStrategy(DEFAULT_CHUNKING_STRATEGY);
+                setChunkSize(CHUNK_SIZE);
+                setChunkOverlap(CHUNK_OVERLAP);
+              }}
+              className="text-xs text-muted-foreground hover:text-foreground"
+            >
+              Reset to defaults
+            </button>
+          </div>
+          <select
+            value={chunkingStrategy}
+            onChange={(e) => setChunkingStrategy(e.target.value as ChunkingStrategy)}
+            className="h-10 w-full rounded-lg border border-input bg-background px-3 text-sm outline-none ring-ring focus:ring-2"
+          >
+            {chunkingStrategies.map((s) => (
+              <option key={s.value} value={s.value}>
+                {s.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="mb-1.5 block text-sm font-medium text-foreground">
+              Chunk Size ({chunkingStrategy === 'TOKEN' ? 'tokens' : 'words'})
+            </label>
+            <input
+              type="number"
+              min={50}
+              max={4000}
+              value={chunkSize}
+              onChange={(e) => setChunkSize(parseInt(e.target.value, 10) || 0)}
+              className="h-10 w-full rounded-lg border border-input bg-background px-3 text-sm outline-none ring-ring focus:ring-2"
+            />
+          </div>
+          <div>
+            <label className="mb-1.5 block text-sm font-medium text-foreground">
+              Chunk Overlap
+            </label>
+            <input
+              type="number"
+              min={0}
+              max={1000}
+              value={chunkOverlap}
+              onChange={(e) => setChunkOverlap(parseInt(e.target.value, 10) || 0)}
+              className="h-10 w-full rounded-lg border border-input bg-background px-3 text-sm outline-none ring-ring focus:ring-2"
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Chunking changes apply to content trained after saving. Retrain existing sources to
+          re-chunk them.
+        </p>
+      </div>
       <button
         type="submit"
         disabled={saving}
@@ -344,6 +669,115 @@ function AiTab({
   );
 }
 
+function EmbeddingModelSettings({ chatbotId }: { chatbotId: string }) {
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState('');
+
+  const { data: modelsData } = useQuery({
+    queryKey: ['embeddingModels'],
+    queryFn: () => api.get<{ models: EmbeddingModelOption[] }>('/knowledge/embeddings/models'),
+  });
+
+  const { data: statusData } = useQuery({
+    queryKey: ['embeddingStatus', chatbotId],
+    queryFn: () => api.get<EmbeddingStatus>(`/knowledge/embeddings/${chatbotId}/status`),
+    // Poll while a re-embed is running
+    refetchInterval: (query) => {
+      const status = query.state.data?.data?.migration?.status;
+      return status === 'PENDING' || status === 'PROCESSING' ? 3000 : false;
+    },
+  });
+
+  const reembedMutation = useMutation({
+    mutationFn: (option: EmbeddingModelOption) =>
+      api.post(`/knowledge/embeddings/${chatbotId}/reembed`, {
+        provider: option.provider,
+        model: option.model,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['embeddingStatus', chatbotId] });
+      toast.success('Re-embedding started');
+    },
+    onError: (err) => {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to start re-embedding');
+    },
+  });
+
+  const models = modelsData?.data?.models ?? [];
+  const status = statusData?.data;
+  const migration = status?.migration;
+  const isMigrating = migration?.status === 'PENDING' || migration?.status === 'PROCESSING';
+  const keyOf = (m: { provider: string; model: string }) => `${m.provider}:${m.model}`;
+  const activeKey = status ? keyOf(status.active) : '';
+  const activeChunks =
+    status?.models.find((m) => keyOf(m) === activeKey)?.chunks ?? 0;
+  const selectedOption = models.find((m) => keyOf(m) === (selected || activeKey));
+
+  return (
+    <div className="space-y-4 border-t border-border pt-6">
+      <div>
+        <h3 className="text-sm font-semibold text-foreground">Embedding Model</h3>
+        <p className="text-xs text-muted-foreground">
+          Switching models re-embeds all {activeChunks.toLocaleString()} stored chunks. The
+          current model keeps answering until the re-embed finishes.
+        </p>
+      </div>
+      <div className="flex gap-3">
+        <select
+          value={selected || activeKey}
+          onChange={(e) => setSelected(e.target.value)}
+          disabled={isMigrating}
+          className="h-10 flex-1 rounded-lg border border-input bg-background px-3 text-sm outline-none ring-ring focus:ring-2 disabled:opacity-50"
+        >
+          {models.map((m) => (
+            <option key={keyOf(m)} value={keyOf(m)}>
+              {m.label} ({m.dimensions}d){keyOf(m) === activeKey ? ' — active' : ''}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => selectedOption && reembedMutation.mutate(selectedOption)}
+          disabled={
+            isMigrating ||
+            reembedMutation.isPending ||
+            !selectedOption ||
+            keyOf(selectedOption) === activeKey
+          }
+          className="h-10 rounded-lg bg-primary px-4 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+        >
+          {reembedMutation.isPending ? 'Starting...' : 'Switch & Re-embed'}
+        </button>
+      </div>
+      {migration && migration.status !== 'COMPLETED' && (
+        <div className="rounded-lg border border-border bg-muted/30 p-3">
+          <div className="mb-1.5 flex items-center justify-between text-xs">
+            <span className="text-foreground">
+              {isMigrating ? 'Re-embedding' : 'Re-embed failed'} with {migration.toModel}
+            </span>
+            <span className="text-muted-foreground">
+              {migration.processedChunks} / {migration.totalChunks} chunks
+            </span>
+          </div>
+          {isMigrating && (
+            <div className="h-1.5 w-full overflow-hidden rounded-full bg-muted">
+              <div
+                className="h-full bg-primary transition-all"
+                style={{
+                  width: `${migration.totalChunks ? (migration.processedChunks / migration.totalChunks) * 100 : 0}%`,
+                }}
+              />
+            </div>
+          )}
+          {migration.status === 'FAILED' && migration.errorMessage && (
+            <p className="text-xs text-red-500">{migration.errorMessage}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function RateLimitTab({
   bot,
   onSave,
@@ -495,12 +929,10 @@ function EmbedTab({ chatbotId }: { chatbotId: string }) {
   const { data, isLoading } = useQuery({
     queryKey: ['embed-settings', chatbotId],
     queryFn: () =>
-      api.get<{ embedSettings: EmbedSettings }>(
-        `/deployment/embed/${chatbotId}`,
-      ),
+      api.get<{ embed: EmbedSettings }>(`/deployment/embed/${chatbotId}`),
   });
 
-  const embedSettings = data?.data?.embedSettings;
+  const embedSettings = data?.data?.embed;
 
   const [theme, setTheme] = useState<'light' | 'dark'>('light');
   const [headerColor, setHeaderColor] = useState('#6366f1');
@@ -524,7 +956,7 @@ function EmbedTab({ chatbotId }: { chatbotId: string }) {
       setChatBubbleColor(a.chatBubbleColor);
       setPosition(a.position);
       setDomains(embedSettings.embedAllowedDomains ?? []);
-      setPasswordProtected(embedSettings.hasPassword);
+      setPasswordProtected(embedSettings.passwordProtected);
       setInitialized(true);
     }
   }, [embedSettings, initialized]);
@@ -873,6 +1305,141 @@ function EmbedTab({ chatbotId }: { chatbotId: string }) {
       >
         {saveMutation.isPending ? 'Saving...' : 'Save Embed Settings'}
       </button>
+
+      <hr className="border-border" />
+
+      <IdentityVerification
+        chatbotId={chatbotId}
+        identitySecret={embedSettings?.identitySecret ?? null}
+      />
+    </div>
+  );
+}
+
+function IdentityVerification({
+  chatbotId,
+  identitySecret,
+}: {
+  chatbotId: string;
+  identitySecret: string | null;
+}) {
+  const queryClient = useQueryClient();
+  const [revealed, setRevealed] = useState(false);
+
+  const rotateMutation = useMutation({
+    mutationFn: () =>
+      api.post(`/deployment/embed/${chatbotId}/identity-secret`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['embed-settings', chatbotId] });
+      setRevealed(true);
+      toast.success(
+        identitySecret
+          ? 'Secret regenerated. Update it on your server.'
+          : 'Identity verification enabled',
+      );
+    },
+    onError: (err) => {
+      toast.error(
+        err instanceof ApiError ? err.message : 'Failed to generate secret',
+      );
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: () =>
+      api.delete(`/deployment/embed/${chatbotId}/identity-secret`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['embed-settings', chatbotId] });
+      toast.success('Identity verification disabled');
+    },
+    onError: (err) => {
+      toast.error(
+        err instanceof ApiError ? err.message : 'Failed to disable verification',
+      );
+    },
+  });
+
+  function handleCopy() {
+    if (!identitySecret) return;
+    navigator.clipboard.writeText(identitySecret).then(
+      () => toast.success('Secret copied to clipboard'),
+      () => toast.error('Failed to copy'),
+    );
+  }
+
+  return (
+    <div>
+      <h3 className="mb-1 text-base font-semibold text-foreground">
+        Identity Verification
+      </h3>
+      <p className="mb-4 text-sm text-muted-foreground">
+        Let the bot know which of your users it is talking to. Your server
+        signs a token with this secret, and the page passes it to{' '}
+        <code>CoBuild.identify</code>. Verified name, email and plan can be
+        used in the system prompt as <code>{'{{user.name}}'}</code>,{' '}
+        <code>{'{{user.email}}'}</code> and <code>{'{{user.plan}}'}</code>.
+      </p>
+
+      {identitySecret ? (
+        <div className="space-y-3">
+          <div className="flex max-w-xl gap-2">
+            <input
+              readOnly
+              type={revealed ? 'text' : 'password'}
+              value={identitySecret}
+              className="h-10 w-full rounded-lg border border-input bg-muted/50 px-3 font-mono text-sm text-foreground outline-none"
+            />
+            <button
+              type="button"
+              onClick={() => setRevealed(!revealed)}
+              className="h-10 shrink-0 rounded-lg border border-border px-4 text-sm font-medium text-foreground hover:bg-accent"
+            >
+              {revealed ? 'Hide' : 'Show'}
+            </button>
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="h-10 shrink-0 rounded-lg border border-border px-4 text-sm font-medium text-foreground hover:bg-accent"
+            >
+              Copy
+            </button>
+          </div>
+          <pre className="max-w-xl overflow-x-auto rounded-lg border border-border bg-muted/50 p-3 text-xs text-foreground">
+            <code>{`// On your server: an HS256 JWT signed with the secret, expiring within 24 hours
+token = jwt.sign({ sub: user.id, name, email, plan }, secret, { expiresIn: '1h' })
+
+// On your page
+CoBuild.identify({ token });`}</code>
+          </pre>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => rotateMutation.mutate()}
+              disabled={rotateMutation.isPending}
+              className="h-10 rounded-lg border border-border px-4 text-sm font-medium text-foreground hover:bg-accent disabled:opacity-50"
+            >
+              {rotateMutation.isPending ? 'Generating...' : 'Regenerate Secret'}
+            </button>
+            <button
+              type="button"
+              onClick={() => removeMutation.mutate()}
+              disabled={removeMutation.isPending}
+              className="h-10 rounded-lg border border-border px-4 text-sm font-medium text-red-500 hover:bg-accent disabled:opacity-50"
+            >
+              Disable
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => rotateMutation.mutate()}
+          disabled={rotateMutation.isPending}
+          className="h-10 rounded-lg border border-border px-4 text-sm font-medium text-foreground hover:bg-accent disabled:opacity-50"
+        >
+          {rotateMutation.isPending ? 'Generating...' : 'Enable Identity Verification'}
+        </button>
+      )}
     </div>
   );
 }
@@ -4,6 +4,15 @@ import { useState, useRef, useEffect } from 'react';
 import { useParams } from 'next/navigation';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { toast } from 'sonner';
+import type { Citation, FormBlock, MessageBlock } from '@cobuild/shared';
+import {
+  MESSAGE_SOURCE,
+  isWidgetMessage,
+  type HostToWidgetMessage,
+  type WidgetChatMessage,
+  type WidgetIdentity,
+  type WidgetToHostMessage,
+} from '@cobuild/widget';
 import { api, ApiError } from '@/lib/api';
 
 // ---------------------------------------------------------------------------
@@ -21,21 +30,187 @@ interface WidgetAppearance {
 }
 
 interface WidgetConfig {
-  chatbotId: string;
+  id: string;
   name: string;
   initialMessage: string | null;
   appearance: WidgetAppearance | null;
   isPublic: boolean;
   passwordProtected: boolean;
+  /** Password-protected and not unlocked yet; only name and appearance are sent */
+  locked: boolean;
+  showCitations: boolean;
+}
+
+/** Sent by strict mode when the knowledge base had no answer */
+interface StrictFallback {
+  action: 'HANDOFF' | 'LEAD_CAPTURE';
+  handoffRequestId?: string;
 }
 
 interface ChatMessage {
   id: string;
   role: 'user' | 'bot';
   content: string;
+  citations?: Citation[];
+  blocks?: MessageBlock[];
+  fallback?: StrictFallback;
   timestamp: Date;
 }
 
+interface WidgetConversation {
+  id: string;
+  messages: {
+    id: string;
+    role: 'USER' | 'ASSISTANT' | 'SYSTEM';
+    content: string;
+    citations: Citation[] | null;
+    blocks: MessageBlock[] | null;
+    createdAt: string;
+  }[];
+}
+
+interface WidgetChatEvent {
+  content?: string;
+  citations?: Citation[];
+  blocks?: MessageBlock[];
+  fallback?: StrictFallback;
+  isComplete?: boolean;
+  error?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Visitor session
+// ---------------------------------------------------------------------------
+
+const VISITOR_ID_KEY = 'cobuild-visitor-id';
+
+// Storage can be blocked for third-party iframes, so failures are ignored
+function readStorage(key: string): string | null {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+function writeStorage(key: string, value: string | null) {
+  try {
+    if (value === null) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, value);
+    }
+  } catch {
+    // ignore
+  }
+}
+
+/** Anonymous id that ties the visitor's conversations together */
+function getVisitorId(): string {
+  const stored = readStorage(VISITOR_ID_KEY);
+  if (stored) return stored;
+
+  const id = crypto.randomUUID();
+  writeStorage(VISITOR_ID_KEY, id);
+  return id;
+}
+
+/** Token from unlocking a password-protected chatbot */
+function sessionKey(chatbotId: string): string {
+  return `cobuild-widget-session-${chatbotId}`;
+}
+
+/** Origin of the page the widget is embedded in, when it can be told */
+function embedOrigin(): string | undefined {
+  const origin = window.location.ancestorOrigins?.[0];
+  if (origin || !document.referrer) return origin;
+
+  try {
+    return new URL(document.referrer).origin;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Headers for the public widget endpoints: the origin of the page the
+ * widget is embedded in, which the API checks against the chatbot's
+ * allowed domains, and the session token of a password-protected bot.
+ */
+function widgetHeaders(chatbotId: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  const origin = embedOrigin();
+  if (origin) headers['X-Embed-Origin'] = origin;
+
+  const session = readStorage(sessionKey(chatbotId));
+  if (session) headers['X-Widget-Session'] = session;
+
+  return headers;
+}
+
+// ---------------------------------------------------------------------------
+// Host page bridge
+// ---------------------------------------------------------------------------
+
+// Messages to and from `widget.js` on the host page; see @cobuild/widget
+
+function isEmbedded(): boolean {
+  return window.parent !== window;
+}
+
+function postToHost(message: WidgetToHostMessage) {
+  if (!isEmbedded()) return;
+  window.parent.postMessage(message, embedOrigin() ?? '*');
+}
+
+/** Call `onMessage` for each message the host page sends to the widget */
+function useHostMessages(onMessage: (message: HostToWidgetMessage) => void) {
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
+
+  useEffect(() => {
+    function handleMessage(event: MessageEvent) {
+      if (event.source !== window.parent || event.source === window) return;
+      const origin = embedOrigin();
+      if (origin && event.origin !== origin) return;
+      if (!isWidgetMessage<HostToWidgetMessage>(event.data)) return;
+
+      onMessageRef.current(event.data);
+    }
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+}
+
+/**
+ * The identity the API accepts; the host page may pass anything to
+ * `CoBuild.identify`
+ */
+function identityPayload(identity: WidgetIdentity | null) {
+  return typeof identity?.token === 'string' ? { token: identity.token } : undefined;
+}
+
+/**
+ * The `name` claim of an identity token, for greeting the visitor. Read
+ * without verifying: the API checks the token before trusting it.
+ */
+function identityName(identity: WidgetIdentity | null): string | undefined {
+  try {
+    const payload = identity?.token.split('.')[1];
+    if (!payload) return undefined;
+    const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof claims.name === 'string' ? claims.name : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function postChatMessage(message: WidgetChatMessage) {
+  postToHost({ source: MESSAGE_SOURCE, type: 'message', message });
+}
+
 // ---------------------------------------------------------------------------
 // Default appearance
 // ---------------------------------------------------------------------------
@@ -57,13 +232,36 @@ const DEFAULT_APPEARANCE: WidgetAppearance = {
 export default function EmbedPage() {
   const { chatbotId } = useParams<{ chatbotId: string }>();
 
-  const { data, isLoading, error } = useQuery({
+  const { data, isLoading, error, refetch } = useQuery({
     queryKey: ['widget-config', chatbotId],
     queryFn: () =>
-      api.get<WidgetConfig>(`/widget/${chatbotId}/config`),
+      api.get<{ chatbot: WidgetConfig }>(
+        `/widget/${chatbotId}/config`,
+        widgetHeaders(chatbotId),
+      ),
   });
 
-  const config = data?.data;
+  const config = data?.data?.chatbot;
+
+  // Set by the host page through `CoBuild.identify`
+  const [identity, setIdentity] = useState<WidgetIdentity | null>(null);
+
+  useHostMessages((message) => {
+    if (message.type === 'identify') setIdentity(message.identity);
+  });
+
+  // Tell widget.js the chat has loaded, so it can show the launcher in
+  // the chatbot's colors, and whether it can take messages yet
+  useEffect(() => {
+    if (!config) return;
+    postToHost({
+      source: MESSAGE_SOURCE,
+      type: 'ready',
+      name: config.name,
+      appearance: config.appearance,
+      locked: config.locked,
+    });
+  }, [config]);
 
   if (isLoading) {
     return <LoadingScreen />;
@@ -73,11 +271,21 @@ export default function EmbedPage() {
     return <ErrorScreen />;
   }
 
-  if (config.passwordProtected) {
-    return <PasswordGate config={config} />;
+  if (config.locked) {
+    return <PasswordGate config={config} onUnlock={() => refetch()} />;
   }
 
-  return <ChatWidget config={config} />;
+  return (
+    <ChatWidget
+      config={config}
+      identity={identity}
+      onLocked={() => {
+        // The session expired or the password changed
+        writeStorage(sessionKey(config.id), null);
+        refetch();
+      }}
+    />
+  );
 }
 
 // ---------------------------------------------------------------------------
@@ -131,9 +339,14 @@ function ErrorScreen() {
 // Password Gate
 // ---------------------------------------------------------------------------
 
-function PasswordGate({ config }: { config: WidgetConfig }) {
+function PasswordGate({
+  config,
+  onUnlock,
+}: {
+  config: WidgetConfig;
+  onUnlock: () => void;
+}) {
   const [password, setPassword] = useState('');
-  const [unlocked, setUnlocked] = useState(false);
   const [error, setError] = useState('');
   const [checking, setChecking] = useState(false);
 
@@ -147,21 +360,24 @@ function PasswordGate({ config }: { config: WidgetConfig }) {
     setError('');
 
     try {
-      // Try to validate the password by sending it as a header or query
-      // For now, store locally and pass to widget
-      // In production, this would validate against the backend
-      setUnlocked(true);
-    } catch {
-      setError('Invalid password. Please try again.');
+      const res = await api.post<{ token: string }>(
+        `/widget/${config.id}/unlock`,
+        { password },
+        widgetHeaders(config.id),
+      );
+      writeStorage(sessionKey(config.id), res.data.token);
+      onUnlock();
+    } catch (err) {
+      setError(
+        err instanceof ApiError && err.statusCode === 429
+          ? err.message
+          : 'Invalid password. Please try again.',
+      );
     } finally {
       setChecking(false);
     }
   }
 
-  if (unlocked) {
-    return <ChatWidget config={config} />;
-  }
-
   return (
     <div
       className="flex h-screen items-center justify-center"
@@ -245,7 +461,15 @@ function PasswordGate({ config }: { config: WidgetConfig }) {
 // Chat Widget
 // ---------------------------------------------------------------------------
 
-function ChatWidget({ config }: { config: WidgetConfig }) {
+function ChatWidget({
+  config,
+  identity,
+  onLocked,
+}: {
+  config: WidgetConfig;
+  identity: WidgetIdentity | null;
+  onLocked: () => void;
+}) {
   const appearance = config.appearance ?? DEFAULT_APPEARANCE;
   const isDark = appearance.theme === 'dark';
 
@@ -263,15 +487,88 @@ function ChatWidget({ config }: { config: WidgetConfig }) {
   });
   const [input, setInput] = useState('');
   const [sending, setSending] = useState(false);
+  const [visitorId] = useState(getVisitorId);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [embedded, setEmbedded] = useState(false);
+  // Messages from `CoBuild.sendMessage`, sent one at a time
+  const [hostQueue, setHostQueue] = useState<string[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const conversationKey = `cobuild-conversation-${config.id}`;
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
-  async function handleSend(e: React.FormEvent) {
+  // Pick up the visitor's previous conversation after a reload
+  useEffect(() => {
+    const storedId = readStorage(conversationKey);
+    if (!storedId) return;
+
+    api
+      .get<{ conversation: WidgetConversation }>(
+        `/widget/${config.id}/conversations/${storedId}?visitorId=${encodeURIComponent(visitorId)}`,
+        widgetHeaders(config.id),
+      )
+      .then((res) => {
+        const history = res.data.conversation.messages
+          .filter((m) => m.role !== 'SYSTEM')
+          .map<ChatMessage>((m) => ({
+            id: m.id,
+            role: m.role === 'USER' ? 'user' : 'bot',
+            content: m.content,
+            citations: m.citations ?? undefined,
+            blocks: m.blocks ?? undefined,
+            timestamp: new Date(m.createdAt),
+          }));
+        setConversationId(storedId);
+        setMessages((prev) => [...prev.filter((m) => m.id === 'initial'), ...history]);
+      })
+      .catch(() => writeStorage(conversationKey, null));
+  }, [config.id, conversationKey, visitorId]);
+
+  async function ensureConversation(): Promise<string> {
+    if (conversationId) return conversationId;
+
+    const res = await api.post<{ conversation: { id: string } }>(
+      `/widget/${config.id}/conversations`,
+      { visitorId, identity: identityPayload(identity) },
+      widgetHeaders(config.id),
+    );
+    const id = res.data.conversation.id;
+    setConversationId(id);
+    writeStorage(conversationKey, id);
+    return id;
+  }
+
+  useEffect(() => {
+    setEmbedded(isEmbedded());
+  }, []);
+
+  useHostMessages((message) => {
+    if (message.type === 'send-message') {
+      setHostQueue((prev) => [...prev, message.content]);
+    } else if (message.type === 'open') {
+      inputRef.current?.focus();
+    }
+  });
+
+  // Send the next queued host message once the previous reply is done
+  useEffect(() => {
+    if (sending || hostQueue.length === 0) return;
+    const [next, ...rest] = hostQueue;
+    setHostQueue(rest);
+    void sendMessage(next);
+  }, [sending, hostQueue]);
+
+  function handleSend(e: React.FormEvent) {
     e.preventDefault();
-    const text = input.trim();
+    void sendMessage(input);
+  }
+
+  async function sendMessage(content: string) {
+    const text = content.trim();
     if (!text || sending) return;
 
     const userMessage: ChatMessage = {
@@ -283,21 +580,62 @@ function ChatWidget({ config }: { config: WidgetConfig }) {
     setMessages((prev) => [...prev, userMessage]);
     setInput('');
     setSending(true);
+    postChatMessage({ role: 'user', content: text });
+
+    const botId = `bot-${Date.now()}`;
+    const showReply = (
+      content: string,
+      citations?: Citation[],
+      blocks?: MessageBlock[],
+      fallback?: StrictFallback,
+    ) =>
+      setMessages((prev) => [
+        ...prev.filter((m) => m.id !== botId),
+        {
+          id: botId,
+          role: 'bot',
+          content,
+          citations,
+          blocks,
+          fallback,
+          timestamp: new Date(),
+        },
+      ]);
 
     try {
-      // Placeholder: In production, this would call a conversation/message endpoint
-      // For now, show a simulated bot response
-      await new Promise((resolve) => setTimeout(resolve, 800));
-      const botMessage: ChatMessage = {
-        id: `bot-${Date.now()}`,
-        role: 'bot',
-        content:
-          'Thank you for your message. This is a preview of the embedded chat widget. Connect it to your backend to enable real conversations.',
-        timestamp: new Date(),
-      };
-      setMessages((prev) => [...prev, botMessage]);
-    } catch {
-      toast.error('Failed to send message');
+      const id = await ensureConversation();
+      let reply = '';
+
+      await api.stream<WidgetChatEvent>(
+        `/widget/${config.id}/chat`,
+        (event) => {
+          if (event.error) throw new Error(event.error);
+
+          if (event.isComplete) {
+            // The server may send back corrected text
+            showReply(event.content ?? reply, event.citations, event.blocks, event.fallback);
+            postChatMessage({ role: 'bot', content: event.content ?? reply });
+          } else if (event.content) {
+            reply += event.content;
+            showReply(reply);
+          }
+        },
+        {
+          body: {
+            visitorId,
+            conversationId: id,
+            content: text,
+            identity: identityPayload(identity),
+          },
+          headers: widgetHeaders(config.id),
+        },
+      );
+    } catch (err) {
+      if (err instanceof ApiError && err.statusCode === 401) {
+        onLocked();
+        return;
+      }
+      toast.error(err instanceof ApiError ? err.message : 'Failed to send message');
     } finally {
       setSending(false);
     }
@@ -335,10 +673,28 @@ function ChatWidget({ config }: { config: WidgetConfig }) {
             {config.name.charAt(0).toUpperCase()}
           </div>
         )}
-        <div>
+        <div className="flex-1">
           <p className="text-sm font-semibold">{config.name}</p>
           <p className="text-xs opacity-80">Online</p>
         </div>
+        {embedded && (
+          <button
+            type="button"
+            aria-label="Close chat"
+            onClick={() => postToHost({ source: MESSAGE_SOURCE, type: 'close' })}
+            className="flex h-8 w-8 items-center justify-center rounded-full opacity-80 hover:bg-white/20 hover:opacity-100"
+          >
+            <svg
+              className="h-4 w-4"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+              strokeWidth={2}
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" d="M18 6 6 18M6 6l12 12" />
+            </svg>
+          </button>
+        )}
       </div>
 
       {/* Messages */}
@@ -346,7 +702,9 @@ function ChatWidget({ config }: { config: WidgetConfig }) {
         {messages.length === 0 && (
           <div className="flex h-full items-center justify-center">
             <p className="text-sm" style={{ color: mutedColor }}>
-              Start a conversation...
+              {identityName(identity)
+                ? `Hi ${identityName(identity)}! Start a conversation...`
+                : 'Start a conversation...'}
             </p>
           </div>
         )}
@@ -372,11 +730,58 @@ function ChatWidget({ config }: { config: WidgetConfig }) {
                       }
                 }
               >
-                {msg.content}
+                {config.showCitations && msg.citations?.length
+                  ? withCitationMarkers(msg.content, msg.citations, appearance.chatBubbleColor)
+                  : msg.content}
+                {msg.blocks && msg.blocks.length > 0 && (
+                  <MessageBlocks
+                    blocks={msg.blocks}
+                    onReply={(content) => void sendMessage(content)}
+                    disabled={sending}
+                    colors={{
+                      accent: appearance.chatBubbleColor,
+                      surface: inputBg,
+                      border: inputBorder,
+                      text: textColor,
+                      muted: mutedColor,
+                    }}
+                  />
+                )}
+                {config.showCitations &&
+                  msg.citations &&
+                  msg.citations.length > 0 && (
+                    <CitationList
+                      citations={msg.citations}
+                      linkColor={appearance.chatBubbleColor}
+                      mutedColor={mutedColor}
+                    />
+                  )}
+                {msg.fallback?.action === 'HANDOFF' && (
+                  <p
+                    className="mt-2 border-t pt-2 text-xs"
+                    style={{ borderColor: inputBorder, color: mutedColor }}
+                  >
+                    A member of the team has been notified and will follow up here.
+                  </p>
+                )}
+                {msg.fallback?.action === 'LEAD_CAPTURE' && conversationId && (
+                  <LeadForm
+                    chatbotId={config.id}
+                    conversationId={conversationId}
+                    visitorId={visitorId}
+                    colors={{
+                      accent: appearance.chatBubbleColor,
+                      surface: inputBg,
+                      border: inputBorder,
+                      text: textColor,
+                      muted: mutedColor,
+                    }}
+                  />
+                )}
               </div>
             </div>
           ))}
-          {sending && (
+          {sending && messages[messages.length - 1]?.role === 'user' && (
             <div className="flex justify-start">
               <div
                 className="rounded-lg px-3 py-2 text-sm"
@@ -425,6 +830,7 @@ function ChatWidget({ config }: { config: WidgetConfig }) {
       >
         <form onSubmit={handleSend} className="flex gap-2">
           <input
+            ref={inputRef}
             value={input}
             onChange={(e) => setInput(e.target.value)}
             placeholder="Type a message..."
@@ -461,3 +867,437 @@ function ChatWidget({ config }: { config: WidgetConfig }) {
     </div>
   );
 }
+
+// ---------------------------------------------------------------------------
+// Citations
+// ---------------------------------------------------------------------------
+
+/**
+ * Render inline `[n]` citation markers as superscript links to their
+ * sources.
+ */
+function withCitationMarkers(
+  content: string,
+  citations: Citation[],
+  linkColor: string,
+): React.ReactNode[] {
+  return content.split(/(\[\d+(?:,\s*\d+)*\])/g).map((part, i) => {
+    const marker = /^\[([\d,\s]+)\]$/.exec(part);
+    if (!marker) return part;
+
+    return (
+      <sup key={i} className="mx-0.5 text-[0.7em]">
+        {marker[1].split(',').map((n, j) => {
+          const citation = citations.find((c) => c.index === Number(n));
+          return (
+            <a
+              key={j}
+              href={citation?.sourceUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              title={citation?.source}
+              className="ml-0.5 font-medium hover:underline"
+              style={{ color: linkColor }}
+            >
+              [{n.trim()}]
+            </a>
+          );
+        })}
+      </sup>
+    );
+  });
+}
+
+function CitationList({
+  citations,
+  linkColor,
+  mutedColor,
+}: {
+  citations: Citation[];
+  linkColor: string;
+  mutedColor: string;
+}) {
+  return (
+    <ol
+      className="mt-2 space-y-0.5 border-t pt-1.5 text-xs"
+      style={{ borderColor: `${mutedColor}40` }}
+    >
+      {citations.map((citation) => (
+        <li
+          key={citation.index}
+          className="flex gap-1"
+          title={citation.content}
+        >
+          <span className="shrink-0" style={{ color: mutedColor }}>
+            [{citation.index}]
+          </span>
+          {citation.sourceUrl ? (
+            <a
+              href={citation.sourceUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="truncate underline-offset-2 hover:underline"
+              style={{ color: linkColor }}
+            >
+              {citation.source}
+            </a>
+          ) : (
+            <span className="truncate">{citation.source}</span>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Message Blocks
+// ---------------------------------------------------------------------------
+
+interface BlockColors {
+  accent: string;
+  surface: string;
+  border: string;
+  text: string;
+  muted: string;
+}
+
+/**
+ * Buttons, cards, carousels and forms the bot attached to its answer.
+ * Quick replies and form answers are sent as the visitor's next message.
+ */
+function MessageBlocks({
+  blocks,
+  onReply,
+  disabled,
+  colors,
+}: {
+  blocks: MessageBlock[];
+  onReply: (content: string) => void;
+  disabled: boolean;
+  colors: BlockColors;
+}) {
+  const buttonStyle = {
+    borderColor: colors.accent,
+    color: colors.accent,
+    backgroundColor: colors.surface,
+  };
+  const cardStyle = {
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+    color: colors.text,
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      {blocks.map((block, i) => {
+        switch (block.type) {
+          case 'buttons':
+            return (
+              <div key={i} className="flex flex-wrap gap-1.5">
+                {block.buttons.map((button, j) =>
+                  button.url ? (
+                    <a
+                      key={j}
+                      href={button.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="rounded-full border px-3 py-1 text-xs font-medium hover:opacity-80"
+                      style={buttonStyle}
+                    >
+                      {button.label}
+                    </a>
+                  ) : (
+                    <button
+                      key={j}
+                      type="button"
+                      disabled={disabled}
+                      onClick={() => onReply(button.value ?? button.label)}
+                      className="rounded-full border px-3 py-1 text-xs font-medium hover:opacity-80 disabled:opacity-50"
+                      style={buttonStyle}
+                    >
+                      {button.label}
+                    </button>
+                  ),
+                )}
+              </div>
+            );
+          case 'card':
+            return (
+              <a
+                key={i}
+                href={block.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block overflow-hidden rounded-lg border hover:opacity-90"
+                style={cardStyle}
+              >
+                {block.imageUrl && (
+                  <img src={block.imageUrl} alt="" className="h-28 w-full object-cover" />
+                )}
+                <div className="p-2.5">
+                  <p className="text-sm font-medium">{block.title}</p>
+                  {block.description && (
+                    <p className="mt-0.5 line-clamp-2 text-xs" style={{ color: colors.muted }}>
+                      {block.description}
+                    </p>
+                  )}
+                  <p className="mt-1.5 text-xs font-medium" style={{ color: colors.accent }}>
+                    {block.buttonLabel ?? 'Open'} →
+                  </p>
+                </div>
+              </a>
+            );
+          case 'carousel':
+            return (
+              <div key={i} className="flex snap-x gap-2 overflow-x-auto pb-1">
+                {block.items.map((item, j) => {
+                  const content = (
+                    <>
+                      <img src={item.imageUrl} alt="" className="h-20 w-full object-cover" />
+                      <div className="p-2">
+                        <p className="truncate text-xs font-medium">{item.title}</p>
+                        {item.description && (
+                          <p className="line-clamp-2 text-xs" style={{ color: colors.muted }}>
+                            {item.description}
+                          </p>
+                        )}
+                      </div>
+                    </>
+                  );
+                  const className =
+                    'block w-36 shrink-0 snap-start overflow-hidden rounded-lg border';
+                  return item.url ? (
+                    <a
+                      key={j}
+                      href={item.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className={`${className} hover:opacity-90`}
+                      style={cardStyle}
+                    >
+                      {content}
+                    </a>
+                  ) : (
+                    <div key={j} className={className} style={cardStyle}>
+                      {content}
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          case 'form':
+            return (
+              <BlockForm
+                key={i}
+                form={block}
+                onReply={onReply}
+                disabled={disabled}
+                colors={colors}
+              />
+            );
+        }
+      })}
+    </div>
+  );
+}
+
+/** Form answers as a message, one `Label: answer` line per field */
+function formAnswers(form: FormBlock, values: Record<string, string>): string {
+  return form.fields
+    .filter((field) => values[field.name]?.trim())
+    .map((field) => `${field.label}: ${values[field.name].trim()}`)
+    .join('\n');
+}
+
+function BlockForm({
+  form,
+  onReply,
+  disabled,
+  colors,
+}: {
+  form: FormBlock;
+  onReply: (content: string) => void;
+  disabled: boolean;
+  colors: BlockColors;
+}) {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [submitted, setSubmitted] = useState(false);
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    const answers = formAnswers(form, values);
+    if (!answers) return;
+    onReply(answers);
+    setSubmitted(true);
+  }
+
+  const inputStyle = {
+    backgroundColor: colors.surface,
+    borderColor: colors.border,
+    color: colors.text,
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="space-y-2 rounded-lg border p-2.5"
+      style={{ borderColor: colors.border, backgroundColor: colors.surface }}
+    >
+      {form.title && (
+        <p className="text-xs font-medium" style={{ color: colors.text }}>
+          {form.title}
+        </p>
+      )}
+      {form.fields.map((field) => {
+        const props = {
+          value: values[field.name] ?? '',
+          required: field.required,
+          disabled: submitted,
+          placeholder: field.label,
+          'aria-label': field.label,
+          style: inputStyle,
+        };
+        const onChange = (
+          e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>,
+        ) => setValues((prev) => ({ ...prev, [field.name]: e.target.value }));
+
+        if (field.type === 'textarea') {
+          return (
+            <textarea
+              key={field.name}
+              {...props}
+              onChange={onChange}
+              rows={3}
+              className="w-full rounded-md border px-2 py-1.5 text-xs outline-none"
+            />
+          );
+        }
+        if (field.type === 'select') {
+          return (
+            <select
+              key={field.name}
+              {...props}
+              onChange={onChange}
+              className="h-8 w-full rounded-md border px-2 text-xs outline-none"
+            >
+              <option value="">{field.label}</option>
+              {field.options?.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          );
+        }
+        return (
+          <input
+            key={field.name}
+            {...props}
+            type={field.type}
+            onChange={onChange}
+            className="h-8 w-full rounded-md border px-2 text-xs outline-none"
+          />
+        );
+      })}
+      <button
+        type="submit"
+        disabled={disabled || submitted}
+        className="rounded-md px-3 py-1.5 text-xs font-medium text-white disabled:opacity-50"
+        style={{ backgroundColor: colors.accent }}
+      >
+        {submitted ? 'Sent' : (form.submitLabel ?? 'Send')}
+      </button>
+    </form>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Lead Form
+// ---------------------------------------------------------------------------
+
+/** Shown when strict mode couldn't answer and the bot collects leads */
+function LeadForm({
+  chatbotId,
+  conversationId,
+  visitorId,
+  colors,
+}: {
+  chatbotId: string;
+  conversationId: string;
+  visitorId: string;
+  colors: BlockColors;
+}) {
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+
+  const captureMutation = useMutation({
+    mutationFn: () =>
+      api.post(
+        `/widget/${chatbotId}/conversations/${conversationId}/lead`,
+        { visitorId, email, name: name || undefined },
+        widgetHeaders(chatbotId),
+      ),
+    onError: (err) => {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to send details');
+    },
+  });
+
+  if (captureMutation.isSuccess) {
+    return (
+      <p className="mt-2 text-xs" style={{ color: colors.muted }}>
+        Thanks! We&apos;ll get back to you at {email}.
+      </p>
+    );
+  }
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    captureMutation.mutate();
+  }
+
+  const inputStyle = {
+    backgroundColor: colors.surface,
+    borderColor: colors.border,
+    color: colors.text,
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="mt-2 space-y-2 rounded-lg border p-2.5"
+      style={{ borderColor: colors.border, backgroundColor: colors.surface }}
+    >
+      <p className="text-xs" style={{ color: colors.muted }}>
+        Leave your details and we&apos;ll get back to you.
+      </p>
+      <input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Name"
+        aria-label="Name"
+        maxLength={200}
+        className="h-8 w-full rounded-md border px-2 text-xs outline-none"
+        style={inputStyle}
+      />
+      <input
+        type="email"
+        required
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder="Email"
+        aria-label="Email"
+        className="h-8 w-full rounded-md border px-2 text-xs outline-none"
+        style={inputStyle}
+      />
+      <button
+        type="submit"
+        disabled={!email || captureMutation.isPending}
+        className="rounded-md px-3 py-1.5 text-xs font-medium text-white disabled:opacity-50"
+        style={{ backgroundColor: colors.accent }}
+      >
+        {captureMutation.isPending ? 'Sending...' : 'Send'}
+      </button>
+    </form>
+  );
+}
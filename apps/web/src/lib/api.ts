@@ -23,8 +23,12 @@ async function request<T>(
   const token =
     typeof window !== 'undefined' ? localStorage.getItem('accessToken') : null;
 
+  // Let the browser set the multipart boundary for FormData bodies
+  const isFormData =
+    typeof FormData !== 'undefined' && options.body instanceof FormData;
+
   const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
+    ...(isFormData ? {} : { 'Content-Type': 'application/json' }),
     ...((options.headers as Record<string, string>) || {}),
   };
 
@@ -46,13 +50,72 @@ async function request<T>(
   return json;
 }
 
+/**
+ * Read a server-sent events endpoint, calling `onEvent` with each
+ * message's parsed data. Uses fetch rather than EventSource so the auth
+ * header can be sent, and POSTs when given a body. Resolves when the
+ * server ends the stream.
+ */
+async function stream<T>(
+  endpoint: string,
+  onEvent: (data: T) => void,
+  options: {
+    signal?: AbortSignal;
+    body?: unknown;
+    headers?: Record<string, string>;
+  } = {},
+): Promise<void> {
+  const token =
+    typeof window !== 'undefined' ? localStorage.getItem('accessToken') : null;
+
+  const res = await fetch(`${API_URL}${endpoint}`, {
+    method: options.body ? 'POST' : 'GET',
+    headers: {
+      Accept: 'text/event-stream',
+      ...(options.body ? { 'Content-Type': 'application/json' } : {}),
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...options.headers,
+    },
+    body: options.body ? JSON.stringify(options.body) : undefined,
+    signal: options.signal,
+  });
+
+  if (!res.ok || !res.body) {
+    const json = await res.json().catch(() => ({}));
+    throw new ApiError(res.status, json.message || 'Something went wrong');
+  }
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+
+    buffer += value;
+    const messages = buffer.split(/\r?\n\r?\n/);
+    buffer = messages.pop() ?? '';
+
+    for (const message of messages) {
+      const data = message
+        .split(/\r?\n/)
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trimStart())
+        .join('\n');
+      if (data) onEvent(JSON.parse(data) as T);
+    }
+  }
+}
+
 export const api = {
-  get: <T>(endpoint: string) => request<T>(endpoint),
+  get: <T>(endpoint: string, headers?: Record<string, string>) =>
+    request<T>(endpoint, { headers }),
 
-  post: <T>(endpoint: string, body?: unknown) =>
+  post: <T>(endpoint: string, body?: unknown, headers?: Record<string, string>) =>
     request<T>(endpoint, {
       method: 'POST',
       body: body ? JSON.stringify(body) : undefined,
+      headers,
     }),
 
   patch: <T>(endpoint: string, body?: unknown) =>
@@ -63,6 +126,14 @@ export const api = {
 
   delete: <T>(endpoint: string) =>
     request<T>(endpoint, { method: 'DELETE' }),
+
+  upload: <T>(endpoint: string, formData: FormData) =>
+    request<T>(endpoint, {
+      method: 'POST',
+      body: formData,
+    }),
+
+  stream,
 };
 
 export { ApiError };
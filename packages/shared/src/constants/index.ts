@@ -2,15 +2,21 @@ export const APP_NAME = 'CoBuild';
 
 export const DEFAULT_AI_MODEL = 'gemini-2.5-flash';
 export const FALLBACK_AI_MODEL = 'claude-3-5-haiku-20241022';
+export const AI_PROVIDERS = ['gemini', 'anthropic'] as const;
 export const DEFAULT_TEMPERATURE = 0.7;
 
 export const MAX_CHAT_DOCS_SIZE_MB = 10;
 export const EMBEDDING_DIMENSIONS = 1536;
 export const CHUNK_SIZE = 500;
 export const CHUNK_OVERLAP = 50;
+export const DEFAULT_CHUNKING_STRATEGY = 'MARKDOWN';
 
 export const DEFAULT_RATE_LIMIT_MESSAGES = 20;
 export const DEFAULT_RATE_LIMIT_WINDOW_MINUTES = 60;
 
 export const USER_ROLES = ['OWNER', 'ADMIN', 'MANAGER', 'AGENT', 'VIEWER'] as const;
 export const PLAN_TYPES = ['FREE', 'BASIC', 'PREMIUM', 'ENTERPRISE', 'ADD_ON'] as const;
+export const CHUNKING_STRATEGIES = ['FIXED', 'SENTENCE', 'MARKDOWN', 'TOKEN'] as const;
+export const KNOWLEDGE_SOURCE_TYPES = ['CRAWL', 'FILE', 'QNA', 'TEXT', 'MANUAL'] as const;
+export const MESSAGE_BLOCK_TYPES = ['buttons', 'card', 'carousel', 'form'] as const;
+export const FORM_FIELD_TYPES = ['text', 'email', 'tel', 'number', 'textarea', 'select'] as const;
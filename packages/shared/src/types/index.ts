@@ -1,7 +1,20 @@
-import type { USER_ROLES, PLAN_TYPES } from '../constants';
+import type {
+  USER_ROLES,
+  PLAN_TYPES,
+  CHUNKING_STRATEGIES,
+  KNOWLEDGE_SOURCE_TYPES,
+  AI_PROVIDERS,
+  MESSAGE_BLOCK_TYPES,
+  FORM_FIELD_TYPES,
+} from '../constants';
 
 export type UserRole = (typeof USER_ROLES)[number];
 export type PlanType = (typeof PLAN_TYPES)[number];
+export type ChunkingStrategy = (typeof CHUNKING_STRATEGIES)[number];
+export type KnowledgeSourceType = (typeof KNOWLEDGE_SOURCE_TYPES)[number];
+export type AiProvider = (typeof AI_PROVIDERS)[number];
+export type MessageBlockType = (typeof MESSAGE_BLOCK_TYPES)[number];
+export type FormFieldType = (typeof FORM_FIELD_TYPES)[number];
 
 export interface ApiResponse<T> {
   success: boolean;
@@ -20,15 +33,96 @@ export interface PaginatedResponse<T> {
 }
 
 export interface Citation {
+  /** Matches the `[Source n]` block the chunk was given to the model as */
+  index: number;
+  /** Excerpt of the retrieved chunk */
   content: string;
+  /** Page title, file name, Q&A question, ... */
   source: string;
   sourceUrl?: string;
+  sourceType?: KnowledgeSourceType;
+  sourceId?: string | null;
+  score?: number;
+  rerankScore?: number;
+  /** The answer refers to this source with an inline `[n]` marker */
+  cited?: boolean;
 }
 
+/** An entry of the model registry, as listed by `GET /ai/models` */
+export interface AiModelInfo {
+  id: string;
+  name: string;
+  provider: AiProvider;
+  contextWindow: number;
+  /** USD per million tokens */
+  pricing: { input: number; output: number };
+  capabilities: ('streaming' | 'vision' | 'tools' | 'reasoning')[];
+  aliases?: string[];
+  /** The provider has an API key configured */
+  available: boolean;
+}
+
+/**
+ * A quick reply. Clicking it sends `value` (or the label) as the user's
+ * next message, or opens `url` if set.
+ */
+export interface QuickReplyButton {
+  label: string;
+  value?: string;
+  url?: string;
+}
+
+export interface ButtonsBlock {
+  type: 'buttons';
+  buttons: QuickReplyButton[];
+}
+
+export interface LinkCardBlock {
+  type: 'card';
+  title: string;
+  description?: string;
+  imageUrl?: string;
+  url: string;
+  buttonLabel?: string;
+}
+
+export interface CarouselItem {
+  title: string;
+  description?: string;
+  imageUrl: string;
+  url?: string;
+}
+
+export interface CarouselBlock {
+  type: 'carousel';
+  items: CarouselItem[];
+}
+
+export interface FormField {
+  name: string;
+  label: string;
+  type: FormFieldType;
+  required?: boolean;
+  /** Choices for `select` fields */
+  options?: string[];
+}
+
+/** An inline form; the answers are sent back as the user's next message */
+export interface FormBlock {
+  type: 'form';
+  title?: string;
+  fields: FormField[];
+  submitLabel?: string;
+}
+
+/** Rich content shown below the text of a bot message */
+export type MessageBlock = ButtonsBlock | LinkCardBlock | CarouselBlock | FormBlock;
+
 export interface ChatMessage {
   id: string;
   content: string;
   role: 'user' | 'assistant' | 'system';
   createdAt: string;
   citations?: Citation[];
+  blocks?: MessageBlock[];
 }
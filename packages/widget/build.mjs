@@ -0,0 +1,20 @@
+import { build } from 'esbuild';
+import { copyFile, mkdir } from 'node:fs/promises';
+
+// Bundle the loader into the script customers embed, and serve it from
+// the web app at /widget.js
+const outfile = 'dist/widget.js';
+const publicDir = '../../apps/web/public';
+
+await build({
+  entryPoints: ['src/loader.ts'],
+  outfile,
+  bundle: true,
+  format: 'iife',
+  minify: true,
+  target: 'es2018',
+  legalComments: 'none',
+});
+
+await mkdir(publicDir, { recursive: true });
+await copyFile(outfile, `${publicDir}/widget.js`);
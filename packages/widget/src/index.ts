@@ -1 +1,3 @@
-export const WIDGET_VERSION = '0.1.0';
+export { WIDGET_VERSION } from './version';
+export * from './protocol';
+export type { CoBuildApi } from './loader';
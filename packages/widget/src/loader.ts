@@ -0,0 +1,239 @@
+import {
+  HostToWidgetMessage,
+  MESSAGE_SOURCE,
+  WidgetAppearance,
+  WidgetChatMessage,
+  WidgetIdentity,
+  WidgetToHostMessage,
+  isWidgetMessage,
+} from './protocol';
+import { WIDGET_VERSION } from './version';
+
+/**
+ * Entry point of `widget.js`, the script customers add to their site:
+ *
+ *   <script src="https://app.cobuild.ai/widget.js" data-chatbot-id="..."></script>
+ *
+ * It adds a floating launcher button and the chat iframe, and exposes
+ * `window.CoBuild` for controlling the widget from the page.
+ */
+
+type WidgetEvent = 'ready' | 'open' | 'close' | 'message';
+
+type WidgetEventHandler<E extends WidgetEvent> = E extends 'message'
+  ? (message: WidgetChatMessage) => void
+  : () => void;
+
+export interface CoBuildApi {
+  version: string;
+  open(): void;
+  close(): void;
+  toggle(): void;
+  /** Open the chat and send a message as the visitor */
+  sendMessage(content: string): void;
+  identify(identity: WidgetIdentity): void;
+  /** Subscribe to widget events; returns a function that unsubscribes */
+  on<E extends WidgetEvent>(event: E, handler: WidgetEventHandler<E>): () => void;
+  off<E extends WidgetEvent>(event: E, handler: WidgetEventHandler<E>): void;
+}
+
+declare global {
+  interface Window {
+    CoBuild?: CoBuildApi;
+  }
+}
+
+const DEFAULT_APPEARANCE: Required<Pick<WidgetAppearance, 'headerColor' | 'headerTextColor' | 'position'>> = {
+  headerColor: '#6366f1',
+  headerTextColor: '#ffffff',
+  position: 'bottom-right',
+};
+
+const Z_INDEX = '2147483000';
+const OFFSET = '20px';
+
+const CHAT_ICON =
+  '<svg width="26" height="26" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"/></svg>';
+const CLOSE_ICON =
+  '<svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M18 6 6 18M6 6l12 12"/></svg>';
+
+function createWidget(chatbotId: string, appOrigin: string): CoBuildApi {
+  const handlers: { [E in WidgetEvent]: Set<WidgetEventHandler<E>> } = {
+    ready: new Set(),
+    open: new Set(),
+    close: new Set(),
+    message: new Set(),
+  };
+  // Messages for the iframe wait until it reports that the chat is ready
+  const pending: HostToWidgetMessage[] = [];
+  let ready = false;
+  let announced = false;
+  let isOpen = false;
+
+  const container = document.createElement('div');
+  container.id = 'cobuild-widget';
+  Object.assign(container.style, {
+    position: 'fixed',
+    bottom: OFFSET,
+    zIndex: Z_INDEX,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '12px',
+  });
+
+  const frame = document.createElement('iframe');
+  frame.src = `${appOrigin}/embed/${encodeURIComponent(chatbotId)}`;
+  frame.title = 'Chat';
+  frame.allow = 'microphone; clipboard-write';
+  // The iframe reads the host origin from its referrer (Firefox has no
+  // `ancestorOrigins`), so send it even if the page's policy is no-referrer
+  frame.referrerPolicy = 'origin';
+  Object.assign(frame.style, {
+    display: 'none',
+    width: 'min(380px, calc(100vw - 40px))',
+    height: 'min(600px, calc(100vh - 120px))',
+    border: 'none',
+    borderRadius: '12px',
+    boxShadow: '0 10px 40px rgba(0, 0, 0, 0.2)',
+    background: '#ffffff',
+  });
+
+  const launcher = document.createElement('button');
+  launcher.type = 'button';
+  launcher.setAttribute('aria-label', 'Open chat');
+  launcher.innerHTML = CHAT_ICON;
+  Object.assign(launcher.style, {
+    // Shown once the chat has loaded, in the chatbot's colors
+    display: 'none',
+    alignItems: 'center',
+    justifyContent: 'center',
+    width: '56px',
+    height: '56px',
+    border: 'none',
+    borderRadius: '50%',
+    cursor: 'pointer',
+    boxShadow: '0 4px 16px rgba(0, 0, 0, 0.2)',
+  });
+  launcher.addEventListener('click', () => api.toggle());
+
+  container.append(frame, launcher);
+  applyAppearance(null);
+
+  function applyAppearance(appearance: WidgetAppearance | null) {
+    const { headerColor, headerTextColor, position } = { ...DEFAULT_APPEARANCE, ...appearance };
+    const left = position === 'bottom-left';
+
+    container.style.left = left ? OFFSET : '';
+    container.style.right = left ? '' : OFFSET;
+    container.style.alignItems = left ? 'flex-start' : 'flex-end';
+    launcher.style.backgroundColor = headerColor;
+    launcher.style.color = headerTextColor;
+  }
+
+  function post(message: HostToWidgetMessage) {
+    if (!ready) {
+      pending.push(message);
+      return;
+    }
+    frame.contentWindow?.postMessage(message, appOrigin);
+  }
+
+  function emit<E extends WidgetEvent>(event: E, ...args: Parameters<WidgetEventHandler<E>>) {
+    for (const handler of handlers[event]) {
+      try {
+        (handler as (...a: Parameters<WidgetEventHandler<E>>) => void)(...args);
+      } catch (err) {
+        console.error(`[CoBuild] "${event}" handler failed`, err);
+      }
+    }
+  }
+
+  function setOpen(open: boolean) {
+    if (open === isOpen) return;
+    isOpen = open;
+
+    frame.style.display = open ? 'block' : 'none';
+    launcher.innerHTML = open ? CLOSE_ICON : CHAT_ICON;
+    launcher.setAttribute('aria-label', open ? 'Close chat' : 'Open chat');
+    post({ source: MESSAGE_SOURCE, type: open ? 'open' : 'close' });
+    emit(open ? 'open' : 'close');
+  }
+
+  window.addEventListener('message', (event: MessageEvent) => {
+    if (event.origin !== appOrigin || event.source !== frame.contentWindow) return;
+    if (!isWidgetMessage<WidgetToHostMessage>(event.data)) return;
+
+    const data = event.data;
+    switch (data.type) {
+      case 'ready':
+        applyAppearance(data.appearance);
+        launcher.style.display = 'flex';
+        launcher.title = data.name;
+        // A password-protected chat reports again once unlocked, and
+        // locked again when its session ends; messages wait meanwhile
+        ready = !data.locked;
+        if (ready) {
+          pending.splice(0).forEach(post);
+          if (!announced) {
+            announced = true;
+            emit('ready');
+          }
+        }
+        break;
+      case 'message':
+        emit('message', data.message);
+        break;
+      case 'close':
+        setOpen(false);
+        break;
+    }
+  });
+
+  const api: CoBuildApi = {
+    version: WIDGET_VERSION,
+    open: () => setOpen(true),
+    close: () => setOpen(false),
+    toggle: () => setOpen(!isOpen),
+    sendMessage(content) {
+      if (!content.trim()) return;
+      setOpen(true);
+      post({ source: MESSAGE_SOURCE, type: 'send-message', content });
+    },
+    identify(identity) {
+      post({ source: MESSAGE_SOURCE, type: 'identify', identity });
+    },
+    on(event, handler) {
+      handlers[event].add(handler);
+      return () => api.off(event, handler);
+    },
+    off(event, handler) {
+      handlers[event].delete(handler);
+    },
+  };
+
+  const mount = () => document.body.appendChild(container);
+  if (document.body) {
+    mount();
+  } else {
+    document.addEventListener('DOMContentLoaded', mount);
+  }
+
+  return api;
+}
+
+(() => {
+  const script = document.currentScript as HTMLScriptElement | null;
+  const chatbotId = script?.dataset.chatbotId;
+
+  if (!script || !chatbotId) {
+    console.warn('[CoBuild] The widget script needs a data-chatbot-id attribute');
+    return;
+  }
+
+  if (window.CoBuild) {
+    console.warn('[CoBuild] The widget script was loaded twice; ignoring the second copy');
+    return;
+  }
+
+  window.CoBuild = createWidget(chatbotId, new URL(script.src).origin);
+})();
@@ -0,0 +1,58 @@
+/**
+ * postMessage protocol between the loader script on the customer's page
+ * and the chat iframe. Every message carries `source` so unrelated
+ * messages on either window are ignored.
+ */
+export const MESSAGE_SOURCE = 'cobuild-widget';
+
+export interface WidgetAppearance {
+  theme?: 'light' | 'dark';
+  headerColor?: string;
+  headerTextColor?: string;
+  chatBubbleColor?: string;
+  position?: 'bottom-right' | 'bottom-left';
+}
+
+/**
+ * A logged-in user of the host page, passed in through `identify`.
+ * `token` is an HS256 JWT the customer's backend signs with the chatbot's
+ * identity secret: the user id as `sub`, plus optional `name`, `email`
+ * and `plan` claims, and an `exp` at most 24 hours away. The API only
+ * trusts what the token contains.
+ */
+export interface WidgetIdentity {
+  token: string;
+}
+
+export interface WidgetChatMessage {
+  role: 'user' | 'bot';
+  content: string;
+}
+
+/** Sent by the loader to the iframe */
+export type HostToWidgetMessage =
+  | { source: typeof MESSAGE_SOURCE; type: 'open' }
+  | { source: typeof MESSAGE_SOURCE; type: 'close' }
+  | { source: typeof MESSAGE_SOURCE; type: 'send-message'; content: string }
+  | { source: typeof MESSAGE_SOURCE; type: 'identify'; identity: WidgetIdentity };
+
+/** Sent by the iframe to the loader */
+export type WidgetToHostMessage =
+  | {
+      source: typeof MESSAGE_SOURCE;
+      type: 'ready';
+      name: string;
+      appearance: WidgetAppearance | null;
+      /** Behind the password prompt, so the chat can't take messages yet */
+      locked: boolean;
+    }
+  | { source: typeof MESSAGE_SOURCE; type: 'message'; message: WidgetChatMessage }
+  | { source: typeof MESSAGE_SOURCE; type: 'close' };
+
+export function isWidgetMessage<T extends { source: string }>(data: unknown): data is T {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    (data as { source?: unknown }).source === MESSAGE_SOURCE
+  );
+}